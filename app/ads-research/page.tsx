@@ -0,0 +1,27 @@
+import { Toaster } from 'sonner';
+import { AdsResearch } from '@/components/ads-research/AdsResearch';
+
+interface AdsResearchPageProps {
+  searchParams: Promise<{ profile?: string; services?: string | string[]; companyName?: string }>;
+}
+
+/**
+ * Competitor ads for a saved profile - opened from CompetitionPrompt after
+ * the wizard saves. `?services=a&services=b` preselects the service filter.
+ */
+export default async function AdsResearchPage({ searchParams }: AdsResearchPageProps) {
+  const { profile, services, companyName } = await searchParams;
+  // One param per service - names can contain commas
+  const initialServices = [services ?? []].flat().map(s => s.trim()).filter(Boolean);
+
+  return (
+    <>
+      <AdsResearch
+        profileId={profile}
+        initialServices={initialServices}
+        companyName={companyName}
+      />
+      <Toaster dir="rtl" position="top-center" richColors />
+    </>
+  );
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProfileStore } from '@/lib/profile-store';
+import { profileErrorResponse } from '@/lib/profile-route';
+import { getAdLibraryProvider } from '@/lib/ad-library';
+import type { AdsResearchCompetitor } from '@/types/ads-research';
+import type { StoredProfile } from '@/types/onboarding';
+
+// Scanned competitor profiles when available, otherwise just the validated URLs
+function competitorsOf(profile: StoredProfile): AdsResearchCompetitor[] {
+  const scanned = (profile.competitor_profiles ?? []).filter((c) => !c.error);
+  if (scanned.length > 0) {
+    return scanned.map(({ url, name, services }) => ({ url, name, services }));
+  }
+
+  return profile.competitors_valid.map((url) => {
+    let name = url;
+    try {
+      name = new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+      // Keep the URL as the name
+    }
+    return { url, name, services: [] };
+  });
+}
+
+/**
+ * GET /api/ads-research?profile=<id>&services=a&services=b
+ * Competitor ads for a saved profile, optionally filtered by services
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const profileId = searchParams.get('profile');
+    if (!profileId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Query parameter "profile" is required',
+          code: 'missing_profile',
+        },
+        { status: 400 }
+      );
+    }
+
+    const selectedServices = searchParams
+      .getAll('services')
+      .map((service) => service.trim())
+      .filter(Boolean);
+
+    const profile = await getProfileStore().get(profileId);
+    const competitors = competitorsOf(profile);
+    const provider = getAdLibraryProvider();
+    const ads = competitors.length > 0
+      ? await provider.searchAds({ competitors, services: selectedServices })
+      : [];
+
+    return NextResponse.json({
+      success: true,
+      company_name: profile.company_name,
+      services: profile.products_services,
+      selected_services: selectedServices,
+      competitors,
+      ads,
+      provider: provider.name,
+    });
+  } catch (error) {
+    return profileErrorResponse(error, 'Ads research', 'Failed to load competitor ads');
+  }
+}
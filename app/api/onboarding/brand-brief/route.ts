@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RequestBodyError, requestBodyErrorResponse, validateRequestBody } from '@/lib/request-body';
+import { brandBriefRequestSchema } from '@/lib/onboarding-schemas';
+import { BRAND_BRIEF_CONTENT_TYPES, renderBrandBrief } from '@/lib/brand-brief';
+
+/**
+ * `attachment` (or `inline` for the print view) with the UTF-8 filename -
+ * Hebrew company names survive - and an ASCII one for older clients
+ */
+function contentDisposition(filename: string, inline: boolean): string {
+  const ascii = filename.replace(/[^\x20-\x7e]+|["\\]/g, '').replace(/-{2,}/g, '-');
+  return `${inline ? 'inline' : 'attachment'}; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * The profile as a brand brief file (lib/brand-brief.ts). Success is the
+ * file itself, not a JSON envelope; errors are the usual JSON responses.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { profile, format, print = false } = await validateRequestBody(request, brandBriefRequestSchema);
+    const { filename, content } = renderBrandBrief(profile, format, { print });
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': BRAND_BRIEF_CONTENT_TYPES[format],
+        'Content-Disposition': contentDisposition(filename, print && format === 'html'),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return requestBodyErrorResponse(error);
+    }
+
+    console.error('[API] Brand brief error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export brand brief',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,89 +1,77 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { RequestBodyError, requestBodyErrorResponse, validateRequestBody } from '@/lib/request-body';
+import { chatRequestSchema } from '@/lib/onboarding-schemas';
+import { getLlmProvider, LlmError, LLM_ERROR_STATUS, renderPrompt } from '@/lib/llm';
+import { createSseResponse, wantsEventStream } from '@/lib/sse';
+import type { ChatResponse } from '@/types/onboarding';
 
-// Dummy conversation flow - simulates a natural chat experience
-const conversationFlow = [
-  {
-    trigger: 'initial',
-    response: 'שלום! אני כאן כדי להכיר את העסק שלך. ראיתי שבחרת כמה שירותים מעניינים. ספר לי, מה הופך את העסק שלך למיוחד? מה היתרון שלך על פני המתחרים?',
-  },
-  {
-    trigger: 'first_answer',
-    response: 'מעולה! זה נשמע ממש טוב. עכשיו בואו נדבר על קהל היעד - למי בעיקר מיועדים השירותים שלך? מי הם הלקוחות האידיאליים?',
-  },
-  {
-    trigger: 'second_answer',
-    response: 'מצוין! אני מתחיל להבין את התמונה. שאלה אחרונה - איך תרצה שהמותג שלך ישמע? מה הטון והסגנון שמתאים לך? (לדוגמה: מקצועי, ידידותי, צעיר ודינמי, רציני וכו\')',
-  },
-  {
-    trigger: 'third_answer',
-    response: 'תודה רבה! קיבלתי תמונה ברורה על העסק שלך. יש לי את כל המידע שאני צריך כדי ליצור עבורך תוכן מותאם אישית. בואו נמשיך לשלב הבא!',
-    isComplete: true,
-  },
-];
+/**
+ * Onboarding Chat API
+ * The assistant's messages come from the LLM (prompt: lib/llm/prompts/onboarding-chat.md);
+ * each of the first three user answers fills one profile field, then the chat completes.
+ *
+ * With `Accept: text/event-stream` the message is streamed as `delta` events
+ * and the rest of the response follows in a `done` event (lib/sse.ts).
+ */
+
+// Profile field each user answer fills, in order
+const ANSWER_FIELDS = ['unique_value_proposition', 'target_audience', 'brand_voice'] as const;
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.text();
-    let requestData: any = {};
+    const { messages, isInitial, businessContext } = await validateRequestBody(request, chatRequestSchema);
 
-    try {
-      requestData = JSON.parse(body);
-    } catch {
-      // If parsing fails, treat as initial request
-      requestData = { isInitial: true };
-    }
+    const history = isInitial ? [] : messages;
+    const userMessageCount = history.filter((m) => m.role === 'user').length;
+    const lastUserMessage = history[history.length - 1]?.content ?? '';
 
-    const { messages = [], isInitial, businessContext } = requestData;
+    const prompt = await renderPrompt('onboarding-chat', {
+      company_name: businessContext?.companyName,
+      industry: businessContext?.industry,
+      services: businessContext?.services,
+    });
+    const provider = getLlmProvider();
 
-    // Determine conversation stage based on message count
-    const userMessageCount = messages.filter((m: any) => m.role === 'user').length;
+    const answeredField = ANSWER_FIELDS[Math.min(userMessageCount, ANSWER_FIELDS.length) - 1];
+    const isComplete = userMessageCount >= ANSWER_FIELDS.length;
 
-    let responseData: any = {};
+    const buildResponse = (message: string): ChatResponse => {
+      if (isComplete) {
+        // After third user response - collect brand_voice and complete
+        return { success: true, message, isComplete, finalAnswers: { [answeredField]: lastUserMessage } };
+      }
+      if (answeredField) {
+        return { success: true, message, isComplete, answers: { [answeredField]: lastUserMessage } };
+      }
+      return { success: true, message, isComplete };
+    };
 
-    if (isInitial || messages.length === 0) {
-      // Initial greeting
-      responseData = {
-        success: true,
-        message: conversationFlow[0].response,
-        isComplete: false,
-      };
-    } else if (userMessageCount === 1) {
-      // After first user response - collect unique_value_proposition
-      const lastUserMessage = messages[messages.length - 1].content;
-      responseData = {
-        success: true,
-        message: conversationFlow[1].response,
-        isComplete: false,
-        answers: {
-          unique_value_proposition: lastUserMessage,
-        },
-      };
-    } else if (userMessageCount === 2) {
-      // After second user response - collect target_audience
-      const lastUserMessage = messages[messages.length - 1].content;
-      responseData = {
-        success: true,
-        message: conversationFlow[2].response,
-        isComplete: false,
-        answers: {
-          target_audience: lastUserMessage,
-        },
-      };
-    } else if (userMessageCount >= 3) {
-      // After third user response - collect brand_voice and complete
-      const lastUserMessage = messages[messages.length - 1].content;
-      responseData = {
-        success: true,
-        message: conversationFlow[3].response,
-        isComplete: true,
-        finalAnswers: {
-          brand_voice: lastUserMessage,
-        },
-      };
+    if (wantsEventStream(request)) {
+      return createSseResponse(async (send, signal) => {
+        let message = '';
+        for await (const delta of provider.stream({ prompt, messages: history, signal })) {
+          message += delta;
+          send('delta', { text: delta });
+        }
+        if (!signal.aborted) send('done', buildResponse(message.trim()));
+      }, request.signal);
     }
 
-    return NextResponse.json(responseData);
+    const message = await provider.complete({ prompt, messages: history });
+    return NextResponse.json(buildResponse(message));
   } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return requestBodyErrorResponse(error);
+    }
+
+    if (error instanceof LlmError) {
+      console.error('[API] Chat LLM error:', error.message);
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: LLM_ERROR_STATUS[error.code] }
+      );
+    }
+
     console.error('[API] Chat error:', error);
     return NextResponse.json(
       {
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { conversationGraph, conversationGraphMermaid } from '@/lib/conversation-machine';
+
+/**
+ * GET /api/onboarding/conversational-chat/graph?format=json|mermaid
+ * The conversation state machine (lib/conversation-machine.ts) for review -
+ * JSON by default, or a Mermaid state diagram as plain text
+ */
+export async function GET(request: NextRequest) {
+  const format = request.nextUrl.searchParams.get('format') ?? 'json';
+
+  if (format === 'mermaid') {
+    return new NextResponse(conversationGraphMermaid(), {
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+    });
+  }
+
+  if (format !== 'json') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Query parameter "format" must be "json" or "mermaid"',
+        code: 'invalid_format',
+      },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    graph: conversationGraph(),
+  });
+}
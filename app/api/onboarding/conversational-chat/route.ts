@@ -1,211 +1,362 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { RequestBodyError, requestBodyErrorResponse, validateRequestBody } from '@/lib/request-body';
+import { classifyBusinessCategory, isBusinessCategory } from '@/lib/business-category';
+import { questionsForCategory, type CategoryQuestion } from '@/lib/question-bank';
+import { businessSummarySchema, conversationalChatRequestSchema } from '@/lib/onboarding-schemas';
+import { getLlmProvider, LlmError, LLM_ERROR_STATUS, renderPrompt } from '@/lib/llm';
+import { createSseResponse, splitTextDeltas, wantsEventStream } from '@/lib/sse';
+import {
+  ConversationSessionError,
+  getConversationSessionStore,
+  newConversationSession,
+  type ConversationSessionErrorCode,
+} from '@/lib/conversation-session';
+import {
+  canPickCategory,
+  ConversationMachineError,
+  conversationStage,
+  eventForMessage,
+  nextConversationState,
+  type ConversationEvent,
+  type ConversationMachineErrorCode,
+} from '@/lib/conversation-machine';
+import {
+  businessCategoryLabels,
+  type BusinessCategorySelection,
+  type BusinessSummary,
+  type ConversationalChatResponse,
+  type ConversationSessionData,
+  type ConversationTurnResponse,
+  type ConversationState,
+} from '@/types/onboarding';
 
 /**
  * Conversational Onboarding API
- * Follows Agent B prompt structure with 3 screens:
+ * A scripted conversation in 3 screens:
  * Screen 1: Product/Services identification and selection
  * Screen 2: Customer mapping for each selected service
  * Screen 3: Category-specific questions (Q2-Q8)
+ *
+ * The flow is the state machine in lib/conversation-machine.ts: each user
+ * message is an event of the current state, `applyEvent` records what it
+ * says in `sessionData`, and `enterState` writes the reply for the state the
+ * machine moves to. A message the current state doesn't accept is rejected.
+ *
+ * The conversation state is the server's (lib/conversation-session.ts): the
+ * client sends its message and the `sessionId` from the previous response
+ * (none on the first message). Picks made with a message's controls come as
+ * their own fields (`selectedServices`, `serviceCustomerPairs`); `message`
+ * only shows them in the transcript.
+ *
+ * The business category (lib/business-category.ts) is classified once the
+ * services are picked and kept in `sessionData.businessCategory`; the client
+ * may send the user's own pick (`businessCategory`) before screen 3.
+ *
+ * A screen-3 answer that is too thin (lib/answer-quality.ts) gets the
+ * question's clarification once; the reply is stored as `<id>_clarified`.
+ *
+ * What the business offers is extracted from the user's reply by the LLM
+ * (lib/llm) and kept in `sessionData.business`.
+ *
+ * With `Accept: text/event-stream` the message is sent as `delta` events,
+ * then the whole response as a `done` event (lib/sse.ts). The turn is saved
+ * before the first delta, so stopping the stream doesn't undo it: a client
+ * that stopped (or lost) a reply asks GET with its `turnId` whether the turn
+ * was saved and, if so, gets its response.
  */
 
-// Dummy data - business info
-const DUMMY_BUSINESS = {
-  name: 'החברה שלי',
-  product: 'פתרונות שיווק דיגיטלי מתקדמים לעסקים קטנים ובינוניים',
-  services: [
-    'פיתוח אתרים',
-    'ניהול מדיה חברתית',
-    'קידום ממומן',
-    'יצירת תוכן',
-    'ייעוץ שיווקי',
-  ],
+const CONVERSATION_ERROR_STATUS: Record<ConversationSessionErrorCode | ConversationMachineErrorCode, number> = {
+  not_found: 404,
+  too_large: 413,
+  missing_input: 400,
+  illegal_transition: 409,
+  already_complete: 409,
 };
 
-// Category questions (Q2-Q8) - using Category 4: B2B Service as example
-const CATEGORY_QUESTIONS = [
-  {
-    id: 'q2',
-    question: 'מה קורה בעסק שגורם לבעלים להבין שהוא צריך מישהו כמוך?',
-    clarification: 'מה הבעיה הספציפית שגורמת לאנשים להרים טלפון?',
-  },
-  {
-    id: 'q3',
-    question: 'מה היה קורה ללקוחות שלך אם הם היו ממשיכים בלי עזרה? מה הם היו מפסידים?',
-    clarification: 'מה הדבר הכי גרוע שיכול לקרות לעסק שלא מטפל בזה?',
-  },
-  {
-    id: 'q4',
-    question: 'יש עוד הרבה אנשים שעושים מה שאתה עושה. למה שבעל עסק יבחר דווקא בך?',
-    clarification: 'מה אתה עושה שאחרים בתחום לא עושים?',
-  },
-  {
-    id: 'q5',
-    question: 'מה אתה רואה שבעלי עסקים לא רואים? מה הטעות הכי יקרה שאתה מציל אותם ממנה?',
-    clarification: 'מה הטעות הכי נפוצה שאתה רואה אצל עסקים שמגיעים אליך?',
-  },
-  {
-    id: 'q6',
-    question: 'כשלקוח ממליץ עליך לבעל עסק אחר - מה הוא אומר? באיזה מילים?',
-    clarification: 'יש משפט ספציפי ששמעת מלקוח שממליץ עליך?',
-  },
-  {
-    id: 'q7',
-    question: 'ספר לי על לקוח אחד - מה היה המצב כשהגיע, מה עשית, ומה התוצאה?',
-    clarification: 'מה היה האתגר הספציפי? ומה השתנה אחרי?',
-  },
-];
+// The part of the response that depends on the state entered
+type Reply = Omit<ConversationalChatResponse, 'success' | 'sessionId' | 'state' | 'stage' | 'sessionData'> & {
+  message: string;
+};
 
-export async function POST(request: NextRequest) {
-  try {
-    const { messages, currentStage, sessionData } = await request.json();
+// Summary of the business from the user's own words (prompt: lib/llm/prompts/business-summary.md)
+async function summarizeBusiness(description: string): Promise<BusinessSummary> {
+  const prompt = await renderPrompt('business-summary');
+  return getLlmProvider().extract({ prompt, input: description, schema: businessSummarySchema });
+}
 
-    const userMessages = messages.filter((m: any) => m.role === 'user');
-    const lastUserMessage = userMessages[userMessages.length - 1]?.content || '';
+/**
+ * Category the screen-3 questions come from. The user's own pick always
+ * wins; a detected one is kept unless newly selected services are passed,
+ * which re-classifies the business.
+ */
+function resolveBusinessCategory(
+  data: ConversationSessionData,
+  selectedServices?: string[]
+): BusinessCategorySelection {
+  const current = data.businessCategory;
+  if (current && isBusinessCategory(current.category) && (current.source === 'user' || !selectedServices)) {
+    return current;
+  }
 
-    // Determine stage and response
-    let response: any = {
-      success: true,
-      message: '',
-      stage: currentStage,
-      sessionData: sessionData || {},
-    };
+  // The user's own words lead; the LLM's product summary (all there is on the website path) leans
+  const { category, confidence } = classifyBusinessCategory(
+    [data.businessDescription, ...(selectedServices ?? data.selectedServices ?? [])],
+    [data.business?.product]
+  );
+  return { category, source: 'detected', confidence };
+}
 
-    // === SCREEN 1: Product/Services Selection ===
-    if (currentStage === 'initial') {
-      // First user message - has website?
-      const hasWebsite = lastUserMessage.toLowerCase().includes('כן') ||
-                        lastUserMessage.toLowerCase().includes('יש');
-
-      if (hasWebsite) {
-        // Simulate website scan - show services with selection UI
-        response.message = `מעולה! אני סורק את האתר שלך...\n\nככה אני מבין את זה:\n**המוצר/עסק:** ${DUMMY_BUSINESS.product}\n\n**השירותים שזיהיתי:**\n\nבחר 1-3 שירותים שהכי חשוב לך לקדם בשיווק:`;
-        response.services = DUMMY_BUSINESS.services;
-        response.selectedServices = [];
-        response.showServiceSelection = true;
-        response.sessionData.hasWebsite = true;
-        response.sessionData.awaitingServiceSelection = true;
-      } else {
-        // No website - ask for manual input
-        response.message = 'בסדר גמור! ספר לי מה העסק עושה ומה השירותים/מוצרים שאתה מציע?';
-        response.sessionData.hasWebsite = false;
-        response.sessionData.awaitingManualInput = true;
-      }
+function categoryQuestions(data: ConversationSessionData): CategoryQuestion[] {
+  return questionsForCategory(resolveBusinessCategory(data).category);
+}
 
-      response.stage = 'screen1';
-
-    } else if (currentStage === 'screen1') {
-      if (sessionData.awaitingConfirmation) {
-        // User confirmed/corrected - now show service selection
-        response.message = `מעולה. עכשיו אני צריך להבין על מה נתמקד בשיווק.\n\nבחר 1-3 שירותים שהכי חשוב לך לקדם:`;
-        response.services = DUMMY_BUSINESS.services;
-        response.selectedServices = [];
-        response.sessionData.awaitingServiceSelection = true;
-        delete response.sessionData.awaitingConfirmation;
-
-      } else if (sessionData.awaitingManualInput) {
-        // Parse manual input and show service selection immediately
-        response.message = `אוקיי, אם אני מבין נכון:\n**המוצר/עסק:** ${DUMMY_BUSINESS.product}\n\n**השירותים שזיהיתי:**\n\nבחר 1-3 שירותים שהכי חשוב לך לקדם בשיווק:`;
-        response.services = DUMMY_BUSINESS.services;
-        response.selectedServices = [];
-        response.showServiceSelection = true;
-        response.sessionData.awaitingServiceSelection = true;
-        delete response.sessionData.awaitingManualInput;
-
-      } else if (sessionData.awaitingServiceSelection) {
-        // User selected services
-        const selectedServices = lastUserMessage.split(',').map((s: string) => s.trim());
-
-        response.message = `אוקיי, אז מתמקדים ב:\n${selectedServices.map((s: string, i: number) => `${i + 1}. ${s}`).join('\n')}\n\nרק לוודא שהבנתי נכון את המוצר שלכם - ${DUMMY_BUSINESS.product}. מאשר?`;
-        response.sessionData.selectedServices = selectedServices;
-        response.sessionData.awaitingFinalConfirmation = true;
-        delete response.sessionData.awaitingServiceSelection;
-
-      } else if (sessionData.awaitingFinalConfirmation) {
-        // Move to Screen 2 - show all services with input fields
-        response.stage = 'screen2';
-        response.message = `עכשיו אני רוצה להבין מי הלקוחות של כל שירות שבחרת.`;
-        response.showCustomerMapping = true;
-        response.servicesForMapping = sessionData.selectedServices;
-        response.sessionData.awaitingCustomerMapping = true;
-        delete response.sessionData.awaitingFinalConfirmation;
-      }
+function currentQuestion(data: ConversationSessionData): CategoryQuestion {
+  return categoryQuestions(data)[data.currentQuestionIndex ?? 0];
+}
 
-    // === SCREEN 2: Customer Mapping ===
-    } else if (currentStage === 'screen2') {
-      if (sessionData.awaitingCustomerMapping) {
-        // Parse format: service1:customers1|service2:customers2
-        const mappings = lastUserMessage.split('|');
-        const serviceCustomerPairs = mappings.map((mapping: string) => {
-          const [service, customers] = mapping.split(':');
-          return {
-            service: service.trim(),
-            customers: customers ? customers.split(',').map((c: string) => c.trim()) : [],
-          };
-        });
-
-        // Show summary table
-        response.message = `מעולה, אז ככה זה נראה:\n\nנכון?`;
-        response.serviceCustomerPairs = serviceCustomerPairs;
-        response.sessionData.serviceCustomerPairs = serviceCustomerPairs;
-        response.sessionData.awaitingSummaryConfirmation = true;
-        delete response.sessionData.awaitingCustomerMapping;
-      } else if (sessionData.awaitingSummaryConfirmation) {
-        // Move to Screen 3
-        response.stage = 'screen3';
-        response.sessionData.currentQuestionIndex = 0;
-        response.sessionData.answers = {};
-        delete response.sessionData.awaitingSummaryConfirmation;
-
-        response.message = `אחלה. עכשיו יש לי כמה שאלות שיעזרו לי להבין לעומק מה מייחד אתכם. זה לוקח כ-5 דקות. מתחילים?\n\nשאלה ראשונה:\n${CATEGORY_QUESTIONS[0].question}`;
+/**
+ * Record what the user's message says (may ask the LLM to summarize it) and
+ * move on to the next question when the machine goes to `state`
+ */
+async function applyEvent(
+  data: ConversationSessionData,
+  event: ConversationEvent,
+  state: ConversationState
+): Promise<void> {
+  switch (event.type) {
+    case 'HAS_WEBSITE':
+      // The chat doesn't scan the site yet - summarize what the user wrote
+      data.hasWebsite = true;
+      data.business = await summarizeBusiness(event.text);
+      break;
+    case 'NO_WEBSITE':
+      data.hasWebsite = false;
+      break;
+    case 'BUSINESS_DESCRIBED':
+      data.business = await summarizeBusiness(event.text);
+      data.businessDescription = event.text;
+      break;
+    case 'SERVICES_SELECTED':
+      data.selectedServices = event.services;
+      data.businessCategory = resolveBusinessCategory(data, event.services);
+      break;
+    case 'CUSTOMERS_MAPPED':
+      data.serviceCustomerPairs = event.pairs;
+      break;
+    case 'SUMMARY_CONFIRMED':
+      data.businessCategory = resolveBusinessCategory(data);
+      data.currentQuestionIndex = 0;
+      data.answers = {};
+      break;
+    case 'QUESTION_ANSWERED':
+    case 'CLARIFICATION_GIVEN': {
+      // A reply to the clarification goes next to the original
+      const { id } = currentQuestion(data);
+      const key = event.type === 'CLARIFICATION_GIVEN' ? `${id}_clarified` : id;
+      data.answers = { ...data.answers, [key]: event.text };
+      if (state === 'askingQuestion') {
+        data.currentQuestionIndex = (data.currentQuestionIndex ?? 0) + 1;
       }
+      break;
+    }
+    case 'ADDITIONAL_INFO_GIVEN':
+      data.additionalInfo = event.text;
+      break;
+    case 'SERVICES_CONFIRMED':
+      break;
+  }
+}
+
+/**
+ * The assistant's reply on entering `state` through `event` - reads `data`, never changes it
+ */
+function enterState(state: ConversationState, event: ConversationEvent, data: ConversationSessionData): Reply {
+  switch (state) {
+    case 'askWebsite':
+      return { message: 'היי! אני כאן כדי להכיר את העסק שלך.\n\nקודם כל - יש לך אתר אינטרנט?' };
+
+    case 'awaitingManualInput':
+      return { message: 'בסדר גמור! ספר לי מה העסק עושה ומה השירותים/מוצרים שאתה מציע?' };
 
-    // === SCREEN 3: Category Questions ===
-    } else if (currentStage === 'screen3') {
-      const currentQuestionIndex = sessionData.currentQuestionIndex || 0;
-      const answers = sessionData.answers || {};
-
-      // Save current answer
-      const currentQuestion = CATEGORY_QUESTIONS[currentQuestionIndex];
-      answers[currentQuestion.id] = lastUserMessage;
-
-      const nextQuestionIndex = currentQuestionIndex + 1;
-
-      if (nextQuestionIndex < CATEGORY_QUESTIONS.length) {
-        // More questions
-        const nextQuestion = CATEGORY_QUESTIONS[nextQuestionIndex];
-        response.message = nextQuestion.question;
-        response.sessionData.currentQuestionIndex = nextQuestionIndex;
-        response.sessionData.answers = answers;
-
-      } else {
-        // All questions answered - complete!
-        response.message = `תודה רבה! יש לי תמונה טובה של העסק שלך.\n\nיש עוד משהו שחשוב לך שאדע?`;
-        response.sessionData.awaitingAdditionalInfo = true;
-        response.sessionData.answers = answers;
+    case 'awaitingServiceSelection': {
+      const intro =
+        event.type === 'HAS_WEBSITE'
+          ? 'מעולה! אני סורק את האתר שלך...\n\nככה אני מבין את זה:'
+          : 'אוקיי, אם אני מבין נכון:';
+      return {
+        message: `${intro}\n**המוצר/עסק:** ${data.business?.product}\n\n**השירותים שזיהיתי:**\n\nבחר 1-3 שירותים שהכי חשוב לך לקדם בשיווק:`,
+        services: data.business?.services ?? [],
+        selectedServices: [],
+        showServiceSelection: true,
+      };
+    }
+
+    case 'awaitingServiceConfirmation': {
+      const services = data.selectedServices ?? [];
+      const category = resolveBusinessCategory(data).category;
+      return {
+        message: `אוקיי, אז מתמקדים ב:\n${services.map((s, i) => `${i + 1}. ${s}`).join('\n')}\n\nרק לוודא שהבנתי נכון את המוצר שלכם - ${data.business?.product}.\nנראה לי שהעסק שלכם בתחום **${businessCategoryLabels[category]}** - אם לא, אפשר לבחור תחום אחר למטה. מאשר?`,
+        showCategoryPicker: true,
+      };
+    }
+
+    case 'awaitingCustomerMapping':
+      return {
+        message: 'עכשיו אני רוצה להבין מי הלקוחות של כל שירות שבחרת.',
+        showCustomerMapping: true,
+        servicesForMapping: data.selectedServices,
+      };
+
+    case 'awaitingSummaryConfirmation':
+      return {
+        message: 'מעולה, אז ככה זה נראה:\n\nנכון?',
+        serviceCustomerPairs: data.serviceCustomerPairs,
+      };
+
+    case 'askingQuestion':
+      if (event.type === 'SUMMARY_CONFIRMED') {
+        return {
+          message: `אחלה. עכשיו יש לי כמה שאלות שיעזרו לי להבין לעומק מה מייחד אתכם. זה לוקח כ-5 דקות. מתחילים?\n\nשאלה ראשונה:\n${currentQuestion(data).question}`,
+        };
       }
+      return { message: currentQuestion(data).question };
+
+    case 'awaitingClarification':
+      // Too thin to work with - ask the clarification once, then move on regardless
+      return { message: currentQuestion(data).clarification };
+
+    case 'awaitingAdditionalInfo':
+      return { message: 'תודה רבה! יש לי תמונה טובה של העסק שלך.\n\nיש עוד משהו שחשוב לך שאדע?' };
 
-    } else if (sessionData.awaitingAdditionalInfo) {
-      // Final message
-      response.message = `מעולה. המידע הזה יעזור לנו לבנות פרסום שבאמת מדבר ללקוחות שלך.\n\nמעביר אותך לשלב הבא...`;
-      response.isComplete = true;
-      response.finalData = {
-        business: DUMMY_BUSINESS,
-        selectedServices: sessionData.selectedServices,
-        serviceCustomerPairs: sessionData.serviceCustomerPairs,
-        answers: sessionData.answers,
-        additionalInfo: lastUserMessage,
+    case 'complete':
+      return {
+        message: 'מעולה. המידע הזה יעזור לנו לבנות פרסום שבאמת מדבר ללקוחות שלך.\n\nמעביר אותך לשלב הבא...',
+        isComplete: true,
+        finalData: {
+          business: data.business,
+          selectedServices: data.selectedServices,
+          businessCategory: data.businessCategory,
+          serviceCustomerPairs: data.serviceCustomerPairs,
+          answers: data.answers,
+          additionalInfo: data.additionalInfo,
+        },
       };
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, message, selectedServices, serviceCustomerPairs, businessCategory: pickedCategory, turnId } =
+      await validateRequestBody(request, conversationalChatRequestSchema);
+
+    const store = getConversationSessionStore();
+    const session = sessionId ? await store.get(sessionId) : newConversationSession();
+    const data: ConversationSessionData = structuredClone(session.sessionData);
+
+    if (pickedCategory && canPickCategory(session.state)) {
+      data.businessCategory = { category: pickedCategory, source: 'user', confidence: 1 };
+    }
+
+    const event = eventForMessage(session.state, { message, selectedServices, serviceCustomerPairs });
+    const state = nextConversationState(session.state, event, {
+      questionIndex: data.currentQuestionIndex ?? 0,
+      questionCount: categoryQuestions(data).length,
+    });
+    await applyEvent(data, event, state);
+    const reply = enterState(state, event, data);
+
+    const response: ConversationalChatResponse = {
+      success: true,
+      sessionId: session.id,
+      state,
+      stage: conversationStage(state),
+      sessionData: { ...data },
+      ...reply,
+    };
+
+    await store.put({
+      ...session,
+      state,
+      sessionData: data,
+      messages: [...session.messages, { role: 'user', content: message }, { role: 'assistant', content: reply.message }],
+      lastTurn: turnId ? { id: turnId, response } : undefined,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (wantsEventStream(request)) {
+      return createSseResponse(async (send, signal) => {
+        for (const text of splitTextDeltas(reply.message)) {
+          if (signal.aborted) return;
+          send('delta', { text });
+        }
+        send('done', response);
+      }, request.signal);
     }
 
     return NextResponse.json(response);
   } catch (error) {
-    console.error('[API] Conversational chat error:', error);
+    return conversationErrorResponse(error);
+  }
+}
+
+/**
+ * GET /api/onboarding/conversational-chat?sessionId=<id>&turnId=<id>
+ * The response of the session's last turn, if that turn is `turnId`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const sessionId = searchParams.get('sessionId');
+    const turnId = searchParams.get('turnId');
+    if (!sessionId || !turnId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Query parameters "sessionId" and "turnId" are required',
+          code: 'missing_turn',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { lastTurn } = await getConversationSessionStore().get(sessionId);
+    const body: ConversationTurnResponse = {
+      success: true,
+      ...(lastTurn?.id === turnId && { response: lastTurn.response }),
+    };
+    return NextResponse.json(body);
+  } catch (error) {
+    return conversationErrorResponse(error);
+  }
+}
+
+// Error response for both handlers: body, session and machine errors -> 4xx, LLM errors -> 5xx
+function conversationErrorResponse(error: unknown) {
+  if (error instanceof RequestBodyError) {
+    return requestBodyErrorResponse(error);
+  }
+
+  if (error instanceof ConversationSessionError || error instanceof ConversationMachineError) {
+    return NextResponse.json(
+      { success: false, error: error.message, code: error.code },
+      { status: CONVERSATION_ERROR_STATUS[error.code] }
+    );
+  }
+
+  if (error instanceof LlmError) {
+    console.error('[API] Conversational chat LLM error:', error.message);
     return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to process chat',
-      },
-      { status: 500 }
+      { success: false, error: error.message, code: error.code },
+      { status: LLM_ERROR_STATUS[error.code] }
     );
   }
+
+  console.error('[API] Conversational chat error:', error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to process chat',
+    },
+    { status: 500 }
+  );
 }
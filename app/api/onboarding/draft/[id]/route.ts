@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDraftStore } from '@/lib/draft-store';
+import { validateRequestBody } from '@/lib/request-body';
+import { saveDraftRequestSchema } from '@/lib/onboarding-schemas';
+import { draftErrorResponse, forgetDraft, rememberDraft } from '@/lib/draft-route';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const draft = await getDraftStore().get(id);
+
+    return NextResponse.json({
+      success: true,
+      draft,
+    });
+  } catch (error) {
+    return draftErrorResponse(error, 'Load draft', 'Failed to load draft');
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { kind, saved_at, state } = await validateRequestBody(request, saveDraftRequestSchema);
+    const draft = await getDraftStore().put({ id, kind, saved_at, state });
+
+    const response = NextResponse.json({
+      success: true,
+      draft: { id: draft.id, kind: draft.kind, saved_at: draft.saved_at },
+    });
+    rememberDraft(response, draft);
+    return response;
+  } catch (error) {
+    return draftErrorResponse(error, 'Save draft', 'Failed to save draft');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await getDraftStore().delete(id);
+
+    const response = NextResponse.json({ success: true });
+    forgetDraft(request, response, id);
+    return response;
+  } catch (error) {
+    return draftErrorResponse(error, 'Delete draft', 'Failed to delete draft');
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DraftStoreError, getDraftStore } from '@/lib/draft-store';
+import { draftCookieName, draftErrorResponse, isDraftKind } from '@/lib/draft-route';
+
+/**
+ * GET /api/onboarding/draft?kind=<kind>
+ * The draft this browser last saved for `kind` (found by its cookie) - for
+ * when the local copy is gone
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const kind = request.nextUrl.searchParams.get('kind');
+    if (!isDraftKind(kind)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Query parameter "kind" must be a draft kind',
+          code: 'invalid_kind',
+        },
+        { status: 400 }
+      );
+    }
+
+    const id = request.cookies.get(draftCookieName(kind))?.value;
+    const draft = id ? await getDraftStore().get(id) : null;
+    if (!draft || draft.kind !== kind) {
+      throw new DraftStoreError(`No ${kind} draft saved from this browser`, 'not_found');
+    }
+
+    return NextResponse.json({
+      success: true,
+      draft,
+    });
+  } catch (error) {
+    return draftErrorResponse(error, 'Load draft', 'Failed to load draft');
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RequestBodyError, requestBodyErrorResponse, validateRequestBody } from '@/lib/request-body';
+import { extractAnswersRequestSchema, questionnaireExtractionSchema } from '@/lib/onboarding-schemas';
+import { fallbackExtraction, normalizeExtraction, withDirectAnswers } from '@/lib/questionnaire-extraction';
+import { validateQuestionnaireAnswers } from '@/lib/questionnaire-fields';
+import { getLlmProvider, LlmError, renderPrompt } from '@/lib/llm';
+import type { QuestionnaireAnswers, QuestionnaireExtraction } from '@/types/onboarding';
+
+/**
+ * Profile fields from the no-website questionnaire, each with a confidence
+ * (prompt: lib/llm/prompts/questionnaire-extraction.md). When the LLM call
+ * fails the keyword fallback answers instead - its low scores send the
+ * fields to review in Summary rather than blocking the flow.
+ */
+async function extractAnswers(answers: QuestionnaireAnswers): Promise<QuestionnaireExtraction> {
+  try {
+    const prompt = await renderPrompt('questionnaire-extraction');
+    const extraction = await getLlmProvider().extract({
+      prompt,
+      input: JSON.stringify(answers),
+      schema: questionnaireExtractionSchema,
+    });
+    return normalizeExtraction(extraction);
+  } catch (error) {
+    if (!(error instanceof LlmError)) throw error;
+    console.warn('[API] Extract answers - using keyword fallback:', error.message);
+    return fallbackExtraction(answers);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { answers } = await validateRequestBody(request, extractAnswersRequestSchema);
+
+    // Same per-field checks FixedQuestionnaire runs (required answers, phone, ...)
+    const answerErrors = validateQuestionnaireAnswers(answers);
+    if (answerErrors.length > 0) {
+      throw new RequestBodyError(
+        'Request body failed validation',
+        'validation_failed',
+        answerErrors.map(({ path, message }) => ({ path: `answers.${path}`, message }))
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      extraction: withDirectAnswers(await extractAnswers(answers), answers),
+    });
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return requestBodyErrorResponse(error);
+    }
+
+    console.error('[API] Extract answers error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to extract answers',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RequestBodyError, requestBodyErrorResponse, validateRequestBody } from '@/lib/request-body';
+import { extractCompetitorsRequestSchema } from '@/lib/onboarding-schemas';
+import { extractCompetitorProfiles } from '@/lib/competitor-profiles';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { urls } = await validateRequestBody(request, extractCompetitorsRequestSchema);
+
+    // Sites that fail to scan come back with `error` set instead of failing the request
+    const profiles = await extractCompetitorProfiles(urls);
+
+    return NextResponse.json({
+      success: true,
+      profiles,
+    });
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return requestBodyErrorResponse(error);
+    }
+
+    console.error('[API] Extract competitors error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to extract competitor profiles',
+      },
+      { status: 500 }
+    );
+  }
+}
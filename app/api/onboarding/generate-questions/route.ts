@@ -1,31 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { RequestBodyError, requestBodyErrorResponse, validateRequestBody } from '@/lib/request-body';
+import { gapQuestionsExtractionSchema, generateQuestionsRequestSchema } from '@/lib/onboarding-schemas';
+import { findProfileGaps, questionsForGaps } from '@/lib/question-gaps';
+import { getLlmProvider, LlmError, renderPrompt } from '@/lib/llm';
+import type { DynamicQuestion, OnboardingData } from '@/types/onboarding';
+
+/**
+ * Let the LLM reword the built-in gap questions for this business
+ * (prompt: lib/llm/prompts/gap-questions.md). Questions it doesn't cover
+ * keep their built-in wording, and so do all of them when the call fails -
+ * the gaps matter more than the phrasing.
+ */
+async function personalizeQuestions(data: OnboardingData, questions: DynamicQuestion[]): Promise<DynamicQuestion[]> {
+  if (questions.length === 0) return questions;
+
+  try {
+    const prompt = await renderPrompt('gap-questions', { company_name: data.company_name });
+    const { questions: wording } = await getLlmProvider().extract({
+      prompt,
+      input: JSON.stringify({
+        profile: {
+          company_name: data.company_name,
+          industry: data.industry,
+          mission: data.mission,
+          products_services: data.products_services,
+          target_audience: data.target_audience,
+        },
+        gaps: questions.map(({ field, reason }) => ({ field, reason })),
+      }),
+      schema: gapQuestionsExtractionSchema,
+    });
+
+    const byField = new Map(wording.map((item) => [item.field, item.question.trim()]));
+    return questions.map((question) => ({
+      ...question,
+      question_for_client: byField.get(question.field) || question.question_for_client,
+    }));
+  } catch (error) {
+    if (!(error instanceof LlmError)) throw error;
+    console.warn('[API] Generate questions - keeping built-in wording:', error.message);
+    return questions;
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
-    // Return dummy questions
-    const dummyQuestions = [
-      {
-        field: 'target_audience',
-        description: 'קהל יעד של העסק',
-        question_for_client: 'מי הם הלקוחות העיקריים שלכם?',
-      },
-      {
-        field: 'unique_value_proposition',
-        description: 'הצעת הערך הייחודית',
-        question_for_client: 'מה מייחד אתכם מהמתחרים?',
-      },
-      {
-        field: 'brand_voice',
-        description: 'טון המותג',
-        question_for_client: 'איך תרצו שהמותג שלכם ישמע? (מקצועי, ידידותי, צעיר וכו\')',
-      },
-    ];
+    const { data, scrapedData } = await validateRequestBody(request, generateQuestionsRequestSchema);
+
+    // Only ask about what the scan left missing or weak - most important first
+    const gaps = findProfileGaps(data, scrapedData);
+    const questions = await personalizeQuestions(data, questionsForGaps(data, gaps));
 
     return NextResponse.json({
       success: true,
-      questions: dummyQuestions,
+      questions,
     });
   } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return requestBodyErrorResponse(error);
+    }
+
     console.error('[API] Generate questions error:', error);
     return NextResponse.json(
       {
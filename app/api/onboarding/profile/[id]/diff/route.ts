@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProfileStore } from '@/lib/profile-store';
+import { diffProfileVersions } from '@/lib/profile-diff';
+import { parseVersionParam, profileErrorResponse, type ProfileRouteContext } from '@/lib/profile-route';
+
+/**
+ * GET /api/onboarding/profile/[id]/diff?from=1&to=3
+ * `to` defaults to the profile's current version
+ */
+export async function GET(request: NextRequest, { params }: ProfileRouteContext) {
+  try {
+    const { id } = await params;
+    const store = getProfileStore();
+    const { searchParams } = request.nextUrl;
+
+    const from = parseVersionParam(searchParams.get('from'));
+    const to = searchParams.has('to')
+      ? parseVersionParam(searchParams.get('to'))
+      : (await store.get(id)).version;
+
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Query parameters "from" and "to" must be version numbers',
+          code: 'invalid_version',
+        },
+        { status: 400 }
+      );
+    }
+
+    const [fromVersion, toVersion] = await Promise.all([store.getVersion(id, from), store.getVersion(id, to)]);
+
+    return NextResponse.json({
+      success: true,
+      diff: diffProfileVersions(fromVersion, toVersion),
+    });
+  } catch (error) {
+    return profileErrorResponse(error, 'Diff profile versions', 'Failed to diff profile versions');
+  }
+}
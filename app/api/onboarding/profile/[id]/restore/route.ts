@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProfileStore } from '@/lib/profile-store';
+import { validateRequestBody } from '@/lib/request-body';
+import { restoreProfileRequestSchema } from '@/lib/onboarding-schemas';
+import { assertProfileReady, profileErrorResponse, type ProfileRouteContext } from '@/lib/profile-route';
+
+/**
+ * Roll the profile back to an older version. The restore itself becomes a new version,
+ * so it can be undone the same way.
+ */
+export async function POST(request: NextRequest, { params }: ProfileRouteContext) {
+  try {
+    const { id } = await params;
+    const { version, author } = await validateRequestBody(request, restoreProfileRequestSchema);
+    const store = getProfileStore();
+    // An early version may predate the critical fields - the readiness gate applies here too
+    assertProfileReady((await store.getVersion(id, version)).data);
+    const profile = await store.restore(id, version, { author });
+
+    console.log(`[API] Profile ${profile.id} restored to version ${version} (now version ${profile.version})`);
+
+    return NextResponse.json({
+      success: true,
+      profile,
+    });
+  } catch (error) {
+    return profileErrorResponse(error, 'Restore profile', 'Failed to restore profile');
+  }
+}
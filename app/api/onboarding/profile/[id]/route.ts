@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProfileStore } from '@/lib/profile-store';
+import { validateRequestBody } from '@/lib/request-body';
+import { updateProfileRequestSchema } from '@/lib/onboarding-schemas';
+import { assertProfileReady, profileErrorResponse, type ProfileRouteContext } from '@/lib/profile-route';
+
+export async function GET(_request: NextRequest, { params }: ProfileRouteContext) {
+  try {
+    const { id } = await params;
+    const profile = await getProfileStore().get(id);
+
+    return NextResponse.json({
+      success: true,
+      profile,
+    });
+  } catch (error) {
+    return profileErrorResponse(error, 'Load profile', 'Failed to load profile');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: ProfileRouteContext) {
+  try {
+    const { id } = await params;
+    const { author, ...patch } = await validateRequestBody(request, updateProfileRequestSchema);
+    const store = getProfileStore();
+    // The gate applies to the profile as it will be stored, not just the patched fields
+    assertProfileReady({ ...(await store.get(id)), ...patch });
+    const profile = await store.update(id, patch, { author });
+
+    console.log(`[API] Profile updated: ${profile.id} (version ${profile.version})`);
+
+    return NextResponse.json({
+      success: true,
+      profile,
+    });
+  } catch (error) {
+    return profileErrorResponse(error, 'Update profile', 'Failed to update profile');
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: ProfileRouteContext) {
+  try {
+    const { id } = await params;
+    await getProfileStore().delete(id);
+
+    console.log('[API] Profile deleted:', id);
+
+    return NextResponse.json({
+      success: true,
+      id,
+    });
+  } catch (error) {
+    return profileErrorResponse(error, 'Delete profile', 'Failed to delete profile');
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProfileStore } from '@/lib/profile-store';
+import { parseVersionParam, profileErrorResponse, type ProfileVersionRouteContext } from '@/lib/profile-route';
+
+export async function GET(_request: NextRequest, { params }: ProfileVersionRouteContext) {
+  try {
+    const { id, version } = await params;
+    const snapshot = await getProfileStore().getVersion(id, parseVersionParam(version));
+
+    return NextResponse.json({
+      success: true,
+      version: snapshot,
+    });
+  } catch (error) {
+    return profileErrorResponse(error, 'Load profile version', 'Failed to load profile version');
+  }
+}
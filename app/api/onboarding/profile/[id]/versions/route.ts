@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProfileStore } from '@/lib/profile-store';
+import { profileErrorResponse, type ProfileRouteContext } from '@/lib/profile-route';
+
+export async function GET(_request: NextRequest, { params }: ProfileRouteContext) {
+  try {
+    const { id } = await params;
+    const versions = await getProfileStore().listVersions(id);
+
+    return NextResponse.json({
+      success: true,
+      versions,
+    });
+  } catch (error) {
+    return profileErrorResponse(error, 'List profile versions', 'Failed to list profile versions');
+  }
+}
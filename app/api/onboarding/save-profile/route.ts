@@ -1,31 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { RequestBodyError, requestBodyErrorResponse, validateRequestBody } from '@/lib/request-body';
+import { saveProfileRequestSchema } from '@/lib/onboarding-schemas';
+import { getProfileStore } from '@/lib/profile-store';
+import { assertProfileReady } from '@/lib/profile-route';
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.text();
-    let profileData: any = {};
+    const { author, ...profileData } = await validateRequestBody(request, saveProfileRequestSchema);
+    assertProfileReady(profileData);
 
-    try {
-      profileData = JSON.parse(body);
-    } catch {
-      // If parsing fails, use empty object
-      profileData = {};
-    }
-
-    // Simulate saving to database - just return success with dummy profile
-    const dummyProfile = {
-      id: 'profile_' + Math.random().toString(36).substring(7),
-      company_name: profileData.company_name || 'החברה שלי',
-      onboarding_completed: true,
-    };
+    const profile = await getProfileStore().create(profileData, { author });
 
-    console.log('[API] Profile saved (dummy):', dummyProfile);
+    console.log('[API] Profile saved:', profile.id);
 
     return NextResponse.json({
       success: true,
-      profile: dummyProfile,
+      profile: {
+        id: profile.id,
+        company_name: profile.company_name,
+        onboarding_completed: profile.onboarding_completed,
+      },
     });
   } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return requestBodyErrorResponse(error);
+    }
+
     console.error('[API] Save profile error:', error);
     return NextResponse.json(
       {
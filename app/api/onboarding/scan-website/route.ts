@@ -1,63 +1,73 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { crawlWebsite, WebsiteScanError } from '@/lib/website-scanner';
+import { SafeFetchError } from '@/lib/safe-fetch';
+import { safeToonEncode } from '@/lib/toon-utils';
+import { RequestBodyError, requestBodyErrorResponse, validateRequestBody } from '@/lib/request-body';
+import { scanWebsiteRequestSchema } from '@/lib/onboarding-schemas';
+
+const SCAN_ERROR_STATUS = {
+  invalid_url: 400,
+  fetch_failed: 502,
+  not_html: 422,
+} as const;
+
+const SAFE_FETCH_ERROR_STATUS = {
+  invalid_url: 400,
+  blocked_scheme: 400,
+  blocked_port: 400,
+  blocked_address: 403,
+  dns_failed: 502,
+  too_many_redirects: 502,
+  too_large: 413,
+  timeout: 504,
+  unreachable: 502,
+} as const;
 
 export async function POST(request: NextRequest) {
   try {
     // Parse the request body to get the URL
-    const body = await request.text();
-    let url = '';
-
-    try {
-      const parsed = JSON.parse(body);
-      url = parsed.url || '';
-    } catch {
-      // If not JSON, treat as plain text
-      url = body;
-    }
+    const { url } = await validateRequestBody(request, scanWebsiteRequestSchema);
 
-    // Return dummy data - no actual scraping
-    const dummyData = {
-      branding: {
-        company_name: 'החברה שלי',
-        tagline: 'פתרונות חדשניים לעסק שלך',
-        has_logo: true,
-      },
-      logo: 'https://via.placeholder.com/200x80/4F46E5/FFFFFF?text=LOGO',
-      favicon: 'https://via.placeholder.com/32x32/4F46E5/FFFFFF',
-      colors: ['#4F46E5', '#EC4899', '#10B981'],
-      fonts: ['Heebo', 'Assistant', 'Open Sans'],
-      services: [
-        'פיתוח אתרים',
-        'ייעוץ עסקי',
-        'שיווק דיגיטלי',
-        'עיצוב גרפי',
-        'קידום ממומן',
-      ],
-      services_extracted: [
-        'בניית אתרים',
-        'אפליקציות מובייל',
-        'אסטרטגיה דיגיטלית',
-      ],
-      products_extracted: [
-        'מערכת ניהול לקוחות',
-        'פלטפורמת מסחר',
-      ],
-      navigation: {
-        menu_items: ['בית', 'שירותים', 'אודות', 'צור קשר', 'בלוג'],
-      },
-      url: url,
-      raw_title: 'החברה שלי - פתרונות חדשניים',
-      raw_content: 'תוכן לדוגמה של האתר',
-    };
+    // Homepage + inner pages (menu/sitemap) within the default page and byte budget
+    const scannedData = await crawlWebsite(url);
 
-    // Encode as JSON string to simulate TOON format
-    const responseData = JSON.stringify(dummyData);
+    // Encode as TOON (falls back to JSON) - WebsiteScan decodes either
+    const { encoded, format } = safeToonEncode(scannedData);
 
     return NextResponse.json({
       success: true,
-      data: responseData,
-      format: 'toon',
+      data: encoded,
+      format,
     });
   } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return requestBodyErrorResponse(error);
+    }
+
+    if (error instanceof WebsiteScanError) {
+      console.warn('[API] Scan website failed:', error.message);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+        },
+        { status: SCAN_ERROR_STATUS[error.code] }
+      );
+    }
+
+    if (error instanceof SafeFetchError) {
+      console.warn('[API] Scan website refused or failed:', error.message);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+        },
+        { status: SAFE_FETCH_ERROR_STATUS[error.code] }
+      );
+    }
+
     console.error('[API] Scan website error:', error);
     return NextResponse.json(
       {
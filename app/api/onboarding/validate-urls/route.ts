@@ -1,28 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { RequestBodyError, requestBodyErrorResponse, validateRequestBody } from '@/lib/request-body';
+import { validateUrlsRequestSchema } from '@/lib/onboarding-schemas';
+import { validateCompetitorUrls } from '@/lib/url-validation';
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.text();
-    let urls: string[] = [];
+    const { urls, site_url } = await validateRequestBody(request, validateUrlsRequestSchema);
 
-    try {
-      const parsed = JSON.parse(body);
-      urls = parsed.urls || [];
-    } catch {
-      // If parsing fails, return empty results
-      urls = [];
-    }
-
-    // Simulate validation - all URLs are valid in dummy mode
-    const results = urls.map((url) => ({
-      url,
-      valid: true,
-    }));
-
-    const summary = {
-      valid: urls,
-      invalid: [],
-    };
+    // Normalize, drop duplicates and the client's own site, then check each URL is reachable
+    const { results, summary } = await validateCompetitorUrls(urls, { siteUrl: site_url });
 
     return NextResponse.json({
       success: true,
@@ -30,6 +16,10 @@ export async function POST(request: NextRequest) {
       summary,
     });
   } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return requestBodyErrorResponse(error);
+    }
+
     console.error('[API] Validate URLs error:', error);
     return NextResponse.json(
       {
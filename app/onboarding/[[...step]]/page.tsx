@@ -0,0 +1,27 @@
+import { Toaster } from 'sonner';
+import { OnboardingWizard } from '@/components/onboarding/OnboardingWizard';
+import { WIZARD_BASE_PATH } from '@/lib/wizard-routes';
+import { getReadinessGate } from '@/lib/profile-score';
+
+interface OnboardingPageProps {
+  searchParams: Promise<{ profile?: string }>;
+}
+
+/**
+ * Wizard with URL-addressable steps. The step segments are read by the
+ * wizard itself, so moving between steps never remounts it.
+ * `?profile=<id>` opens a saved profile for editing.
+ *
+ * `PROFILE_READINESS_GATE=block` stops the Summary from completing while
+ * critical fields are empty (default `warn` only asks to confirm).
+ */
+export default async function OnboardingPage({ searchParams }: OnboardingPageProps) {
+  const { profile } = await searchParams;
+
+  return (
+    <>
+      <OnboardingWizard basePath={WIZARD_BASE_PATH} profileId={profile} readinessGate={getReadinessGate()} />
+      <Toaster dir="rtl" position="top-center" richColors />
+    </>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ExternalLink, Loader2, Megaphone, Target } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { requestOnboardingApi } from '@/lib/onboarding-api';
+import { adsResearchResponseSchema } from '@/lib/ads-research-schemas';
+import { adPlatformLabels, type AdCreative, type AdsResearchResponse } from '@/types/ads-research';
+
+interface AdsResearchProps {
+  /** Saved profile whose competitors are researched */
+  profileId?: string;
+  /** Services preselected in the filter (from the wizard) */
+  initialServices: string[];
+  /** Shown until the profile has loaded */
+  companyName?: string;
+}
+
+interface LoadedResult {
+  // Request the result belongs to - anything else means a newer request is in flight
+  key: string;
+  data?: AdsResearchResponse;
+  error?: string;
+}
+
+const dateFormatter = new Intl.DateTimeFormat('he-IL', { dateStyle: 'medium' });
+
+function formatDate(isoDate: string): string {
+  const date = new Date(isoDate);
+  return Number.isNaN(date.getTime()) ? isoDate : dateFormatter.format(date);
+}
+
+function AdCard({ ad }: { ad: AdCreative }) {
+  return (
+    <Card className="h-full">
+      <CardContent className="pt-6 space-y-3 flex flex-col h-full">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium truncate">{ad.advertiser_name}</span>
+          <div className="flex gap-1.5 shrink-0">
+            {ad.is_sample && <Badge variant="outline">דוגמה</Badge>}
+            <Badge variant="secondary">{adPlatformLabels[ad.platform]}</Badge>
+          </div>
+        </div>
+
+        {ad.image_url && (
+          // Creatives come from arbitrary ad-platform hosts that next/image isn't configured for
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={ad.image_url} alt="" className="w-full rounded-md object-cover max-h-48" />
+        )}
+
+        <h3 className="font-semibold leading-snug">{ad.headline}</h3>
+        <p className="text-sm text-muted-foreground flex-1">{ad.body}</p>
+
+        {ad.services.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {ad.services.map((service, index) => (
+              <Badge key={index} variant="outline" className="text-xs">
+                {service}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2 pt-2 border-t text-xs text-muted-foreground">
+          <span>פעילה מ-{formatDate(ad.started_at)}</span>
+          {ad.landing_url ? (
+            <a
+              href={ad.landing_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-primary hover:underline"
+            >
+              {ad.cta || 'לדף הנחיתה'}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          ) : (
+            ad.cta && <span>{ad.cta}</span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function AdsResearch({ profileId, initialServices, companyName }: AdsResearchProps) {
+  const [selectedServices, setSelectedServices] = useState<string[]>(initialServices);
+  const [result, setResult] = useState<LoadedResult | null>(null);
+
+  const requestKey = useMemo(() => {
+    const params = new URLSearchParams();
+    if (profileId) params.set('profile', profileId);
+    selectedServices.forEach((service) => params.append('services', service));
+    return params.toString();
+  }, [profileId, selectedServices]);
+
+  const isLoading = !!profileId && result?.key !== requestKey;
+
+  useEffect(() => {
+    if (!profileId) return;
+
+    const controller = new AbortController();
+
+    requestOnboardingApi(`/api/ads-research?${requestKey}`, {
+      responseSchema: adsResearchResponseSchema,
+      signal: controller.signal,
+    })
+      .then((response) => {
+        if (response.ok) {
+          setResult({ key: requestKey, data: response.data });
+        } else {
+          const notFound = response.status === 404;
+          setResult({ key: requestKey, error: notFound ? 'הפרופיל לא נמצא' : 'שגיאה בטעינת המודעות' });
+        }
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('[AdsResearch] Load ads error:', error);
+        setResult({ key: requestKey, error: 'שגיאה בטעינת המודעות' });
+      });
+
+    return () => controller.abort();
+  }, [profileId, requestKey]);
+
+  // Keep the filter in the URL so the page can be shared or reloaded as is
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    url.searchParams.delete('services');
+    selectedServices.forEach((service) => url.searchParams.append('services', service));
+    window.history.replaceState(null, '', url);
+  }, [selectedServices]);
+
+  const data = result?.data;
+  // Offer the profile's services plus anything preselected that isn't in it
+  const serviceOptions = [...new Set([...(data?.services ?? []), ...initialServices])];
+
+  const toggleService = (service: string) => {
+    setSelectedServices(prev =>
+      prev.includes(service) ? prev.filter(s => s !== service) : [...prev, service]
+    );
+  };
+
+  if (!profileId) {
+    return (
+      <div dir="rtl" className="max-w-xl mx-auto p-6">
+        <Card>
+          <CardContent className="pt-6 text-center space-y-4">
+            <Target className="h-10 w-10 mx-auto text-muted-foreground" />
+            <p className="text-muted-foreground">
+              כדי לחקור מודעות של מתחרים צריך קודם לשמור פרופיל עסקי
+            </p>
+            <Button asChild>
+              <Link href="/onboarding">למילוי הפרופיל</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div dir="rtl" className="max-w-5xl mx-auto p-6 space-y-6">
+      <div className="text-center space-y-2">
+        <h1 className="text-3xl font-bold">מחקר מודעות מתחרים</h1>
+        <p className="text-muted-foreground">
+          {data?.company_name || companyName
+            ? `המודעות שהמתחרים של ${data?.company_name || companyName} מריצים`
+            : 'המודעות שהמתחרים שלך מריצים'}
+        </p>
+      </div>
+
+      {serviceOptions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">סינון לפי שירותים</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant={selectedServices.length === 0 ? 'default' : 'outline'}
+              onClick={() => setSelectedServices([])}
+            >
+              הכל
+            </Button>
+            {serviceOptions.map(service => (
+              <Button
+                key={service}
+                size="sm"
+                variant={selectedServices.includes(service) ? 'default' : 'outline'}
+                onClick={() => toggleService(service)}
+                aria-pressed={selectedServices.includes(service)}
+              >
+                {service}
+              </Button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {data?.competitors && data.competitors.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">מתחרים:</span>
+          {data.competitors.map(competitor => (
+            <Badge key={competitor.url} variant="secondary">
+              {competitor.name}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {data?.provider === 'fixture' && (
+        <p className="text-xs text-muted-foreground">
+          המודעות מגיעות מנתוני הדגמה מקומיים ולא מספריית מודעות חיה
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          טוען מודעות...
+        </div>
+      ) : result?.error ? (
+        <p className="text-center text-destructive py-16">{result.error}</p>
+      ) : data?.competitors?.length === 0 ? (
+        <div className="text-center py-16 space-y-4 text-muted-foreground">
+          <p>לא נשמרו מתחרים בפרופיל</p>
+          <Button asChild variant="outline">
+            <Link href={`/onboarding?profile=${encodeURIComponent(profileId)}`}>הוספת מתחרים</Link>
+          </Button>
+        </div>
+      ) : data?.ads && data.ads.length > 0 ? (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {data.ads.map(ad => (
+            <AdCard key={ad.id} ad={ad} />
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-16 text-muted-foreground space-y-2">
+          <Megaphone className="h-10 w-10 mx-auto" />
+          <p>לא נמצאו מודעות{selectedServices.length > 0 && ' לשירותים שנבחרו'}</p>
+        </div>
+      )}
+    </div>
+  );
+}
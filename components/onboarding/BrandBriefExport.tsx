@@ -0,0 +1,59 @@
+/**
+ * BrandBriefExport Component
+ * Download the profile as a brand brief (lib/brand-brief.ts) in any of its formats
+ */
+
+'use client';
+
+import { Download, FileCode2, FileJson, FileText, Loader2, Printer, type LucideIcon } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import type { BrandBriefExportKind } from '@/lib/brand-brief';
+
+interface BrandBriefExportProps {
+  onExport: (kind: BrandBriefExportKind) => void;
+  /** The export in progress, if any - all buttons wait for it */
+  exporting: BrandBriefExportKind | null;
+}
+
+const EXPORTS: Array<{ kind: BrandBriefExportKind; label: string; icon: LucideIcon }> = [
+  { kind: 'pdf', label: 'PDF', icon: Printer },
+  { kind: 'markdown', label: 'Markdown', icon: FileText },
+  { kind: 'html', label: 'HTML', icon: FileCode2 },
+  { kind: 'json', label: 'JSON', icon: FileJson },
+  { kind: 'toon', label: 'TOON', icon: FileText },
+];
+
+export function BrandBriefExport({ onExport, exporting }: BrandBriefExportProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Download className="h-5 w-5" />
+          ייצוא בריף מותג
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          לוגו, צבעים, גופנים, שירותים, קהל יעד, מסרים ומתחרים - במסמך אחד לשיתוף. PDF נפתח בחלון הדפסה
+          (&quot;שמירה כ-PDF&quot;).
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {EXPORTS.map(({ kind, label, icon: Icon }) => (
+            <Button
+              key={kind}
+              variant="outline"
+              size="sm"
+              onClick={() => onExport(kind)}
+              disabled={exporting !== null}
+              className="gap-2"
+            >
+              {exporting === kind ? <Loader2 className="h-4 w-4 animate-spin" /> : <Icon className="h-4 w-4" />}
+              {label}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
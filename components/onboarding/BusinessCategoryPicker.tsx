@@ -0,0 +1,58 @@
+/**
+ * BusinessCategoryPicker Component
+ * Shows the detected business category in the chat and lets the user pick another one
+ */
+
+'use client';
+
+import { Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  BusinessCategory,
+  BusinessCategorySelection,
+  businessCategoryLabels,
+} from '@/types/onboarding';
+
+interface BusinessCategoryPickerProps {
+  selection?: BusinessCategorySelection;
+  onChange: (selection: BusinessCategorySelection) => void;
+  // Once the category questions have started the pick is fixed
+  disabled?: boolean;
+}
+
+const CATEGORIES = Object.keys(businessCategoryLabels) as BusinessCategory[];
+
+export function BusinessCategoryPicker({ selection, onChange, disabled }: BusinessCategoryPickerProps) {
+  return (
+    <div className="mt-4 space-y-2" dir="rtl">
+      <p className="text-xs font-medium text-muted-foreground">
+        {selection?.source === 'user' ? 'התחום שבחרת:' : 'התחום שזיהינו (אפשר לשנות):'}
+      </p>
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="תחום העסק">
+        {CATEGORIES.map(category => {
+          const isSelected = selection?.category === category;
+          return (
+            <button
+              key={category}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              disabled={disabled}
+              onClick={() => onChange({ category, source: 'user', confidence: 1 })}
+              className={cn(
+                'px-3 py-1.5 rounded-full text-sm font-medium border transition-all',
+                isSelected
+                  ? 'bg-primary text-primary-foreground border-primary shadow-sm'
+                  : 'bg-background hover:bg-secondary text-foreground border-border',
+                disabled && !isSelected && 'opacity-50 cursor-not-allowed'
+              )}
+            >
+              {isSelected && <Check className="w-3 h-3 inline ml-1" />}
+              {businessCategoryLabels[category]}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
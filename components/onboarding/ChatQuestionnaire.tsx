@@ -1,7 +1,8 @@
 /**
  * ChatQuestionnaire Component
  * Full conversational chat flow for onboarding questions
- * Uses Agent B prompt for natural conversation with business type classification
+ * The assistant's messages come from /api/onboarding/chat (prompt: lib/llm/prompts/onboarding-chat.md),
+ * streamed in as they are generated; a reply in flight can be stopped
  */
 
 'use client';
@@ -10,15 +11,12 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Send, Bot, User, Loader2, ArrowLeft } from 'lucide-react';
+import { Send, Bot, User, Square, ArrowLeft } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { ServiceSelector } from './ServiceSelector';
-import { safeToonEncodeString } from '@/lib/toon-utils';
-
-// Helper to maintain existing API (body + contentType)
-function safeToonEncode(data: unknown): { body: string; contentType: string } {
-  return { body: safeToonEncodeString(data), contentType: 'text/plain' };
-}
+import { streamOnboardingApi } from '@/lib/onboarding-api';
+import { chatResponseSchema } from '@/lib/onboarding-schemas';
+import { useStreamingReply } from '@/hooks/use-streaming-reply';
 
 interface Message {
   role: 'user' | 'assistant';
@@ -57,6 +55,13 @@ export function ChatQuestionnaire({
   const [isLoading, setIsLoading] = useState(false);
   const [collectedAnswers, setCollectedAnswers] = useState<Record<string, string>>({});
   const [isConversationComplete, setIsConversationComplete] = useState(false);
+  const {
+    partialReply,
+    begin: beginReply,
+    append: appendReply,
+    finish: finishReply,
+    cancel: cancelReply,
+  } = useStreamingReply();
 
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -64,7 +69,7 @@ export function ChatQuestionnaire({
   // Auto-scroll chat messages
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, partialReply]);
 
   // Focus input when entering chat phase
   useEffect(() => {
@@ -77,27 +82,24 @@ export function ChatQuestionnaire({
   const startChat = useCallback(async () => {
     setPhase('chat');
     setIsLoading(true);
+    const signal = beginReply();
 
     try {
-      const { body, contentType } = safeToonEncode({
-        messages: [],
-        businessContext: {
-          ...businessContext,
-          services: selectedServices,
+      const result = await streamOnboardingApi(
+        '/api/onboarding/chat',
+        {
+          messages: [],
+          businessContext: {
+            ...businessContext,
+            services: selectedServices,
+          },
+          isInitial: true,
         },
-        isInitial: true,
-      });
-
-      const response = await fetch('/api/onboarding/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': contentType },
-        body,
-      });
-
-      const data = await response.json();
+        { responseSchema: chatResponseSchema, onDelta: appendReply, signal }
+      );
 
-      if (data.success && data.message) {
-        setMessages([{ role: 'assistant', content: data.message }]);
+      if (result.ok && result.data.message) {
+        setMessages([{ role: 'assistant', content: result.data.message }]);
       } else {
         // Fallback greeting
         setMessages([{
@@ -106,15 +108,19 @@ export function ChatQuestionnaire({
         }]);
       }
     } catch (error) {
-      console.error('[ChatQuestionnaire] Initial greeting error:', error);
+      // A stopped greeting falls back to the canned one as well
+      if (!signal.aborted) {
+        console.error('[ChatQuestionnaire] Initial greeting error:', error);
+      }
       setMessages([{
         role: 'assistant',
         content: `שלום! אני כאן כדי להכיר את העסק שלך. ספר לי קצת על השירותים שאתה מציע ומה מיוחד בהם.`
       }]);
     } finally {
+      finishReply();
       setIsLoading(false);
     }
-  }, [businessContext, selectedServices]);
+  }, [businessContext, selectedServices, beginReply, appendReply, finishReply]);
 
   // Handle sending a message
   const handleSendMessage = async () => {
@@ -124,27 +130,25 @@ export function ChatQuestionnaire({
     setInputValue('');
     setMessages(prev => [...prev, { role: 'user', content: userMessage }]);
     setIsLoading(true);
+    const signal = beginReply();
 
     try {
-      const { body, contentType } = safeToonEncode({
-        messages: [...messages, { role: 'user', content: userMessage }],
-        businessContext: {
-          ...businessContext,
-          services: selectedServices,
+      const result = await streamOnboardingApi(
+        '/api/onboarding/chat',
+        {
+          messages: [...messages, { role: 'user', content: userMessage }],
+          businessContext: {
+            ...businessContext,
+            services: selectedServices,
+          },
+          collectedAnswers,
         },
-        collectedAnswers,
-      });
-
-      const response = await fetch('/api/onboarding/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': contentType },
-        body,
-      });
+        { responseSchema: chatResponseSchema, onDelta: appendReply, signal }
+      );
 
-      const data = await response.json();
-
-      if (data.success) {
-        setMessages(prev => [...prev, { role: 'assistant', content: data.message }]);
+      if (result.ok) {
+        const data = result.data;
+        setMessages(prev => [...prev, { role: 'assistant', content: data.message ?? '' }]);
 
         // Update collected answers if provided
         if (data.answers) {
@@ -160,19 +164,26 @@ export function ChatQuestionnaire({
           }
         }
       } else {
-        console.error('[ChatQuestionnaire] API error:', data.error);
+        console.error('[ChatQuestionnaire] API error:', result.error);
         setMessages(prev => [
           ...prev,
           { role: 'assistant', content: 'סליחה, יש בעיה טכנית. אפשר לנסות שוב?' },
         ]);
       }
     } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user - take the message back so it can be edited and resent
+        setMessages(prev => prev.slice(0, -1));
+        setInputValue(userMessage);
+        return;
+      }
       console.error('[ChatQuestionnaire] Network error:', error);
       setMessages(prev => [
         ...prev,
         { role: 'assistant', content: 'סליחה, בעיית תקשורת. אפשר לנסות שוב?' },
       ]);
     } finally {
+      finishReply();
       setIsLoading(false);
     }
   };
@@ -300,12 +311,16 @@ export function ChatQuestionnaire({
               <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center">
                 <Bot className="w-4 h-4" />
               </div>
-              <div className="bg-muted rounded-2xl rounded-tr-sm px-4 py-3">
-                <div className="flex gap-1">
-                  <span className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
-                  <span className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
-                  <span className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
-                </div>
+              <div className="max-w-[80%] bg-muted text-foreground rounded-2xl rounded-tr-sm px-4 py-3">
+                {partialReply ? (
+                  <p className="text-sm leading-relaxed whitespace-pre-wrap">{partialReply}</p>
+                ) : (
+                  <div className="flex gap-1">
+                    <span className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+                    <span className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+                    <span className="w-2 h-2 bg-muted-foreground/50 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -336,18 +351,27 @@ export function ChatQuestionnaire({
                 disabled={isLoading}
                 dir="rtl"
               />
-              <Button
-                onClick={handleSendMessage}
-                disabled={!inputValue.trim() || isLoading}
-                size="icon"
-                className="h-[44px] w-[44px] flex-shrink-0"
-              >
-                {isLoading ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : (
+              {isLoading ? (
+                <Button
+                  onClick={cancelReply}
+                  variant="outline"
+                  size="icon"
+                  className="h-[44px] w-[44px] flex-shrink-0"
+                  aria-label="עצור תשובה"
+                  title="עצור תשובה"
+                >
+                  <Square className="w-4 h-4" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleSendMessage}
+                  disabled={!inputValue.trim()}
+                  size="icon"
+                  className="h-[44px] w-[44px] flex-shrink-0"
+                >
                   <Send className="w-4 h-4 rotate-180" />
-                )}
-              </Button>
+                </Button>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,116 @@
+/**
+ * CompetitorComparison Component
+ * Side-by-side view of the client's services and value proposition against each scanned competitor
+ */
+
+'use client';
+
+import { AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CompetitorProfile } from '@/types/onboarding';
+import { cn } from '@/lib/utils';
+
+interface CompetitorComparisonProps {
+  companyName: string;
+  productsServices: string[];
+  uniqueValueProposition?: string;
+  competitors: CompetitorProfile[];
+}
+
+const normalize = (service: string) => service.trim().toLowerCase();
+
+export function CompetitorComparison({
+  companyName,
+  productsServices,
+  uniqueValueProposition,
+  competitors,
+}: CompetitorComparisonProps) {
+  // Services offered by the client and at least one competitor are highlighted on both sides
+  const clientServices = new Set(productsServices.map(normalize));
+  const competitorServices = new Set(competitors.flatMap(c => c.services.map(normalize)));
+
+  const columns = [
+    { key: 'client', name: companyName || 'העסק שלך', services: productsServices, pitch: uniqueValueProposition, shared: competitorServices, isClient: true },
+    ...competitors.map((c, index) => ({
+      key: `${index}-${c.url}`,
+      name: c.name,
+      services: c.services,
+      pitch: c.tagline,
+      shared: clientServices,
+      isClient: false,
+      url: c.url,
+      error: c.error,
+    })),
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>השוואה למתחרים</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <div
+            className="grid gap-4 min-w-max"
+            style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(12rem, 1fr))` }}
+          >
+            {columns.map(column => (
+              <div
+                key={column.key}
+                className={cn(
+                  'rounded-lg border p-4 space-y-4',
+                  column.isClient && 'border-primary/50 bg-primary/5'
+                )}
+              >
+                <div>
+                  <h4 className="font-semibold">{column.name}</h4>
+                  {'url' in column && (
+                    <p className="text-xs text-muted-foreground truncate" dir="ltr">{column.url}</p>
+                  )}
+                </div>
+
+                {'error' in column && column.error ? (
+                  <p className="flex items-start gap-1 text-xs text-destructive">
+                    <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    {column.error}
+                  </p>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      <p className="text-xs font-medium text-muted-foreground">שירותים ומוצרים</p>
+                      {column.services.length > 0 ? (
+                        <div className="flex flex-wrap gap-1.5">
+                          {column.services.map((service, index) => (
+                            <Badge
+                              key={index}
+                              variant={column.shared.has(normalize(service)) ? 'default' : 'secondary'}
+                            >
+                              {service}
+                            </Badge>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">—</p>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <p className="text-xs font-medium text-muted-foreground">
+                        {column.isClient ? 'הצעת ערך ייחודית' : 'מסר מרכזי'}
+                      </p>
+                      <p className="text-sm">{column.pitch || '—'}</p>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+        <p className="mt-3 text-xs text-muted-foreground">
+          שירותים מודגשים מופיעים גם אצלך וגם אצל לפחות מתחרה אחד
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
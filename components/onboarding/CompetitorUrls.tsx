@@ -8,7 +8,7 @@
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Plus, Trash2, CheckCircle2, XCircle, Loader2, AlertCircle } from 'lucide-react';
-import { UrlValidationResult } from '@/types/onboarding';
+import { UrlValidationResult, urlValidationErrorMessages } from '@/types/onboarding';
 import { cn } from '@/lib/utils';
 
 interface CompetitorUrlsProps {
@@ -50,9 +50,12 @@ export function CompetitorUrls({
   // Can proceed if either: (1) has valid URLs, or (2) chose to skip (no URLs entered or all invalid)
   const canProceed = allFilledUrlsValidated && (hasValidUrls || filledUrls.length === 0);
 
-  // Get validation result for a specific URL
-  const getValidationResult = (url: string): UrlValidationResult | undefined => {
-    return validationResults.find(r => r.url === url);
+  // Get validation result for a specific field - results follow the order of the
+  // filled fields, so a duplicate entry gets its own result rather than the first one's
+  const getValidationResult = (index: number): UrlValidationResult | undefined => {
+    const position = urls.slice(0, index).filter(url => url.trim() !== '').length;
+    const result = validationResults[position];
+    return result?.url === urls[index] ? result : undefined;
   };
 
   return (
@@ -69,7 +72,7 @@ export function CompetitorUrls({
 
       <div className="max-w-2xl mx-auto mb-8 space-y-4">
         {urls.map((url, index) => {
-          const validationResult = getValidationResult(url);
+          const validationResult = getValidationResult(index);
           const showValidation = validationResult && url.trim() !== '';
 
           return (
@@ -101,11 +104,19 @@ export function CompetitorUrls({
                       </div>
                     )}
                   </div>
+                  {/* Reached page: title and where redirects ended up */}
+                  {showValidation && validationResult.valid && (validationResult.title || validationResult.final_url) && (
+                    <div className="mt-1 text-xs text-muted-foreground truncate" dir="auto">
+                      {validationResult.title}
+                      {validationResult.title && validationResult.final_url && ' · '}
+                      {validationResult.final_url && <span dir="ltr">{validationResult.final_url}</span>}
+                    </div>
+                  )}
                   {/* Validation error message */}
-                  {showValidation && !validationResult.valid && validationResult.error && (
+                  {showValidation && !validationResult.valid && (validationResult.code || validationResult.error) && (
                     <div className="flex items-start gap-1 mt-1 text-destructive text-xs">
                       <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
-                      <span>{validationResult.error}</span>
+                      <span>{validationResult.error || (validationResult.code && urlValidationErrorMessages[validationResult.code])}</span>
                     </div>
                   )}
                 </div>
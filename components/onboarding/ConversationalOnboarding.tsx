@@ -1,37 +1,65 @@
 /**
  * ConversationalOnboarding Component
- * Complete conversational flow following Agent B prompt structure
+ * Complete conversational flow driven by /api/onboarding/conversational-chat
  * Screens: 1) Product/Services Selection → 2) Customer Mapping → 3) Category Questions
+ * Replies stream in as they are produced and can be stopped mid-way
  */
 
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  BusinessCategorySelection,
+  ChatDraftState,
+  ConversationalChatResponse,
+  ConversationMessage,
+  ConversationState,
+  conversationStageLabels,
+} from '@/types/onboarding';
+import {
+  canPickCategory,
+  conversationStage,
+  formatCustomerMapping,
+  formatServiceSelection,
+  INITIAL_CONVERSATION_STATE,
+  isConversationState,
+  parseCustomers,
+  type ConversationPicks,
+} from '@/lib/conversation-machine';
+import { useOnboardingDraft } from '@/hooks/use-onboarding-draft';
+import { useStreamingReply } from '@/hooks/use-streaming-reply';
+import { requestOnboardingApi, streamOnboardingApi } from '@/lib/onboarding-api';
+import {
+  conversationalChatRequestSchema,
+  conversationalChatResponseSchema,
+  conversationTurnResponseSchema,
+} from '@/lib/onboarding-schemas';
+import { ResumeDraftPrompt } from './ResumeDraftPrompt';
+import { BusinessCategoryPicker } from './BusinessCategoryPicker';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Send, Bot, User, Loader2, Check } from 'lucide-react';
+import { Send, Bot, User, Square, Check } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-  services?: string[];
-  selectedServices?: string[];
-  serviceCustomerPairs?: Array<{ service: string; customers: string[] }>;
-  showCustomerMapping?: boolean;
-  servicesForMapping?: string[];
-}
-
 interface ConversationalOnboardingProps {
   onComplete: (data: any) => void;
 }
 
 export function ConversationalOnboarding({ onComplete }: ConversationalOnboardingProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [currentStage, setCurrentStage] = useState<'initial' | 'screen1' | 'screen2' | 'screen3' | 'complete'>('initial');
-  const [sessionData, setSessionData] = useState<any>({});
+  const [conversationState, setConversationState] = useState<ConversationState>(INITIAL_CONVERSATION_STATE);
+  const [sessionData, setSessionData] = useState<Record<string, unknown>>({});
+  // Server conversation (lib/conversation-session.ts) - set by the first reply
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const {
+    partialReply,
+    begin: beginReply,
+    append: appendReply,
+    finish: finishReply,
+    cancel: cancelReply,
+  } = useStreamingReply();
 
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -39,15 +67,51 @@ export function ConversationalOnboarding({ onComplete }: ConversationalOnboardin
   // Auto-scroll
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
-
-  // Start conversation
+  }, [messages, partialReply]);
+
+  // Draft autosave - once the user has answered something
+  const draftSnapshot = useMemo<ChatDraftState>(
+    () => ({
+      messages,
+      sessionId,
+      conversationState,
+      currentStage: conversationStage(conversationState),
+      sessionData,
+    }),
+    [messages, sessionId, conversationState, sessionData]
+  );
+  const {
+    isChecking: isCheckingDraft,
+    pendingDraft,
+    resume: resumeDraft,
+    discard: discardDraft,
+    finish: finishDraft,
+  } = useOnboardingDraft('conversational-chat', draftSnapshot, {
+    enabled: messages.some(m => m.role === 'user'),
+  });
+
+  // Start conversation on mount - unless there's a draft waiting to be resumed
+  const hasStartedRef = useRef(false);
   useEffect(() => {
+    if (isCheckingDraft || pendingDraft || hasStartedRef.current) return;
+    hasStartedRef.current = true;
     if (messages.length === 0) {
       handleInitialGreeting();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [isCheckingDraft, pendingDraft]);
+
+  const handleResumeDraft = () => {
+    const saved = resumeDraft();
+    if (!saved) return;
+    hasStartedRef.current = true;
+    setMessages(saved.messages);
+    setSessionId(saved.sessionId ?? null);
+    setConversationState(
+      isConversationState(saved.conversationState) ? saved.conversationState : INITIAL_CONVERSATION_STATE
+    );
+    setSessionData(saved.sessionData);
+  };
 
   const handleInitialGreeting = async () => {
     setIsLoading(true);
@@ -63,70 +127,125 @@ export function ConversationalOnboarding({ onComplete }: ConversationalOnboardin
     setIsLoading(false);
   };
 
-  const handleSendMessage = async () => {
-    if (!inputValue.trim() || isLoading) return;
-
-    const userMessage = inputValue.trim();
+  // Sends the typed message, or a structured reply built from the message's controls with its picks
+  const handleSendMessage = async (text: string = inputValue, picks: ConversationPicks = {}) => {
+    const userMessage = text.trim();
+    if (!userMessage || isLoading) return;
     setInputValue('');
 
     const newMessages = [...messages, { role: 'user' as const, content: userMessage }];
     setMessages(newMessages);
     setIsLoading(true);
+    const signal = beginReply();
+    const pickedCategory = sessionData.businessCategory as BusinessCategorySelection | undefined;
+    const turnId = crypto.randomUUID();
 
-    try {
-      const response = await fetch('/api/onboarding/conversational-chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          messages: newMessages,
-          currentStage,
-          sessionData,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        const assistantMessage: Message = {
-          role: 'assistant',
-          content: data.message,
-        };
+    // The turn's response: the reply with its controls, and the server's state
+    const applyResponse = (data: ConversationalChatResponse) => {
+      const assistantMessage: ConversationMessage = {
+        role: 'assistant',
+        content: data.message ?? '',
+      };
 
-        // Add special data if present
-        if (data.services) {
-          assistantMessage.services = data.services;
-        }
-        if (data.selectedServices) {
-          assistantMessage.selectedServices = data.selectedServices;
-        }
-        if (data.serviceCustomerPairs) {
-          assistantMessage.serviceCustomerPairs = data.serviceCustomerPairs;
-        }
+      // Add special data if present
+      if (data.services) {
+        assistantMessage.services = data.services;
+      }
+      if (data.selectedServices) {
+        assistantMessage.selectedServices = data.selectedServices;
+      }
+      if (data.serviceCustomerPairs) {
+        assistantMessage.serviceCustomerPairs = data.serviceCustomerPairs;
+      }
+      if (data.showCategoryPicker) {
+        assistantMessage.showCategoryPicker = true;
+      }
 
-        setMessages([...newMessages, assistantMessage]);
+      setMessages([...newMessages, assistantMessage]);
 
-        // Update stage and session data
-        if (data.stage) {
-          setCurrentStage(data.stage);
-        }
-        if (data.sessionData) {
-          setSessionData(data.sessionData);
-        }
+      // Update stage and session data
+      if (data.sessionId) {
+        setSessionId(data.sessionId);
+      }
+      if (data.state) {
+        setConversationState(data.state);
+      }
+      if (data.sessionData) {
+        setSessionData(data.sessionData);
+      }
 
-        // Check if complete
-        if (data.isComplete) {
-          setTimeout(() => {
-            onComplete(data.finalData);
-          }, 2000);
+      // Check if complete
+      if (data.isComplete) {
+        finishDraft();
+        setTimeout(() => {
+          onComplete(data.finalData);
+        }, 2000);
+      }
+    };
+
+    try {
+      const result = await streamOnboardingApi(
+        '/api/onboarding/conversational-chat',
+        {
+          sessionId: sessionId ?? undefined,
+          message: userMessage,
+          ...picks,
+          // Only the user's own pick - a detected category is the server's to begin with
+          businessCategory: pickedCategory?.source === 'user' ? pickedCategory.category : undefined,
+          turnId,
+        },
+        {
+          encoding: 'json',
+          requestSchema: conversationalChatRequestSchema,
+          responseSchema: conversationalChatResponseSchema,
+          onDelta: appendReply,
+          signal,
         }
+      );
+
+      if (result.ok) {
+        applyResponse(result.data);
+      } else if (result.code === 'not_found') {
+        // The server no longer has this conversation (it expired) - start over
+        setSessionId(null);
+        setConversationState(INITIAL_CONVERSATION_STATE);
+        setSessionData({});
+        setMessages([{
+          role: 'assistant',
+          content: 'השיחה הקודמת כבר לא זמינה, אז נתחיל מחדש.\n\nקודם כל - יש לך אתר אינטרנט?'
+        }]);
+      } else {
+        console.error('[ConversationalOnboarding] API error:', result.error);
+        setMessages([...newMessages, {
+          role: 'assistant',
+          content: 'סליחה, יש בעיה טכנית. אפשר לנסות שוב?'
+        }]);
       }
     } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user. The server saves a turn before streaming it - if this one
+        // made it, show its reply; otherwise take the message back to be edited and resent
+        const saved = sessionId
+          ? await requestOnboardingApi(
+              `/api/onboarding/conversational-chat?sessionId=${encodeURIComponent(sessionId)}&turnId=${turnId}`,
+              { responseSchema: conversationTurnResponseSchema }
+            ).catch(() => null)
+          : null;
+        if (saved?.ok && saved.data.response) {
+          applyResponse(saved.data.response);
+        } else {
+          setMessages(messages);
+          setInputValue(userMessage);
+        }
+        return;
+      }
       console.error('[ConversationalOnboarding] Error:', error);
       setMessages([...newMessages, {
         role: 'assistant',
         content: 'סליחה, יש בעיה טכנית. אפשר לנסות שוב?'
       }]);
     } finally {
+      finishReply();
       setIsLoading(false);
     }
   };
@@ -147,11 +266,8 @@ export function ConversationalOnboarding({ onComplete }: ConversationalOnboardin
 
   const handleConfirmServices = () => {
     if (tempSelectedServices.length > 0) {
-      setInputValue(tempSelectedServices.join(', '));
-      setTimeout(() => {
-        handleSendMessage();
-        setTempSelectedServices([]);
-      }, 100);
+      handleSendMessage(formatServiceSelection(tempSelectedServices), { selectedServices: tempSelectedServices });
+      setTempSelectedServices([]);
     }
   };
 
@@ -163,17 +279,19 @@ export function ConversationalOnboarding({ onComplete }: ConversationalOnboardin
   };
 
   const handleConfirmCustomerMappings = (services: string[]) => {
-    // Format: service1:customers1|service2:customers2
-    const mappingString = services
-      .map(service => `${service}:${customerMappings[service] || ''}`)
-      .join('|');
+    const serviceCustomerPairs = services.map(service => ({
+      service,
+      customers: parseCustomers(customerMappings[service] || ''),
+    }));
+    handleSendMessage(formatCustomerMapping(serviceCustomerPairs), { serviceCustomerPairs });
+    setCustomerMappings({});
+  };
 
-    setInputValue(mappingString);
-    setTimeout(() => {
-      handleSendMessage();
-      setCustomerMappings({});
-    }, 100);
+  // The user's own category pick goes back to the server with the next message
+  const handleCategoryChange = (selection: BusinessCategorySelection) => {
+    setSessionData(prev => ({ ...prev, businessCategory: selection }));
   };
+  const isCategoryLocked = !canPickCategory(conversationState);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -390,6 +508,15 @@ export function ConversationalOnboarding({ onComplete }: ConversationalOnboardin
                     </div>
                   )}
 
+                  {/* Business Category */}
+                  {message.showCategoryPicker && (
+                    <BusinessCategoryPicker
+                      selection={sessionData.businessCategory as BusinessCategorySelection | undefined}
+                      onChange={handleCategoryChange}
+                      disabled={isCategoryLocked}
+                    />
+                  )}
+
                   {/* Service-Customer Pairs Table */}
                   {message.serviceCustomerPairs && message.serviceCustomerPairs.length > 0 && (
                     <div className="mt-4">
@@ -424,12 +551,16 @@ export function ConversationalOnboarding({ onComplete }: ConversationalOnboardin
               <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center">
                 <Bot className="w-4 h-4" />
               </div>
-              <div className="bg-card border rounded-2xl rounded-tr-sm px-4 py-3 shadow-sm">
-                <div className="flex gap-1">
-                  <span className="w-2 h-2 bg-primary/50 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
-                  <span className="w-2 h-2 bg-primary/50 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
-                  <span className="w-2 h-2 bg-primary/50 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
-                </div>
+              <div className="max-w-[85%] bg-card border rounded-2xl rounded-tr-sm px-4 py-3 shadow-sm">
+                {partialReply ? (
+                  <p className="text-sm leading-relaxed whitespace-pre-wrap">{partialReply}</p>
+                ) : (
+                  <div className="flex gap-1">
+                    <span className="w-2 h-2 bg-primary/50 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+                    <span className="w-2 h-2 bg-primary/50 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+                    <span className="w-2 h-2 bg-primary/50 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -450,21 +581,39 @@ export function ConversationalOnboarding({ onComplete }: ConversationalOnboardin
               disabled={isLoading}
               dir="rtl"
             />
-            <Button
-              onClick={handleSendMessage}
-              disabled={!inputValue.trim() || isLoading}
-              size="icon"
-              className="h-[50px] w-[50px] flex-shrink-0"
-            >
-              {isLoading ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
-              ) : (
+            {isLoading ? (
+              <Button
+                onClick={cancelReply}
+                variant="outline"
+                size="icon"
+                className="h-[50px] w-[50px] flex-shrink-0"
+                aria-label="עצור תשובה"
+                title="עצור תשובה"
+              >
+                <Square className="w-5 h-5" />
+              </Button>
+            ) : (
+              <Button
+                onClick={() => handleSendMessage()}
+                disabled={!inputValue.trim()}
+                size="icon"
+                className="h-[50px] w-[50px] flex-shrink-0"
+              >
                 <Send className="w-5 h-5 rotate-180" />
-              )}
-            </Button>
+              </Button>
+            )}
           </div>
         </div>
       </div>
+      {pendingDraft && (
+        <ResumeDraftPrompt
+          isOpen
+          savedAt={pendingDraft.saved_at}
+          location={conversationStageLabels[pendingDraft.state.currentStage]}
+          onResume={handleResumeDraft}
+          onDiscard={discardDraft}
+        />
+      )}
     </div>
   );
 }
@@ -1,110 +1,216 @@
 'use client';
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
-import { QuestionnaireAnswers } from '@/types/onboarding';
-import { useMemo } from 'react';
-
-const FIXED_QUESTIONS = [
-  {
-    key: 'services' as keyof QuestionnaireAnswers,
-    number: 1,
-    question: 'מה השירותים שאתם מציעים?',
-    placeholder: 'תאר את השירותים העיקריים שהעסק מציע...',
-  },
-  {
-    key: 'advantages' as keyof QuestionnaireAnswers,
-    number: 2,
-    question: 'מה היתרונות המרכזיים שלכם?',
-    placeholder: 'מה מייחד אתכם מהמתחרים, מה עושה אתכם מיוחדים...',
-  },
-  {
-    key: 'tone' as keyof QuestionnaireAnswers,
-    number: 3,
-    question: 'מה הטון של המותג שלכם?',
-    placeholder: 'מקצועי, ידידותי, צעיר, רשמי...',
-  },
-  {
-    key: 'key_messages' as keyof QuestionnaireAnswers,
-    number: 4,
-    question: 'מהם המסרים המרכזיים שלכם?',
-    placeholder: 'המסרים והערכים שחשוב להעביר ללקוחות...',
-  },
-  {
-    key: 'additional_info' as keyof QuestionnaireAnswers,
-    number: 5,
-    question: 'מידע נוסף שחשוב לנו לדעת',
-    placeholder: 'כל מידע רלוונטי נוסף שיכול לעזור לנו להכיר את העסק...',
-  },
-];
+import { fixedQuestions, QuestionnaireAnswers, QuestionnaireField } from '@/types/onboarding';
+import { useMemo, useState } from 'react';
+import { Check, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  isQuestionAnswered,
+  validateQuestionnaireAnswers,
+  type QuestionnaireAnswerValue,
+} from '@/lib/questionnaire-fields';
 
 interface FixedQuestionnaireProps {
   answers: Partial<QuestionnaireAnswers>;
-  onAnswerChange: (field: keyof QuestionnaireAnswers, value: string) => void;
+  onAnswerChange: (field: keyof QuestionnaireAnswers, value: QuestionnaireAnswerValue) => void;
   onNext: () => void;
+  /** The answers are being turned into profile fields */
+  isExtracting?: boolean;
+}
+
+interface FieldInputProps {
+  question: QuestionnaireField;
+  value: QuestionnaireAnswerValue;
+  invalid: boolean;
+  onChange: (value: QuestionnaireAnswerValue) => void;
+  onBlur: () => void;
+}
+
+// The input for one question, by its kind
+function FieldInput({ question, value, invalid, onChange, onBlur }: FieldInputProps) {
+  const id = `fixed-question-${question.key}`;
+
+  switch (question.kind) {
+    case 'long_text':
+      return (
+        <Textarea
+          id={id}
+          value={(value as string | undefined) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder={question.placeholder}
+          maxLength={question.maxLength}
+          className="min-h-[120px] resize-none text-right"
+          dir="rtl"
+          aria-invalid={invalid}
+        />
+      );
+
+    case 'short_text':
+    case 'phone':
+    case 'address':
+      return (
+        <Input
+          id={id}
+          type={question.kind === 'phone' ? 'tel' : 'text'}
+          inputMode={question.kind === 'phone' ? 'tel' : undefined}
+          autoComplete={{ phone: 'tel', address: 'street-address', short_text: undefined }[question.kind]}
+          value={(value as string | undefined) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder={question.placeholder}
+          maxLength={question.maxLength}
+          // Phone numbers read left to right even in Hebrew
+          dir={question.kind === 'phone' ? 'ltr' : 'rtl'}
+          className={question.kind === 'phone' ? 'text-left' : 'text-right'}
+          aria-invalid={invalid}
+        />
+      );
+
+    case 'select':
+    case 'multi_select': {
+      const isMulti = question.kind === 'multi_select';
+      const selected = Array.isArray(value) ? value : value ? [value] : [];
+
+      const toggle = (option: string) => {
+        if (isMulti) {
+          onChange(selected.includes(option) ? selected.filter((v) => v !== option) : [...selected, option]);
+        } else {
+          // Picking the selected option again clears an optional select
+          onChange(selected.includes(option) && !question.required ? '' : option);
+        }
+        onBlur();
+      };
+
+      return (
+        <div
+          id={id}
+          className="flex flex-wrap gap-2"
+          role={isMulti ? 'group' : 'radiogroup'}
+          aria-label={question.question}
+          aria-invalid={invalid}
+        >
+          {question.options?.map((option) => {
+            const isSelected = selected.includes(option.value);
+            return (
+              <button
+                key={option.value}
+                type="button"
+                role={isMulti ? 'checkbox' : 'radio'}
+                aria-checked={isSelected}
+                onClick={() => toggle(option.value)}
+                className={cn(
+                  'px-3 py-1.5 rounded-full text-sm font-medium border transition-all',
+                  isSelected
+                    ? 'bg-primary text-primary-foreground border-primary shadow-sm'
+                    : 'bg-background hover:bg-secondary text-foreground border-border'
+                )}
+              >
+                {isSelected && <Check className="w-3 h-3 inline ml-1" />}
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+  }
 }
 
 export function FixedQuestionnaire({
   answers,
   onAnswerChange,
   onNext,
+  isExtracting = false,
 }: FixedQuestionnaireProps) {
-  // Calculate progress
-  const answeredCount = useMemo(() => {
-    return FIXED_QUESTIONS.filter((q) => {
-      const answer = answers[q.key];
-      return answer && answer.trim().length > 0;
-    }).length;
-  }, [answers]);
+  // Errors show once a field was left (or on a blocked submit), not while typing the first time
+  const [touched, setTouched] = useState<Set<keyof QuestionnaireAnswers>>(new Set());
+
+  const answeredCount = useMemo(
+    () => fixedQuestions.filter((q) => isQuestionAnswered(answers[q.key])).length,
+    [answers]
+  );
+
+  const errors = useMemo(
+    () => Object.fromEntries(validateQuestionnaireAnswers(answers).map(({ path, message }) => [path, message])),
+    [answers]
+  );
+
+  const errorCount = Object.keys(errors).length;
+  const missingRequired = fixedQuestions.filter((q) => q.required && !isQuestionAnswered(answers[q.key])).length;
+  const canProceed = errorCount === 0;
+
+  const markTouched = (key: keyof QuestionnaireAnswers) => {
+    setTouched((prev) => (prev.has(key) ? prev : new Set(prev).add(key)));
+  };
 
-  const canProceed = answeredCount >= 3;
+  const handleNext = () => {
+    if (!canProceed) {
+      setTouched(new Set(fixedQuestions.map((q) => q.key)));
+      return;
+    }
+    onNext();
+  };
 
   return (
     <div className="w-full max-w-3xl mx-auto space-y-6" dir="rtl">
       {/* Progress indicator */}
       <div className="text-center mb-8">
         <p className="text-lg font-medium text-muted-foreground">
-          עניתם על {answeredCount} מתוך {FIXED_QUESTIONS.length} שאלות
+          עניתם על {answeredCount} מתוך {fixedQuestions.length} שאלות
         </p>
         <p className="text-sm text-muted-foreground mt-1">
           {canProceed
             ? 'מעולה! אפשר להמשיך'
-            : 'נא לענות על לפחות 3 שאלות כדי להמשיך'}
+            : missingRequired > 0
+              ? 'שאלות המסומנות ב-* הן חובה'
+              : 'יש שדות שדורשים תיקון'}
         </p>
       </div>
 
       {/* Questions */}
       <div className="space-y-6">
-        {FIXED_QUESTIONS.map((question) => {
-          const answer = answers[question.key] || '';
-          const isAnswered = answer.trim().length > 0;
+        {fixedQuestions.map((question, index) => {
+          const value = answers[question.key];
+          const isAnswered = isQuestionAnswered(value);
+          const error = touched.has(question.key) ? errors[question.key] : undefined;
 
           return (
             <Card
               key={question.key}
-              className={`transition-all ${
-                isAnswered
-                  ? 'border-primary/50 bg-primary/5'
-                  : 'border-border hover:border-primary/30'
-              }`}
+              className={cn(
+                'transition-all',
+                error
+                  ? 'border-destructive/50'
+                  : isAnswered
+                    ? 'border-primary/50 bg-primary/5'
+                    : 'border-border hover:border-primary/30'
+              )}
             >
               <CardHeader className="pb-3">
                 <CardTitle className="flex items-start justify-between gap-4">
-                  <span className="flex-1 text-lg">{question.question}</span>
+                  <label htmlFor={`fixed-question-${question.key}`} className="flex-1 text-lg">
+                    {question.question}
+                    {question.required && <span className="text-destructive mr-1">*</span>}
+                  </label>
                   <span className="flex-shrink-0 text-2xl font-bold text-primary">
-                    {question.number}
+                    {index + 1}
                   </span>
                 </CardTitle>
               </CardHeader>
-              <CardContent>
-                <Textarea
-                  value={answer}
-                  onChange={(e) => onAnswerChange(question.key, e.target.value)}
-                  placeholder={question.placeholder}
-                  className="min-h-[120px] resize-none text-right"
-                  dir="rtl"
+              <CardContent className="space-y-2">
+                <FieldInput
+                  question={question}
+                  value={value}
+                  invalid={!!error}
+                  onChange={(next) => onAnswerChange(question.key, next)}
+                  onBlur={() => markTouched(question.key)}
                 />
+                {error && <p className="text-xs text-destructive">{error}</p>}
               </CardContent>
             </Card>
           );
@@ -114,12 +220,23 @@ export function FixedQuestionnaire({
       {/* Next button */}
       <div className="flex justify-center pt-6">
         <Button
-          onClick={onNext}
-          disabled={!canProceed}
+          onClick={handleNext}
+          disabled={isExtracting}
           size="lg"
           className="min-w-[200px]"
         >
-          {canProceed ? 'המשך לשלב הבא' : `נא לענות על לפחות ${3 - answeredCount} שאלות נוספות`}
+          {isExtracting ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              מעבד את התשובות...
+            </>
+          ) : canProceed ? (
+            'המשך לשלב הבא'
+          ) : missingRequired > 0 ? (
+            `נא לענות על ${missingRequired} שאלות חובה`
+          ) : (
+            `נא לתקן ${errorCount} שדות`
+          )}
         </Button>
       </div>
     </div>
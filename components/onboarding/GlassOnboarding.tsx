@@ -1,21 +1,40 @@
 /**
  * Glass Onboarding Component
  * Beautiful glassmorphism design with owl avatar
+ * Replies stream in as they are produced; the send button stops a reply in flight
  */
 
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
-
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-  services?: string[];
-  selectedServices?: string[];
-  serviceCustomerPairs?: Array<{ service: string; customers: string[] }>;
-  showCustomerMapping?: boolean;
-  servicesForMapping?: string[];
-}
+import { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  BusinessCategorySelection,
+  ChatDraftState,
+  ConversationalChatResponse,
+  ConversationMessage,
+  ConversationState,
+  conversationStageLabels,
+} from '@/types/onboarding';
+import {
+  canPickCategory,
+  conversationStage,
+  formatCustomerMapping,
+  formatServiceSelection,
+  INITIAL_CONVERSATION_STATE,
+  isConversationState,
+  parseCustomers,
+  type ConversationPicks,
+} from '@/lib/conversation-machine';
+import { useOnboardingDraft } from '@/hooks/use-onboarding-draft';
+import { useStreamingReply } from '@/hooks/use-streaming-reply';
+import { requestOnboardingApi, streamOnboardingApi } from '@/lib/onboarding-api';
+import {
+  conversationalChatRequestSchema,
+  conversationalChatResponseSchema,
+  conversationTurnResponseSchema,
+} from '@/lib/onboarding-schemas';
+import { ResumeDraftPrompt } from './ResumeDraftPrompt';
+import { BusinessCategoryPicker } from './BusinessCategoryPicker';
 
 interface GlassOnboardingProps {
   onComplete: (data: any) => void;
@@ -30,14 +49,29 @@ const SendIcon = () => (
   </svg>
 );
 
+const StopIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="white" xmlns="http://www.w3.org/2000/svg">
+    <rect x="5" y="5" width="14" height="14" rx="2" />
+  </svg>
+);
+
 export function GlassOnboarding({ onComplete }: GlassOnboardingProps) {
   const [inputValue, setInputValue] = useState('');
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [currentStage, setCurrentStage] = useState<'initial' | 'screen1' | 'screen2' | 'screen3' | 'complete'>('initial');
-  const [sessionData, setSessionData] = useState<any>({});
+  const [conversationState, setConversationState] = useState<ConversationState>(INITIAL_CONVERSATION_STATE);
+  const [sessionData, setSessionData] = useState<Record<string, unknown>>({});
+  // Server conversation (lib/conversation-session.ts) - set by the first reply
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [tempSelectedServices, setTempSelectedServices] = useState<string[]>([]);
   const [customerMappings, setCustomerMappings] = useState<Record<string, string>>({});
+  const {
+    partialReply,
+    begin: beginReply,
+    append: appendReply,
+    finish: finishReply,
+    cancel: cancelReply,
+  } = useStreamingReply();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
 
@@ -75,13 +109,49 @@ export function GlassOnboarding({ onComplete }: GlassOnboardingProps) {
     return () => clearTimeout(timeoutId);
   }, [messages]);
 
-  // Start conversation on mount
+  // Draft autosave - once the user has answered something
+  const draftSnapshot = useMemo<ChatDraftState>(
+    () => ({
+      messages,
+      sessionId,
+      conversationState,
+      currentStage: conversationStage(conversationState),
+      sessionData,
+    }),
+    [messages, sessionId, conversationState, sessionData]
+  );
+  const {
+    isChecking: isCheckingDraft,
+    pendingDraft,
+    resume: resumeDraft,
+    discard: discardDraft,
+    finish: finishDraft,
+  } = useOnboardingDraft('glass-chat', draftSnapshot, {
+    enabled: messages.some(m => m.role === 'user'),
+  });
+
+  // Start conversation on mount - unless there's a draft waiting to be resumed
+  const hasStartedRef = useRef(false);
   useEffect(() => {
+    if (isCheckingDraft || pendingDraft || hasStartedRef.current) return;
+    hasStartedRef.current = true;
     if (messages.length === 0) {
       handleInitialGreeting();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [isCheckingDraft, pendingDraft]);
+
+  const handleResumeDraft = () => {
+    const saved = resumeDraft();
+    if (!saved) return;
+    hasStartedRef.current = true;
+    setMessages(saved.messages);
+    setSessionId(saved.sessionId ?? null);
+    setConversationState(
+      isConversationState(saved.conversationState) ? saved.conversationState : INITIAL_CONVERSATION_STATE
+    );
+    setSessionData(saved.sessionData);
+  };
 
   const handleInitialGreeting = async () => {
     setIsLoading(true);
@@ -106,11 +176,8 @@ export function GlassOnboarding({ onComplete }: GlassOnboardingProps) {
 
   const handleConfirmServices = () => {
     if (tempSelectedServices.length > 0) {
-      setInputValue(tempSelectedServices.join(', '));
-      setTimeout(() => {
-        handleSend();
-        setTempSelectedServices([]);
-      }, 100);
+      handleSend(formatServiceSelection(tempSelectedServices), { selectedServices: tempSelectedServices });
+      setTempSelectedServices([]);
     }
   };
 
@@ -122,88 +189,141 @@ export function GlassOnboarding({ onComplete }: GlassOnboardingProps) {
   };
 
   const handleConfirmCustomerMappings = (services: string[]) => {
-    const mappingString = services
-      .map(service => `${service}:${customerMappings[service] || ''}`)
-      .join('|');
-    setInputValue(mappingString);
-    setTimeout(() => {
-      handleSend();
-      setCustomerMappings({});
-    }, 100);
+    const serviceCustomerPairs = services.map(service => ({
+      service,
+      customers: parseCustomers(customerMappings[service] || ''),
+    }));
+    handleSend(formatCustomerMapping(serviceCustomerPairs), { serviceCustomerPairs });
+    setCustomerMappings({});
   };
 
-  const handleSend = async () => {
-    if (!inputValue.trim() || isLoading) return;
-
-    const userMessage = inputValue.trim();
+  // Sends the typed message, or a structured reply built from the message's controls with its picks
+  const handleSend = async (text: string = inputValue, picks: ConversationPicks = {}) => {
+    const userMessage = text.trim();
+    if (!userMessage || isLoading) return;
     setInputValue('');
 
     const newMessages = [...messages, { role: 'user' as const, content: userMessage }];
     setMessages(newMessages);
     setIsLoading(true);
+    const signal = beginReply();
+    const pickedCategory = sessionData.businessCategory as BusinessCategorySelection | undefined;
+    const turnId = crypto.randomUUID();
+
+    // The turn's response: the reply with its controls, and the server's state
+    const applyResponse = (data: ConversationalChatResponse) => {
+      const assistantMessage: ConversationMessage = {
+        role: 'assistant',
+        content: data.message ?? '',
+      };
+
+      // Add special data if present
+      if (data.services) {
+        assistantMessage.services = data.services;
+      }
+      if (data.selectedServices) {
+        assistantMessage.selectedServices = data.selectedServices;
+      }
+      if (data.serviceCustomerPairs) {
+        assistantMessage.serviceCustomerPairs = data.serviceCustomerPairs;
+      }
+      if (data.showCategoryPicker) {
+        assistantMessage.showCategoryPicker = true;
+      }
+      if (data.showCustomerMapping) {
+        assistantMessage.showCustomerMapping = true;
+        assistantMessage.servicesForMapping = data.servicesForMapping;
+      }
 
-    try {
-      // Add 20 second delay for testing
-      await new Promise(resolve => setTimeout(resolve, 20000));
-
-      const response = await fetch('/api/onboarding/conversational-chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          messages: newMessages,
-          currentStage,
-          sessionData,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        const assistantMessage: Message = {
-          role: 'assistant',
-          content: data.message,
-        };
-
-        // Add special data if present
-        if (data.services) {
-          assistantMessage.services = data.services;
-        }
-        if (data.selectedServices) {
-          assistantMessage.selectedServices = data.selectedServices;
-        }
-        if (data.serviceCustomerPairs) {
-          assistantMessage.serviceCustomerPairs = data.serviceCustomerPairs;
-        }
-        if (data.showCustomerMapping) {
-          assistantMessage.showCustomerMapping = true;
-          assistantMessage.servicesForMapping = data.servicesForMapping;
-        }
+      setMessages([...newMessages, assistantMessage]);
 
-        setMessages([...newMessages, assistantMessage]);
+      // Update stage and session data
+      if (data.sessionId) {
+        setSessionId(data.sessionId);
+      }
+      if (data.state) {
+        setConversationState(data.state);
+      }
+      if (data.sessionData) {
+        setSessionData(data.sessionData);
+      }
 
-        // Update stage and session data
-        if (data.stage) {
-          setCurrentStage(data.stage);
-        }
-        if (data.sessionData) {
-          setSessionData(data.sessionData);
-        }
+      // Check if complete
+      if (data.isComplete) {
+        finishDraft();
+        setTimeout(() => {
+          onComplete(data.finalData);
+        }, 2000);
+      }
+    };
 
-        // Check if complete
-        if (data.isComplete) {
-          setTimeout(() => {
-            onComplete(data.finalData);
-          }, 2000);
+    try {
+      const result = await streamOnboardingApi(
+        '/api/onboarding/conversational-chat',
+        {
+          sessionId: sessionId ?? undefined,
+          message: userMessage,
+          ...picks,
+          // Only the user's own pick - a detected category is the server's to begin with
+          businessCategory: pickedCategory?.source === 'user' ? pickedCategory.category : undefined,
+          turnId,
+        },
+        {
+          encoding: 'json',
+          requestSchema: conversationalChatRequestSchema,
+          responseSchema: conversationalChatResponseSchema,
+          onDelta: appendReply,
+          signal,
         }
+      );
+
+      if (result.ok) {
+        applyResponse(result.data);
+      } else if (result.code === 'not_found') {
+        // The server no longer has this conversation (it expired) - start over
+        setSessionId(null);
+        setConversationState(INITIAL_CONVERSATION_STATE);
+        setSessionData({});
+        setMessages([{
+          role: 'assistant',
+          content: 'השיחה הקודמת כבר לא זמינה, אז נתחיל מחדש.\n\nקודם כל - יש לך אתר אינטרנט?'
+        }]);
+      } else {
+        console.error('Error:', result.error);
+        setMessages([...newMessages, { role: 'assistant', content: 'סליחה, יש בעיה טכנית. נסה שוב.' }]);
       }
     } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user. The server saves a turn before streaming it - if this one
+        // made it, show its reply; otherwise take the message back to be edited and resent
+        const saved = sessionId
+          ? await requestOnboardingApi(
+              `/api/onboarding/conversational-chat?sessionId=${encodeURIComponent(sessionId)}&turnId=${turnId}`,
+              { responseSchema: conversationTurnResponseSchema }
+            ).catch(() => null)
+          : null;
+        if (saved?.ok && saved.data.response) {
+          applyResponse(saved.data.response);
+        } else {
+          setMessages(messages);
+          setInputValue(userMessage);
+        }
+        return;
+      }
       console.error('Error:', error);
       setMessages([...newMessages, { role: 'assistant', content: 'סליחה, יש בעיה טכנית. נסה שוב.' }]);
     } finally {
+      finishReply();
       setIsLoading(false);
     }
   };
 
+  // The user's own category pick goes back to the server with the next message
+  const handleCategoryChange = (selection: BusinessCategorySelection) => {
+    setSessionData(prev => ({ ...prev, businessCategory: selection }));
+  };
+  const isCategoryLocked = !canPickCategory(conversationState);
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -897,6 +1017,15 @@ export function GlassOnboarding({ onComplete }: GlassOnboardingProps) {
                       </div>
                     )}
 
+                    {/* Business Category */}
+                    {message.showCategoryPicker && (
+                      <BusinessCategoryPicker
+                        selection={sessionData.businessCategory as BusinessCategorySelection | undefined}
+                        onChange={handleCategoryChange}
+                        disabled={isCategoryLocked}
+                      />
+                    )}
+
                     {/* Service-Customer Pairs Table */}
                     {message.serviceCustomerPairs && message.serviceCustomerPairs.length > 0 && (
                       <div style={{ marginTop: '16px' }}>
@@ -927,7 +1056,7 @@ export function GlassOnboarding({ onComplete }: GlassOnboardingProps) {
             );
           })}
 
-          {/* Typing Indicator - Shows when bot is thinking */}
+          {/* Typing Indicator - Shows when bot is thinking, then the reply as it streams in */}
           {isLoading && (
             <div
               className="message-bubble"
@@ -956,37 +1085,59 @@ export function GlassOnboarding({ onComplete }: GlassOnboardingProps) {
                   }}
                 />
               </div>
-              <div style={{
-                padding: '18px 24px',
-                borderRadius: '24px 24px 6px 24px',
-                background: 'linear-gradient(145deg, rgba(255, 255, 255, 0.95) 0%, rgba(235, 248, 255, 0.85) 100%)',
-                backdropFilter: 'blur(12px)',
-                WebkitBackdropFilter: 'blur(12px)',
-                border: '1px solid #FFFFFF',
-                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 10px 15px -3px rgba(0, 0, 0, 0.05), inset 0 0 0 1px rgba(255, 255, 255, 1.0)',
-                display: 'flex',
-                alignItems: 'center',
-                gap: '6px',
-              }}>
-                <span className="typing-dot" style={{
-                  width: '10px',
-                  height: '10px',
-                  borderRadius: '50%',
-                  background: '#A78BFA',
-                }} />
-                <span className="typing-dot" style={{
-                  width: '10px',
-                  height: '10px',
-                  borderRadius: '50%',
-                  background: '#38BDF8',
-                }} />
-                <span className="typing-dot" style={{
-                  width: '10px',
-                  height: '10px',
-                  borderRadius: '50%',
-                  background: '#C084FC',
-                }} />
-              </div>
+              {partialReply ? (
+                <div style={{
+                  padding: '14px 22px',
+                  borderRadius: '24px 24px 6px 24px',
+                  background: 'linear-gradient(145deg, rgba(255, 255, 255, 0.95) 0%, rgba(235, 248, 255, 0.85) 100%)',
+                  backdropFilter: 'blur(12px)',
+                  WebkitBackdropFilter: 'blur(12px)',
+                  border: '1px solid #FFFFFF',
+                  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 10px 15px -3px rgba(0, 0, 0, 0.05), inset 0 0 0 1px rgba(255, 255, 255, 1.0)',
+                  color: '#0F172A',
+                  fontSize: '16px',
+                  fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, sans-serif',
+                  fontWeight: 500,
+                  letterSpacing: '-0.02em',
+                  lineHeight: '1.42',
+                  textAlign: 'right',
+                  direction: 'rtl',
+                }}>
+                  <p style={{ margin: 0, whiteSpace: 'pre-wrap' }}>{partialReply}</p>
+                </div>
+              ) : (
+                <div style={{
+                  padding: '18px 24px',
+                  borderRadius: '24px 24px 6px 24px',
+                  background: 'linear-gradient(145deg, rgba(255, 255, 255, 0.95) 0%, rgba(235, 248, 255, 0.85) 100%)',
+                  backdropFilter: 'blur(12px)',
+                  WebkitBackdropFilter: 'blur(12px)',
+                  border: '1px solid #FFFFFF',
+                  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 10px 15px -3px rgba(0, 0, 0, 0.05), inset 0 0 0 1px rgba(255, 255, 255, 1.0)',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                }}>
+                  <span className="typing-dot" style={{
+                    width: '10px',
+                    height: '10px',
+                    borderRadius: '50%',
+                    background: '#A78BFA',
+                  }} />
+                  <span className="typing-dot" style={{
+                    width: '10px',
+                    height: '10px',
+                    borderRadius: '50%',
+                    background: '#38BDF8',
+                  }} />
+                  <span className="typing-dot" style={{
+                    width: '10px',
+                    height: '10px',
+                    borderRadius: '50%',
+                    background: '#C084FC',
+                  }} />
+                </div>
+              )}
             </div>
           )}
 
@@ -1043,32 +1194,42 @@ export function GlassOnboarding({ onComplete }: GlassOnboardingProps) {
             />
 
             <button
-              className={inputValue.trim() && !isLoading ? 'btn-haptic send-btn-active' : ''}
-              onClick={handleSend}
-              disabled={!inputValue.trim() || isLoading}
+              className={inputValue.trim() || isLoading ? 'btn-haptic send-btn-active' : ''}
+              onClick={isLoading ? cancelReply : () => handleSend()}
+              disabled={!inputValue.trim() && !isLoading}
+              aria-label={isLoading ? 'עצור תשובה' : 'שלח'}
               style={{
                 width: '40px',
                 height: '40px',
                 display: 'flex',
                 alignItems: 'center',
                 justifyContent: 'center',
-                background: isLoading || !inputValue.trim()
+                background: !isLoading && !inputValue.trim()
                   ? 'rgba(200, 200, 220, 0.3)'
                   : 'linear-gradient(135deg, #8B2A9B 0%, #5B3A8C 100%)',
                 borderRadius: '50%',
                 border: 'none',
-                cursor: isLoading || !inputValue.trim() ? 'not-allowed' : 'pointer',
+                cursor: !isLoading && !inputValue.trim() ? 'not-allowed' : 'pointer',
                 boxShadow: '0 4px 16px rgba(139, 42, 155, 0.25)',
                 transition: 'all 0.2s ease',
                 flexShrink: 0,
               }}
             >
-              <SendIcon />
+              {isLoading ? <StopIcon /> : <SendIcon />}
             </button>
           </div>
         </div>
       </div>
 
+      {pendingDraft && (
+        <ResumeDraftPrompt
+          isOpen
+          savedAt={pendingDraft.saved_at}
+          location={conversationStageLabels[pendingDraft.state.currentStage]}
+          onResume={handleResumeDraft}
+          onDiscard={discardDraft}
+        />
+      )}
     </div>
   );
 }
@@ -1,74 +1,85 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
 import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
 import { ProgressBar } from './ProgressBar';
 import { PathSelection } from './PathSelection';
-import { WebsiteScan } from './WebsiteScan';
-import { ChatQuestionnaire } from './ChatQuestionnaire';
-import { FixedQuestionnaire } from './FixedQuestionnaire';
-import { CompetitorUrls } from './CompetitorUrls';
-import Summary from './Summary';
+import { FLOW_STEP_COMPONENTS } from './flow-steps';
 import { CompetitionPrompt } from '../ads-research/CompetitionPrompt';
+import { ResumeDraftPrompt } from './ResumeDraftPrompt';
 import {
   WizardState,
   WizardPath,
   OnboardingData,
-  DynamicQuestion,
   UrlValidationResult,
   initialWizardState,
   QuestionnaireAnswers,
+  FieldError,
+  WizardDraftState,
+  ExtractedField,
 } from '@/types/onboarding';
-import { safeToonEncodeString } from '@/lib/toon-utils';
-
-interface ScanWebsiteResponse {
-  success: boolean;
-  data?: {
-    url: string;
-    raw_title: string;
-    raw_content: string;
-    company_name?: string;
-    industry?: string;
-    mission?: string;
-    products_services?: string[];
-    target_audience?: string;
-    unique_value_proposition?: string;
-    brand_voice?: string;
-    key_messaging?: string[];
-    visual_elements?: {
-      colors: string[];
-      has_logo: boolean;
-    };
-    gaps?: string[];
-  };
-  error?: string;
-}
-
-interface GenerateQuestionsResponse {
-  success: boolean;
-  questions?: DynamicQuestion[];
-  error?: string;
-}
-
-interface ValidateUrlsResponse {
-  success: boolean;
-  results?: UrlValidationResult[];
-  summary?: {
-    valid: string[];
-    invalid: { url: string; error?: string }[];
-  };
-  error?: string;
-}
-
-interface SaveProfileResponse {
-  success: boolean;
-  profile?: {
-    id: string;
-    company_name: string;
-    onboarding_completed: boolean;
-  };
-  error?: string;
+import { useOnboardingDraft } from '@/hooks/use-onboarding-draft';
+import {
+  flowPathForSource,
+  flowStepIndex,
+  flowStepLabels,
+  getFlowPath,
+  getFlowStep,
+} from '@/lib/onboarding-flow';
+import { guardWizardRoute, parseWizardUrl, wizardRouteToUrl } from '@/lib/wizard-routes';
+import { downloadOnboardingFile, postOnboardingApi, requestOnboardingApi } from '@/lib/onboarding-api';
+import { toOnboardingData, toSaveProfileRequest } from '@/lib/profile-payload';
+import { fieldErrorsByField } from '@/lib/schema';
+import { extractionConfidence, fieldsNeedingReview } from '@/lib/questionnaire-extraction';
+import { toQuestionnaireAnswers, type QuestionnaireAnswerValue } from '@/lib/questionnaire-fields';
+import { DEFAULT_READINESS_GATE, type ReadinessGate } from '@/lib/profile-score';
+import { briefDate, briefFilename, type BrandBriefExportKind } from '@/lib/brand-brief';
+import type { ProfileImport } from '@/lib/profile-import';
+import {
+  brandBriefRequestSchema,
+  errorResponseSchema,
+  profileResponseSchema,
+  saveProfileRequestSchema,
+  saveProfileResponseSchema,
+  extractCompetitorsRequestSchema,
+  extractCompetitorsResponseSchema,
+  extractAnswersRequestSchema,
+  extractAnswersResponseSchema,
+  updateProfileRequestSchema,
+  validateUrlsRequestSchema,
+  validateUrlsResponseSchema,
+  wizardDraftStateSchema,
+} from '@/lib/onboarding-schemas';
+
+// Summary edits camelCase display fields - map them back to OnboardingData keys
+const SUMMARY_FIELDS = {
+  companyName: 'company_name',
+  siteUrl: 'site_url',
+  industry: 'industry',
+  mission: 'mission',
+  productsServices: 'products_services',
+  targetAudience: 'target_audience',
+  uniqueValueProposition: 'unique_value_proposition',
+  brandVoice: 'brand_voice',
+  keyMessaging: 'key_messaging',
+} as const satisfies Record<string, keyof OnboardingData>;
+
+type SummaryField = keyof typeof SUMMARY_FIELDS;
+
+// OnboardingData (and save-profile request) key -> Summary field
+const summaryFieldFor = (dataField: string): string =>
+  (Object.keys(SUMMARY_FIELDS) as SummaryField[]).find((f) => SUMMARY_FIELDS[f] === dataField) ??
+  { competitors_valid: 'competitorsValid', competitors_invalid: 'competitorsInvalid' }[dataField] ??
+  dataField;
+
+// save-profile field errors are keyed by request field - show them on the matching Summary field
+function toSummaryFieldErrors(fieldErrors: FieldError[]): Record<string, string> {
+  const byDataField = fieldErrorsByField(fieldErrors);
+  return Object.fromEntries(
+    Object.entries(byDataField).map(([dataField, message]) => [summaryFieldFor(dataField), message])
+  );
 }
 
 interface OnboardingWizardProps {
@@ -78,19 +89,37 @@ interface OnboardingWizardProps {
   onComplete?: () => void;
   /** Admin mode - skips user-specific checks */
   isAdminMode?: boolean;
+  /** Load this saved profile and open it in the Summary step for editing */
+  profileId?: string;
+  /**
+   * Give every step its own URL under this path (e.g. /onboarding/website/scan),
+   * so browser back/forward and deep links work. Without it steps live in state only.
+   */
+  basePath?: string;
+  /** Completing with critical profile fields empty: confirm first (`warn`) or not allowed (`block`) */
+  readinessGate?: ReadinessGate;
 }
 
 export function OnboardingWizard({
   redirectPath = '/',
   onComplete,
-  isAdminMode = false
+  isAdminMode = false,
+  profileId,
+  basePath,
+  readinessGate = DEFAULT_READINESS_GATE,
 }: OnboardingWizardProps = {}) {
   const router = useRouter();
+  const pathname = usePathname();
   const [state, setState] = useState<WizardState>(initialWizardState);
+  // Set once the profile exists in the store - later saves update it instead of creating another
+  const [savedProfileId, setSavedProfileId] = useState<string | null>(profileId ?? null);
   const [isLoading, setIsLoading] = useState({
+    loadingProfile: !!profileId,
     scanning: false,
     generatingQuestions: false,
     validatingUrls: false,
+    extractingCompetitors: false,
+    extractingAnswers: false,
     submitting: false,
   });
 
@@ -98,19 +127,162 @@ export function OnboardingWizard({
   const [questionnaireAnswers, setQuestionnaireAnswers] = useState<Partial<QuestionnaireAnswers>>({});
   const [competitorUrls, setCompetitorUrls] = useState<string[]>(['']);
   const [urlValidationResults, setUrlValidationResults] = useState<UrlValidationResult[]>([]);
+  const [summaryFieldErrors, setSummaryFieldErrors] = useState<Record<string, string>>({});
+  const [exportingBrief, setExportingBrief] = useState<BrandBriefExportKind | null>(null);
 
   // Competition prompt state
   const [showCompetitionPrompt, setShowCompetitionPrompt] = useState(false);
 
-  // Step definitions based on path
-  const getSteps = useCallback((): string[] => {
-    if (state.path === 'has-website') {
-      return ['בחירת נתיב', 'סריקת אתר', 'שאלון השלמה', 'מתחרים', 'סיכום'];
-    } else if (state.path === 'no-website') {
-      return ['בחירת נתיב', 'שאלון', 'מתחרים', 'סיכום'];
+  // URL -> state: deep links and back/forward, clamped so steps can't be skipped
+  const expectedUrlRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!basePath) return;
+
+    const currentUrl = wizardRouteToUrl({ path: state.path, step: state.currentStep }, basePath);
+    if (pathname === currentUrl) return;
+
+    const target = guardWizardRoute(parseWizardUrl(pathname, basePath), state.data);
+    const targetUrl = wizardRouteToUrl(target, basePath);
+    if (targetUrl !== pathname) {
+      window.history.replaceState(null, '', targetUrl + window.location.search);
+    }
+    if (targetUrl === currentUrl) return;
+
+    // Tell the state -> URL effect not to push the state we're replacing
+    expectedUrlRef.current = targetUrl;
+    setState(prev => ({
+      ...prev,
+      path: target.path,
+      currentStep: target.step,
+      data: target.path && target.path !== prev.path
+        ? { ...prev.data, source: getFlowPath(target.path)?.source ?? prev.data.source }
+        : prev.data,
+    }));
+    // Only URL changes drive this effect - state changes are handled below
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pathname, basePath]);
+
+  // State -> URL: every step change becomes a history entry
+  useEffect(() => {
+    if (!basePath) return;
+
+    const url = wizardRouteToUrl({ path: state.path, step: state.currentStep }, basePath);
+    if (expectedUrlRef.current) {
+      if (url !== expectedUrlRef.current) return;
+      expectedUrlRef.current = null;
     }
-    return ['בחירת נתיב'];
-  }, [state.path]);
+    if (url !== window.location.pathname) {
+      window.history.pushState(null, '', url + window.location.search);
+    }
+  }, [state.path, state.currentStep, basePath]);
+
+  // Draft autosave - editing a stored profile doesn't need one
+  const draftSnapshot = useMemo<WizardDraftState>(() => ({
+    wizard: state,
+    competitorUrls,
+    questionnaireAnswers,
+    profileId: savedProfileId,
+  }), [state, competitorUrls, questionnaireAnswers, savedProfileId]);
+
+  const {
+    pendingDraft,
+    resume: resumeDraft,
+    discard: discardDraft,
+    clear: clearDraft,
+    finish: finishDraft,
+  } = useOnboardingDraft('wizard', draftSnapshot, {
+    enabled: !profileId && state.currentStep > 0,
+    stateSchema: wizardDraftStateSchema,
+  });
+
+  const handleResumeDraft = useCallback(() => {
+    const saved = resumeDraft();
+    if (!saved) return;
+    setState(saved.wizard);
+    setCompetitorUrls(saved.competitorUrls.length > 0 ? saved.competitorUrls : ['']);
+    setQuestionnaireAnswers(saved.questionnaireAnswers);
+    setSavedProfileId(saved.profileId);
+  }, [resumeDraft]);
+
+  // API call: Load an existing profile for editing
+  useEffect(() => {
+    if (!profileId) return;
+
+    const controller = new AbortController();
+
+    const loadProfile = async () => {
+      try {
+        const response = await requestOnboardingApi(`/api/onboarding/profile/${encodeURIComponent(profileId)}`, {
+          responseSchema: profileResponseSchema,
+          signal: controller.signal,
+        });
+
+        const profile = response.ok ? response.data.profile : undefined;
+        if (!profile) {
+          const notFound = response.ok || response.status === 404;
+          toast.error(notFound ? 'הפרופיל לא נמצא' : 'שגיאה בטעינת הפרופיל');
+          return;
+        }
+
+        const data = toOnboardingData(profile);
+        const path = (flowPathForSource(data.source) ?? flowPathForSource('questionnaire'))?.id ?? null;
+        const competitorList = [...data.competitors.urls_valid, ...data.competitors.urls_invalid];
+
+        setState({ path, currentStep: Math.max(flowStepIndex(path, 'summary'), 0), data });
+        setQuestionnaireAnswers(data.questionnaire_answers ?? {});
+        setCompetitorUrls(competitorList.length > 0 ? competitorList : ['']);
+        setSavedProfileId(profile.id);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('[OnboardingWizard] Load profile error:', error);
+        toast.error('שגיאה בטעינת הפרופיל');
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(prev => ({ ...prev, loadingProfile: false }));
+        }
+      }
+    };
+
+    loadProfile();
+    return () => controller.abort();
+  }, [profileId]);
+
+  // API call: Scan the validated competitor sites for the Summary comparison
+  const extractCompetitorProfiles = useCallback(async (urls: string[]): Promise<void> => {
+    setIsLoading(prev => ({ ...prev, extractingCompetitors: true }));
+
+    try {
+      const response = await postOnboardingApi(
+        '/api/onboarding/extract-competitors',
+        { urls },
+        { requestSchema: extractCompetitorsRequestSchema, responseSchema: extractCompetitorsResponseSchema }
+      );
+
+      if (!response.ok) {
+        toast.error(response.error || 'שגיאה בניתוח אתרי המתחרים');
+        return;
+      }
+
+      const profiles = response.data.profiles ?? [];
+      setState(prev => ({
+        ...prev,
+        data: {
+          ...prev.data,
+          competitors: { ...prev.data.competitors, profiles },
+        },
+      }));
+
+      const failedCount = profiles.filter(p => p.error).length;
+      if (failedCount > 0) {
+        toast.warning(`לא ניתן היה לנתח ${failedCount} מאתרי המתחרים`);
+      }
+    } catch (error) {
+      console.error('[OnboardingWizard] Extract competitors error:', error);
+      toast.error('שגיאה בניתוח אתרי המתחרים');
+    } finally {
+      setIsLoading(prev => ({ ...prev, extractingCompetitors: false }));
+    }
+  }, []);
 
   // API call: Validate competitor URLs
   const handleValidateUrls = useCallback(async (): Promise<void> => {
@@ -122,19 +294,19 @@ export function OnboardingWizard({
     setIsLoading(prev => ({ ...prev, validatingUrls: true }));
 
     try {
-      const response = await fetch('/api/onboarding/validate-urls', {
-        method: 'POST',
-        headers: { 'Content-Type': 'text/plain' },
-        body: safeToonEncodeString({ urls: nonEmptyUrls }),
-      });
-
-      const result: ValidateUrlsResponse = await response.json();
-
-      if (!response.ok || !result.success) {
-        toast.error(result.error || 'שגיאה באימות כתובות');
+      const response = await postOnboardingApi(
+        '/api/onboarding/validate-urls',
+        { urls: nonEmptyUrls, site_url: state.data.site_url },
+        { requestSchema: validateUrlsRequestSchema, responseSchema: validateUrlsResponseSchema }
+      );
+
+      if (!response.ok) {
+        toast.error(response.fieldErrors[0]?.message || response.error || 'שגיאה באימות כתובות');
         return;
       }
 
+      const result = response.data;
+
       setUrlValidationResults(result.results || []);
 
       setState(prev => ({
@@ -156,48 +328,56 @@ export function OnboardingWizard({
       } else if (validCount > 0) {
         toast.success('כל הכתובות תקינות');
       }
+
+      if (validCount > 0) {
+        await extractCompetitorProfiles(result.summary?.valid ?? []);
+      }
     } catch (error) {
       console.error('[OnboardingWizard] Validate URLs error:', error);
       toast.error('שגיאה באימות כתובות');
     } finally {
       setIsLoading(prev => ({ ...prev, validatingUrls: false }));
     }
-  }, [competitorUrls]);
+  }, [competitorUrls, state.data.site_url, extractCompetitorProfiles]);
 
   // API call: Save profile to database
   const handleSaveProfile = useCallback(async (): Promise<boolean> => {
     setIsLoading(prev => ({ ...prev, submitting: true }));
 
     try {
-      const response = await fetch('/api/onboarding/save-profile', {
-        method: 'POST',
-        headers: { 'Content-Type': 'text/plain' },
-        body: safeToonEncodeString({
-          source: state.data.source,
-          site_url: state.data.site_url,
-          company_name: state.data.company_name,
-          industry: state.data.industry,
-          mission: state.data.mission,
-          products_services: state.data.products_services,
-          target_audience: state.data.target_audience,
-          unique_value_proposition: state.data.unique_value_proposition,
-          brand_voice: state.data.brand_voice,
-          key_messaging: state.data.key_messaging,
-          questionnaire_answers: state.data.questionnaire_answers,
-          dynamic_questionnaire: state.data.dynamic_questionnaire,
-          competitors_valid: state.data.competitors.urls_valid,
-          competitors_invalid: state.data.competitors.urls_invalid,
-          onboarding_completed: true,
-        }),
-      });
-
-      const result: SaveProfileResponse = await response.json();
-
-      if (!response.ok || !result.success) {
-        toast.error(result.error || 'שגיאה בשמירת הפרופיל');
+      const payload = {
+        ...toSaveProfileRequest(state.data),
+        author: isAdminMode ? 'admin' : 'client',
+      };
+
+      // Editing an existing profile updates it in place
+      const response = savedProfileId
+        ? await requestOnboardingApi(`/api/onboarding/profile/${encodeURIComponent(savedProfileId)}`, {
+            method: 'PATCH',
+            body: payload,
+            requestSchema: updateProfileRequestSchema,
+            responseSchema: profileResponseSchema,
+          })
+        : await postOnboardingApi('/api/onboarding/save-profile', payload, {
+            requestSchema: saveProfileRequestSchema,
+            responseSchema: saveProfileResponseSchema,
+          });
+
+      if (!response.ok) {
+        if (response.fieldErrors.length > 0) {
+          setSummaryFieldErrors(toSummaryFieldErrors(response.fieldErrors));
+          toast.error('יש שדות שדורשים תיקון');
+        } else {
+          toast.error(response.error || 'שגיאה בשמירת הפרופיל');
+        }
         return false;
       }
 
+      setSummaryFieldErrors({});
+      finishDraft();
+      if (response.data.profile) {
+        setSavedProfileId(response.data.profile.id);
+      }
       toast.success('הפרופיל נשמר בהצלחה!');
       return true;
     } catch (error) {
@@ -207,6 +387,62 @@ export function OnboardingWizard({
     } finally {
       setIsLoading(prev => ({ ...prev, submitting: false }));
     }
+  }, [state.data, savedProfileId, isAdminMode, finishDraft]);
+
+  // API call: Export the profile as a brand brief - PDF opens the print-ready HTML in a new tab
+  const handleExportBrief = useCallback(async (kind: BrandBriefExportKind): Promise<void> => {
+    const format = kind === 'pdf' ? 'html' : kind;
+    // Opened before the request so the popup blocker sees the click
+    const printWindow = kind === 'pdf' ? window.open('', '_blank') : null;
+    setExportingBrief(kind);
+
+    try {
+      const response = await downloadOnboardingFile(
+        '/api/onboarding/brand-brief',
+        { profile: toSaveProfileRequest(state.data), format, print: kind === 'pdf' },
+        {
+          // Free text (messages, audience) must round-trip unchanged
+          encoding: 'json',
+          requestSchema: brandBriefRequestSchema,
+          errorSchema: errorResponseSchema,
+          fallbackFilename: briefFilename(state.data.company_name, format, briefDate()),
+        }
+      );
+
+      if (!response.ok) {
+        printWindow?.close();
+        if (response.fieldErrors.length > 0) {
+          setSummaryFieldErrors(
+            toSummaryFieldErrors(
+              response.fieldErrors.map(({ path, message }) => ({ path: path.replace(/^profile\./, ''), message }))
+            )
+          );
+          toast.error('יש שדות שדורשים תיקון');
+        } else {
+          toast.error(response.error || 'שגיאה בייצוא הבריף');
+        }
+        return;
+      }
+
+      const url = URL.createObjectURL(response.data.blob);
+      if (printWindow) {
+        printWindow.location.href = url;
+      } else {
+        // Also the PDF fallback when the new tab was blocked - the HTML prints the same
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = response.data.filename;
+        link.click();
+      }
+      // The tab or download has the file by then
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (error) {
+      printWindow?.close();
+      console.error('[OnboardingWizard] Export brief error:', error);
+      toast.error('שגיאה בייצוא הבריף');
+    } finally {
+      setExportingBrief(null);
+    }
   }, [state.data]);
 
   // Navigation: Path selection
@@ -217,7 +453,7 @@ export function OnboardingWizard({
       currentStep: 1,
       data: {
         ...prev.data,
-        source: path === 'has-website' ? 'website' : 'questionnaire',
+        source: getFlowPath(path)?.source ?? prev.data.source,
       },
     }));
   }, []);
@@ -246,7 +482,10 @@ export function OnboardingWizard({
     setQuestionnaireAnswers({});
     setCompetitorUrls(['']);
     setUrlValidationResults([]);
-  }, []);
+    setSummaryFieldErrors({});
+    setSavedProfileId(null);
+    clearDraft();
+  }, [clearDraft]);
 
   // WebsiteScan: Handle data change
   const handleWebsiteDataChange = useCallback((newData: OnboardingData) => {
@@ -273,29 +512,53 @@ export function OnboardingWizard({
   }, [handleNext]);
 
   // FixedQuestionnaire: Handle answer change
-  const handleQuestionnaireAnswerChange = useCallback((field: keyof QuestionnaireAnswers, value: string) => {
+  const handleQuestionnaireAnswerChange = useCallback((field: keyof QuestionnaireAnswers, value: QuestionnaireAnswerValue) => {
     setQuestionnaireAnswers(prev => ({ ...prev, [field]: value }));
   }, []);
 
-  // FixedQuestionnaire: Handle next (transform answers to structured data)
-  const handleFixedQuestionnaireNext = useCallback(() => {
-    const answers = questionnaireAnswers as QuestionnaireAnswers;
-    setState(prev => ({
-      ...prev,
-      data: {
-        ...prev.data,
-        questionnaire_answers: answers,
-        company_name: extractCompanyName(answers),
-        industry: extractIndustry(answers),
-        mission: answers.additional_info || '',
-        products_services: extractProducts(answers.services || ''),
-        target_audience: extractTargetAudience(answers),
-        unique_value_proposition: answers.advantages || '',
-        brand_voice: answers.tone || '',
-        key_messaging: extractKeyMessages(answers.key_messages || ''),
-      },
-    }));
-    handleNext();
+  // FixedQuestionnaire: Handle next (extract structured data from the answers)
+  const handleFixedQuestionnaireNext = useCallback(async (): Promise<void> => {
+    const answers = toQuestionnaireAnswers(questionnaireAnswers);
+
+    setIsLoading(prev => ({ ...prev, extractingAnswers: true }));
+
+    try {
+      const response = await postOnboardingApi(
+        '/api/onboarding/extract-answers',
+        { answers },
+        { requestSchema: extractAnswersRequestSchema, responseSchema: extractAnswersResponseSchema }
+      );
+
+      if (!response.ok || !response.data.extraction) {
+        const message = response.ok ? undefined : response.fieldErrors[0]?.message || response.error;
+        toast.error(message || 'שגיאה בעיבוד התשובות');
+        return;
+      }
+
+      const extraction = response.data.extraction;
+      setState(prev => ({
+        ...prev,
+        data: {
+          ...prev.data,
+          questionnaire_answers: answers,
+          company_name: extraction.company_name.value,
+          industry: extraction.industry.value,
+          mission: answers.additional_info || '',
+          products_services: extraction.products_services.value,
+          target_audience: extraction.target_audience.value,
+          unique_value_proposition: answers.advantages || '',
+          brand_voice: answers.tone || '',
+          key_messaging: extraction.key_messaging.value,
+          field_confidence: extractionConfidence(extraction),
+        },
+      }));
+      handleNext();
+    } catch (error) {
+      console.error('[OnboardingWizard] Extract answers error:', error);
+      toast.error('שגיאה בעיבוד התשובות');
+    } finally {
+      setIsLoading(prev => ({ ...prev, extractingAnswers: false }));
+    }
   }, [questionnaireAnswers, handleNext]);
 
   // CompetitorUrls: Handlers
@@ -325,15 +588,44 @@ export function OnboardingWizard({
     handleNext();
   }, [handleNext]);
 
+  // Profile import: Open Summary with the file's data
+  const handleProfileImport = useCallback(({ data, imported }: ProfileImport) => {
+    const competitorList = [...data.competitors.urls_valid, ...data.competitors.urls_invalid];
+
+    setState(prev => ({ ...prev, currentStep: flowStepIndex(prev.path, 'summary'), data }));
+    setQuestionnaireAnswers(data.questionnaire_answers ?? {});
+    setCompetitorUrls(competitorList.length > 0 ? competitorList : ['']);
+    setUrlValidationResults([]);
+    setSummaryFieldErrors({});
+    toast.success(`יובאו ${imported.length} שדות מהקובץ`);
+  }, []);
+
   // Summary: Handle data change
-  const handleSummaryDataChange = useCallback((field: string, value: any) => {
-    setState(prev => ({
-      ...prev,
-      data: {
-        ...prev.data,
-        [field]: value,
-      },
-    }));
+  const handleSummaryDataChange = useCallback((field: string, value: string | string[]) => {
+    const dataField = SUMMARY_FIELDS[field as SummaryField];
+    if (!dataField) {
+      console.warn(`[OnboardingWizard] Unknown summary field: ${field}`);
+      return;
+    }
+    setState(prev => {
+      // An edited field is the user's own - no longer up for review
+      const fieldConfidence = prev.data.field_confidence && { ...prev.data.field_confidence };
+      delete fieldConfidence?.[dataField as ExtractedField];
+      return {
+        ...prev,
+        data: {
+          ...prev.data,
+          [dataField]: value,
+          field_confidence: fieldConfidence,
+        },
+      };
+    });
+    setSummaryFieldErrors(prev => {
+      if (!(field in prev)) return prev;
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
   }, []);
 
   // Summary: Handle complete
@@ -358,142 +650,59 @@ export function OnboardingWizard({
   // Competition prompt: Continue to ads research
   const handleContinueToResearch = useCallback(() => {
     setShowCompetitionPrompt(false);
-    const services = state.data.products_services.join(',');
-    const companyName = encodeURIComponent(state.data.company_name || '');
-    router.push(`/ads-research?services=${encodeURIComponent(services)}&companyName=${companyName}`);
-  }, [router, state.data.products_services, state.data.company_name]);
+    const params = new URLSearchParams({ companyName: state.data.company_name || '' });
+    state.data.products_services.forEach((service) => params.append('services', service));
+    if (savedProfileId) params.set('profile', savedProfileId);
+    router.push(`/ads-research?${params}`);
+  }, [router, state.data.products_services, state.data.company_name, savedProfileId]);
 
   // Render current step
   const renderStep = () => {
-    if (state.currentStep === 0) {
-      return <PathSelection onSelectPath={handlePathSelect} />;
+    if (isLoading.loadingProfile) {
+      return (
+        <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          טוען פרופיל...
+        </div>
+      );
     }
 
-    if (state.path === 'has-website') {
-      // Website path steps
-      switch (state.currentStep) {
-        case 1:
-          return (
-            <WebsiteScan
-              data={state.data}
-              onDataChange={handleWebsiteDataChange}
-              onNext={handleNext}
-              onBack={handleBack}
-            />
-          );
-        case 2:
-          return (
-            <ChatQuestionnaire
-              onComplete={handleConversationalComplete}
-              businessContext={{
-                companyName: state.data.company_name,
-                industry: state.data.industry,
-                services: state.data.products_services,
-              }}
-            />
-          );
-        case 3:
-          return (
-            <CompetitorUrls
-              urls={competitorUrls}
-              validationResults={urlValidationResults}
-              onUrlChange={handleUrlChange}
-              onAddUrl={handleAddUrl}
-              onRemoveUrl={handleRemoveUrl}
-              onValidate={handleValidateUrls}
-              onNext={handleCompetitorUrlsNext}
-              isValidating={isLoading.validatingUrls}
-            />
-          );
-        case 4:
-          return (
-            <Summary
-              data={{
-                source: state.data.source || 'website',
-                siteUrl: state.data.site_url || undefined,
-                companyName: state.data.company_name,
-                industry: state.data.industry || undefined,
-                mission: state.data.mission || undefined,
-                productsServices: state.data.products_services,
-                targetAudience: state.data.target_audience || undefined,
-                uniqueValueProposition: state.data.unique_value_proposition || undefined,
-                brandVoice: state.data.brand_voice || undefined,
-                keyMessaging: state.data.key_messaging,
-                competitorsValid: state.data.competitors.urls_valid,
-                competitorsInvalid: state.data.competitors.urls_invalid,
-                questionnaireAnswers: (state.data.questionnaire_answers ?? undefined) as Record<string, string> | undefined,
-                // Visual branding
-                logoUrl: state.data.logo_url || undefined,
-                brandColors: state.data.brand_colors || undefined,
-                brandFonts: state.data.brand_fonts || undefined,
-              }}
-              onDataChange={handleSummaryDataChange}
-              onStartOver={handleStartOver}
-              onComplete={handleSummaryComplete}
-              isSubmitting={isLoading.submitting}
-            />
-          );
-        default:
-          return null;
-      }
-    } else if (state.path === 'no-website') {
-      // Questionnaire path steps
-      switch (state.currentStep) {
-        case 1:
-          return (
-            <FixedQuestionnaire
-              answers={questionnaireAnswers}
-              onAnswerChange={handleQuestionnaireAnswerChange}
-              onNext={handleFixedQuestionnaireNext}
-            />
-          );
-        case 2:
-          return (
-            <CompetitorUrls
-              urls={competitorUrls}
-              validationResults={urlValidationResults}
-              onUrlChange={handleUrlChange}
-              onAddUrl={handleAddUrl}
-              onRemoveUrl={handleRemoveUrl}
-              onValidate={handleValidateUrls}
-              onNext={handleCompetitorUrlsNext}
-              isValidating={isLoading.validatingUrls}
-            />
-          );
-        case 3:
-          return (
-            <Summary
-              data={{
-                source: state.data.source || 'questionnaire',
-                siteUrl: state.data.site_url || undefined,
-                companyName: state.data.company_name,
-                industry: state.data.industry || undefined,
-                mission: state.data.mission || undefined,
-                productsServices: state.data.products_services,
-                targetAudience: state.data.target_audience || undefined,
-                uniqueValueProposition: state.data.unique_value_proposition || undefined,
-                brandVoice: state.data.brand_voice || undefined,
-                keyMessaging: state.data.key_messaging,
-                competitorsValid: state.data.competitors.urls_valid,
-                competitorsInvalid: state.data.competitors.urls_invalid,
-                questionnaireAnswers: (state.data.questionnaire_answers ?? undefined) as Record<string, string> | undefined,
-                // Visual branding (usually empty for questionnaire path)
-                logoUrl: state.data.logo_url || undefined,
-                brandColors: state.data.brand_colors || undefined,
-                brandFonts: state.data.brand_fonts || undefined,
-              }}
-              onDataChange={handleSummaryDataChange}
-              onStartOver={handleStartOver}
-              onComplete={handleSummaryComplete}
-              isSubmitting={isLoading.submitting}
-            />
-          );
-        default:
-          return null;
-      }
+    const flowPath = getFlowPath(state.path);
+    const flowStep = getFlowStep(state.path, state.currentStep);
+    if (!flowPath || !flowStep) {
+      return <PathSelection onSelectPath={handlePathSelect} />;
     }
 
-    return null;
+    return FLOW_STEP_COMPONENTS[flowStep.id]({
+      state,
+      flowPath,
+      questionnaireAnswers,
+      competitorUrls,
+      urlValidationResults,
+      summaryFieldErrors,
+      summaryReviewFields: fieldsNeedingReview(state.data.field_confidence).map(summaryFieldFor),
+      readinessGate,
+      isValidatingUrls: isLoading.validatingUrls || isLoading.extractingCompetitors,
+      isExtractingAnswers: isLoading.extractingAnswers,
+      isSubmitting: isLoading.submitting,
+      exportingBrief,
+      onNext: handleNext,
+      onBack: handleBack,
+      onWebsiteDataChange: handleWebsiteDataChange,
+      onConversationalComplete: handleConversationalComplete,
+      onQuestionnaireAnswerChange: handleQuestionnaireAnswerChange,
+      onFixedQuestionnaireNext: handleFixedQuestionnaireNext,
+      onUrlChange: handleUrlChange,
+      onAddUrl: handleAddUrl,
+      onRemoveUrl: handleRemoveUrl,
+      onValidateUrls: handleValidateUrls,
+      onCompetitorUrlsNext: handleCompetitorUrlsNext,
+      onProfileImport: handleProfileImport,
+      onSummaryDataChange: handleSummaryDataChange,
+      onStartOver: handleStartOver,
+      onSummaryComplete: handleSummaryComplete,
+      onExportBrief: handleExportBrief,
+    });
   };
 
   return (
@@ -506,11 +715,21 @@ export function OnboardingWizard({
           </p>
         </div>
 
-        <ProgressBar steps={getSteps()} currentStep={state.currentStep} totalSteps={getSteps().length} />
+        <ProgressBar steps={flowStepLabels(state.path)} currentStep={state.currentStep} />
 
         <div className="mt-8">{renderStep()}</div>
       </div>
 
+      {pendingDraft && !profileId && (
+        <ResumeDraftPrompt
+          isOpen
+          savedAt={pendingDraft.saved_at}
+          location={draftLocation(pendingDraft.state)}
+          onResume={handleResumeDraft}
+          onDiscard={discardDraft}
+        />
+      )}
+
       <CompetitionPrompt
         isOpen={showCompetitionPrompt}
         onSkip={handleSkipCompetition}
@@ -520,47 +739,7 @@ export function OnboardingWizard({
   );
 }
 
-// Helper functions to transform questionnaire answers into structured data
-
-function extractCompanyName(answers: QuestionnaireAnswers): string {
-  // Try to extract company name from services or additional info
-  const servicesWords = (answers.services || '').split(' ');
-  return servicesWords[0] || 'החברה שלי';
-}
-
-function extractIndustry(answers: QuestionnaireAnswers): string {
-  const services = (answers.services || '').toLowerCase();
-  if (services.includes('טכנולוגיה') || services.includes('תוכנה')) return 'טכנולוגיה';
-  if (services.includes('שיווק') || services.includes('פרסום')) return 'שיווק ופרסום';
-  if (services.includes('ייעוץ')) return 'ייעוץ';
-  if (services.includes('אופנה') || services.includes('בגדים')) return 'אופנה';
-  if (services.includes('מזון') || services.includes('מסעדה')) return 'מזון ומסעדנות';
-  return 'כללי';
-}
-
-function extractProducts(servicesText: string): string[] {
-  return servicesText
-    .split(/[,،\/\n]/)
-    .map(s => s.trim())
-    .filter(s => s.length > 0)
-    .slice(0, 10);
-}
-
-function extractTargetAudience(answers: QuestionnaireAnswers): string {
-  const tone = answers.tone || '';
-  if (tone.includes('מקצועי') || tone.includes('עסקי')) {
-    return 'עסקים וארגונים';
-  }
-  if (tone.includes('צעיר') || tone.includes('דינמי')) {
-    return 'קהל צעיר ודינמי';
-  }
-  return 'קהל רחב';
-}
-
-function extractKeyMessages(messagesText: string): string[] {
-  return messagesText
-    .split(/[,،\/\n]/)
-    .map(s => s.trim())
-    .filter(s => s.length > 0)
-    .slice(0, 5);
+// Step name shown in the resume prompt
+function draftLocation({ wizard }: WizardDraftState): string | undefined {
+  return getFlowStep(wizard.path, wizard.currentStep)?.label;
 }
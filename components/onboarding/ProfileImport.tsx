@@ -0,0 +1,248 @@
+/**
+ * ProfileImport Component
+ * Reads a profile file (lib/profile-import.ts), lets the user assign fields to
+ * the keys it didn't recognize, and continues to Summary with the result
+ */
+
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { AlertCircle, AlertTriangle, ArrowLeft, CheckCircle2, FileUp, HelpCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import {
+  IMPORT_TARGETS,
+  importProfile,
+  readProfileFile,
+  type ImportMapping,
+  type ImportTargetField,
+  type ProfileImport as ProfileImportResult,
+} from '@/lib/profile-import';
+
+interface ProfileImportProps {
+  onImport: (result: ProfileImportResult) => void;
+  onBack: () => void;
+}
+
+interface LoadedFile {
+  name: string;
+  raw: Record<string, unknown>;
+}
+
+// Larger than any profile - anything bigger is not one
+const MAX_FILE_SIZE = 1024 * 1024;
+
+const fieldLabel = (field: string) => IMPORT_TARGETS[field as ImportTargetField]?.label ?? field;
+
+const preview = (value: string | string[]) => {
+  const text = Array.isArray(value) ? value.join(', ') : value;
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+};
+
+export function ProfileImport({ onImport, onBack }: ProfileImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [isDragging, setIsDragging] = useState(false);
+
+  const result = useMemo(() => (file ? importProfile(file.raw, mapping) : null), [file, mapping]);
+  const hasCompanyName = !!result?.data.company_name.trim();
+
+  const loadFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    setError(null);
+    setMapping({});
+
+    if (selected.size > MAX_FILE_SIZE) {
+      setFile(null);
+      setError('הקובץ גדול מדי');
+      return;
+    }
+
+    const read = readProfileFile(await selected.text());
+    if (!read.success) {
+      setFile(null);
+      setError(read.error);
+      return;
+    }
+    setFile({ name: selected.name, raw: read.data });
+  };
+
+  const handleMappingChange = (key: string, target: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (target) {
+        next[key] = target as ImportTargetField;
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-6" dir="rtl">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            ייבוא פרופיל מקובץ
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            בריף שיוצא מכאן בעבר או פרופיל מסוכנות קודמת, בפורמט JSON או TOON. נמלא את הסיכום מראש ותוכלו לערוך הכל
+            לפני השמירה.
+          </p>
+
+          <div
+            role="button"
+            tabIndex={0}
+            onClick={() => inputRef.current?.click()}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                inputRef.current?.click();
+              }
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              loadFile(e.dataTransfer.files[0]);
+            }}
+            className={cn(
+              'flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-center cursor-pointer transition-all',
+              isDragging ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+            )}
+          >
+            <FileUp className="h-8 w-8 text-muted-foreground" />
+            <p className="font-medium">{file ? file.name : 'גררו לכאן קובץ או לחצו לבחירה'}</p>
+            <p className="text-xs text-muted-foreground">.json, .toon</p>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".json,.toon,.txt,application/json,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                loadFile(e.target.files?.[0]);
+                // Picking the same file again should reload it
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {error && (
+            <p className="flex items-center gap-2 text-sm text-destructive" role="alert">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              {error}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <CheckCircle2 className="h-5 w-5 text-green-600" />
+                שדות שיובאו ({result.imported.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {result.imported.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {result.imported.map((field) => (
+                    <Badge key={field} variant="secondary">
+                      {IMPORT_TARGETS[field].label}
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">לא זיהינו בקובץ אף שדה של הפרופיל</p>
+              )}
+
+              {result.dropped.length > 0 && (
+                <div className="rounded-lg border border-amber-500/50 bg-amber-500/5 p-3 space-y-1">
+                  {result.dropped.map(({ path, message }) => (
+                    <p key={path} className="flex items-start gap-2 text-sm">
+                      <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5 text-amber-600" />
+                      <span>
+                        <span className="font-medium">{fieldLabel(path)}</span> לא יובא - {message}
+                      </span>
+                    </p>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {result.unknown.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <HelpCircle className="h-5 w-5" />
+                  שדות שלא זיהינו ({result.unknown.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  בחרו לאיזה שדה בפרופיל שייך כל ערך, או השאירו &quot;לא לייבא&quot;. טקסט מחליף את הקיים, רשימות
+                  מתווספות.
+                </p>
+                {result.unknown.map(({ key, value }) => (
+                  <div key={key} className="grid gap-2 sm:grid-cols-[1fr_200px] sm:items-center border-b pb-3 last:border-b-0">
+                    <div className="min-w-0">
+                      <p className="font-mono text-xs text-muted-foreground" dir="ltr">
+                        {key}
+                      </p>
+                      <p className="text-sm break-words">{preview(value)}</p>
+                    </div>
+                    <select
+                      value={mapping[key] ?? ''}
+                      onChange={(e) => handleMappingChange(key, e.target.value)}
+                      aria-label={`שדה עבור ${key}`}
+                      className="h-9 w-full rounded-md border border-input bg-background px-3 text-sm"
+                    >
+                      <option value="">לא לייבא</option>
+                      {(Object.keys(IMPORT_TARGETS) as ImportTargetField[]).map((field) => (
+                        <option key={field} value={field}>
+                          {IMPORT_TARGETS[field].label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {!hasCompanyName && (
+            <p className="flex items-center gap-2 text-sm text-destructive" role="alert">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              בקובץ אין שם חברה - בחרו את השדה שמכיל אותו
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="flex justify-between pt-2">
+        <Button variant="outline" onClick={onBack}>
+          חזרה
+        </Button>
+        <Button onClick={() => result && onImport(result)} disabled={!result || !hasCompanyName} className="gap-2">
+          המשך לסיכום
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * ProfileScoreCard Component
+ * Overall profile completeness (lib/profile-score.ts) with a hint for every field that falls short
+ */
+
+'use client';
+
+import { AlertTriangle, CheckCircle2, Gauge } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { ProfileScore, ProfileScoreLevel } from '@/lib/profile-score';
+
+interface ProfileScoreCardProps {
+  score: ProfileScore;
+}
+
+const LEVEL_LABELS: Record<ProfileScoreLevel, string> = {
+  good: 'מוכן לפרסום',
+  fair: 'אפשר לעבוד עם זה',
+  low: 'חסר מידע',
+};
+
+const LEVEL_COLORS: Record<ProfileScoreLevel, string> = {
+  good: 'bg-green-500',
+  fair: 'bg-amber-500',
+  low: 'bg-destructive',
+};
+
+export function ProfileScoreCard({ score }: ProfileScoreCardProps) {
+  const hints = score.fields.filter((field) => field.hint);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-4">
+          <span className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            מוכנות הפרופיל
+          </span>
+          <span className="flex items-center gap-2 text-base font-normal">
+            <Badge variant="outline">{LEVEL_LABELS[score.level]}</Badge>
+            <span className="text-2xl font-bold tabular-nums">{score.score}</span>
+            <span className="text-muted-foreground">/100</span>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          className="h-2 w-full rounded-full bg-muted overflow-hidden"
+          role="progressbar"
+          aria-valuenow={score.score}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-label="מוכנות הפרופיל"
+        >
+          <div className={cn('h-full transition-all', LEVEL_COLORS[score.level])} style={{ width: `${score.score}%` }} />
+        </div>
+
+        {hints.length === 0 ? (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+            יש כאן כל מה שצריך כדי לכתוב מודעות טובות
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {hints.map((field) => (
+              <li key={field.field} className="flex items-start gap-2 text-sm">
+                <AlertTriangle
+                  className={cn(
+                    'h-4 w-4 shrink-0 mt-0.5',
+                    field.critical && field.score === 0 ? 'text-destructive' : 'text-amber-600'
+                  )}
+                />
+                <span>
+                  <span className="font-medium">{field.label}</span>
+                  {field.critical && <span className="text-destructive mr-1">*</span>}
+                  {' - '}
+                  <span className="text-muted-foreground">{field.hint}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
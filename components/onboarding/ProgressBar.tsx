@@ -1,6 +1,7 @@
 /**
  * ProgressBar Component
  * Shows wizard progress with step labels
+ * (labels come from the flow definition - lib/onboarding-flow.ts)
  */
 
 'use client';
@@ -9,20 +10,20 @@ import { cn } from '@/lib/utils';
 import { Check } from 'lucide-react';
 
 interface ProgressBarProps {
+  /** Index into `steps` - 0 is path selection */
   currentStep: number;
-  totalSteps: number;
   steps: string[];
 }
 
-export function ProgressBar({ currentStep, totalSteps, steps }: ProgressBarProps) {
+export function ProgressBar({ currentStep, steps }: ProgressBarProps) {
   return (
     <div className="mb-8">
       {/* Step indicators */}
       <div className="flex items-center justify-center gap-2 mb-4">
         {steps.map((step, index) => {
           const stepNumber = index + 1;
-          const isCompleted = currentStep > stepNumber;
-          const isCurrent = currentStep === stepNumber;
+          const isCompleted = currentStep > index;
+          const isCurrent = currentStep === index;
 
           return (
             <div key={index} className="flex items-center">
@@ -47,7 +48,7 @@ export function ProgressBar({ currentStep, totalSteps, steps }: ProgressBarProps
                 <div
                   className={cn(
                     'w-12 h-1 mx-2 rounded transition-all',
-                    currentStep > stepNumber ? 'bg-primary' : 'bg-muted'
+                    isCompleted ? 'bg-primary' : 'bg-muted'
                   )}
                 />
               )}
@@ -60,8 +61,7 @@ export function ProgressBar({ currentStep, totalSteps, steps }: ProgressBarProps
       <div className="flex justify-center">
         <div className="flex gap-14">
           {steps.map((step, index) => {
-            const stepNumber = index + 1;
-            const isCurrent = currentStep === stepNumber;
+            const isCurrent = currentStep === index;
 
             return (
               <span
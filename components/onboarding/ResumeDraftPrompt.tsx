@@ -0,0 +1,74 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { History, ArrowLeft } from 'lucide-react';
+
+interface ResumeDraftPromptProps {
+  isOpen: boolean;
+  /** ISO timestamp of the draft */
+  savedAt: string;
+  /** Where the user stopped, e.g. the step name */
+  location?: string;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+const relativeTime = new Intl.RelativeTimeFormat('he', { numeric: 'auto' });
+
+function formatSavedAt(savedAt: string): string {
+  const minutes = Math.round((new Date(savedAt).getTime() - Date.now()) / 60000);
+  if (Math.abs(minutes) < 60) return relativeTime.format(minutes, 'minute');
+  const hours = Math.round(minutes / 60);
+  if (Math.abs(hours) < 24) return relativeTime.format(hours, 'hour');
+  return relativeTime.format(Math.round(hours / 24), 'day');
+}
+
+export function ResumeDraftPrompt({
+  isOpen,
+  savedAt,
+  location,
+  onResume,
+  onDiscard,
+}: ResumeDraftPromptProps) {
+  return (
+    <Dialog open={isOpen} onOpenChange={() => {}}>
+      <DialogContent
+        dir="rtl"
+        className="sm:max-w-md"
+        onPointerDownOutside={(e) => e.preventDefault()}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+      >
+        <DialogHeader className="text-center sm:text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <History className="h-6 w-6 text-primary" />
+          </div>
+          <DialogTitle className="text-xl">
+            להמשיך מאיפה שעצרת?
+          </DialogTitle>
+          <DialogDescription className="text-base">
+            מצאנו התקדמות שנשמרה {formatSavedAt(savedAt)}
+            {location && ` - ${location}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter className="flex-col-reverse sm:flex-row sm:justify-center gap-2 mt-4">
+          <Button variant="outline" onClick={onDiscard}>
+            התחל מחדש
+          </Button>
+          <Button onClick={onResume} className="gap-2">
+            המשך מאיפה שעצרתי
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,9 +7,23 @@ import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Copy, Check, RotateCcw, CheckCircle2, Pencil, Save, X, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Copy, Check, RotateCcw, CheckCircle2, Pencil, Save, X, Loader2, AlertCircle, AlertTriangle } from 'lucide-react';
 import { safeToonEncodeString } from '@/lib/toon-utils';
 import { cn } from '@/lib/utils';
+import { CompetitorProfile, QuestionnaireAnswers } from '@/types/onboarding';
+import { DEFAULT_READINESS_GATE, type ProfileScore, type ReadinessGate } from '@/lib/profile-score';
+import type { BrandBriefExportKind } from '@/lib/brand-brief';
+import { CompetitorComparison } from './CompetitorComparison';
+import { ProfileScoreCard } from './ProfileScoreCard';
+import { BrandBriefExport } from './BrandBriefExport';
 
 interface SummaryProps {
   data: {
@@ -25,13 +39,25 @@ interface SummaryProps {
     keyMessaging: string[];
     competitorsValid: string[];
     competitorsInvalid: string[];
-    questionnaireAnswers?: Record<string, string>;
+    competitorProfiles?: CompetitorProfile[];
+    questionnaireAnswers?: QuestionnaireAnswers;
     // Visual branding
     logoUrl?: string;
     brandColors?: string[];
     brandFonts?: string[];
   };
   onDataChange: (field: string, value: any) => void;
+  /** Validation messages from save-profile, keyed by the fields above */
+  fieldErrors?: Record<string, string>;
+  /** Fields the questionnaire extraction wasn't sure of - flagged for the user to check */
+  reviewFields?: string[];
+  /** Completeness of the profile (lib/profile-score.ts) */
+  score: ProfileScore;
+  /** Completing with critical fields empty asks for confirmation (`warn`) or is not allowed (`block`) */
+  readinessGate?: ReadinessGate;
+  /** Download the profile as a brand brief */
+  onExportBrief: (kind: BrandBriefExportKind) => void;
+  exportingBrief: BrandBriefExportKind | null;
   onStartOver: () => void;
   onComplete: () => void;
   isSubmitting: boolean;
@@ -44,9 +70,20 @@ interface EditableFieldProps {
   onSave: (field: string, value: any) => void;
   multiline?: boolean;
   isArray?: boolean;
+  error?: string;
+  needsReview?: boolean;
 }
 
-function EditableField({ label, value, field, onSave, multiline = false, isArray = false }: EditableFieldProps) {
+function EditableField({
+  label,
+  value,
+  field,
+  onSave,
+  multiline = false,
+  isArray = false,
+  error,
+  needsReview = false,
+}: EditableFieldProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(
     isArray ? (value as string[]).join(', ') : (value as string)
@@ -70,7 +107,15 @@ function EditableField({ label, value, field, onSave, multiline = false, isArray
   return (
     <div className="space-y-2">
       <div className="flex items-center justify-between">
-        <label className="text-sm font-medium">{label}</label>
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium">{label}</label>
+          {needsReview && (
+            <Badge variant="outline" className="gap-1 border-amber-500/50 text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="h-3 w-3" />
+              לבדיקה
+            </Badge>
+          )}
+        </div>
         {!isEditing && (
           <Button
             variant="ghost"
@@ -91,12 +136,14 @@ function EditableField({ label, value, field, onSave, multiline = false, isArray
               rows={isArray ? 3 : 4}
               className="resize-none"
               dir="rtl"
+              aria-invalid={!!error}
             />
           ) : (
             <Input
               value={editValue}
               onChange={(e) => setEditValue(e.target.value)}
               dir="rtl"
+              aria-invalid={!!error}
             />
           )}
           <div className="flex gap-2 justify-end">
@@ -118,10 +165,18 @@ function EditableField({ label, value, field, onSave, multiline = false, isArray
           </div>
         </div>
       ) : (
-        <div className="text-sm text-muted-foreground p-3 bg-muted rounded-md min-h-[2.5rem] flex items-center" dir="rtl">
+        <div
+          className={cn(
+            'text-sm text-muted-foreground p-3 bg-muted rounded-md min-h-[2.5rem] flex items-center',
+            needsReview && 'ring-1 ring-amber-500/50',
+            error && 'ring-1 ring-destructive'
+          )}
+          dir="rtl"
+        >
           {displayValue || <span className="text-muted-foreground/50">לא הוזן ערך</span>}
         </div>
       )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
     </div>
   );
 }
@@ -170,7 +225,27 @@ function ToonPreview({ data }: { data: any }) {
   );
 }
 
-export default function Summary({ data, onDataChange, onStartOver, onComplete, isSubmitting }: SummaryProps) {
+// Fields rendered as EditableField - errors for anything else are listed above the actions
+const EDITABLE_FIELDS = ['companyName', 'siteUrl', 'productsServices', 'targetAudience', 'uniqueValueProposition'];
+
+// Filled from the questionnaire answers, so also editable on that path
+const QUESTIONNAIRE_FIELDS = ['industry', 'keyMessaging'];
+
+export default function Summary({
+  data,
+  onDataChange,
+  fieldErrors = {},
+  reviewFields = [],
+  score,
+  readinessGate = DEFAULT_READINESS_GATE,
+  onExportBrief,
+  exportingBrief,
+  onStartOver,
+  onComplete,
+  isSubmitting,
+}: SummaryProps) {
+  const [confirmIncomplete, setConfirmIncomplete] = useState(false);
+
   // Prepare display data - simplified to essential fields only
   const displayData = {
     companyName: data.companyName,
@@ -182,8 +257,35 @@ export default function Summary({ data, onDataChange, onStartOver, onComplete, i
     ...(data.brandFonts && data.brandFonts.length > 0 && { brandFonts: data.brandFonts }),
   };
 
+  const missingCritical = score.fields
+    .filter((field) => score.missingCritical.includes(field.field))
+    .map((field) => field.label);
+  const isBlocked = readinessGate === 'block' && missingCritical.length > 0;
+
+  const handleComplete = () => {
+    if (missingCritical.length > 0) {
+      if (isBlocked) return;
+      setConfirmIncomplete(true);
+      return;
+    }
+    onComplete();
+  };
+
+  const editableFields = data.source === 'questionnaire' ? [...EDITABLE_FIELDS, ...QUESTIONNAIRE_FIELDS] : EDITABLE_FIELDS;
+  const otherErrors = Object.entries(fieldErrors).filter(([field]) => !editableFields.includes(field));
+
   const renderEditableFields = () => (
     <div className="space-y-6">
+      {reviewFields.length > 0 && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-500/50 bg-amber-500/5 p-3 text-sm">
+          <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5 text-amber-600" />
+          <span>
+            {reviewFields.length === 1 ? 'שדה אחד' : `${reviewFields.length} שדות`} מולאו מתוך התשובות
+            בלי ודאות מלאה - כדאי לבדוק ולתקן לפני השמירה
+          </span>
+        </div>
+      )}
+
       {/* Logo */}
       {data.logoUrl && (
         <div className="space-y-2">
@@ -207,6 +309,8 @@ export default function Summary({ data, onDataChange, onStartOver, onComplete, i
         value={data.companyName}
         field="companyName"
         onSave={onDataChange}
+        error={fieldErrors.companyName}
+        needsReview={reviewFields.includes('companyName')}
       />
 
       {/* Website URL */}
@@ -216,6 +320,7 @@ export default function Summary({ data, onDataChange, onStartOver, onComplete, i
           value={data.siteUrl}
           field="siteUrl"
           onSave={onDataChange}
+          error={fieldErrors.siteUrl}
         />
       )}
 
@@ -225,9 +330,53 @@ export default function Summary({ data, onDataChange, onStartOver, onComplete, i
         value={data.productsServices}
         field="productsServices"
         onSave={onDataChange}
+        error={fieldErrors.productsServices}
+        needsReview={reviewFields.includes('productsServices')}
         isArray
       />
 
+      {/* Critical for the ads (lib/profile-score.ts) - editable on every path */}
+      <EditableField
+        label="קהל יעד"
+        value={data.targetAudience ?? ''}
+        field="targetAudience"
+        onSave={onDataChange}
+        error={fieldErrors.targetAudience}
+        needsReview={reviewFields.includes('targetAudience')}
+        multiline
+      />
+      <EditableField
+        label="הצעת ערך ייחודית"
+        value={data.uniqueValueProposition ?? ''}
+        field="uniqueValueProposition"
+        onSave={onDataChange}
+        error={fieldErrors.uniqueValueProposition}
+        multiline
+      />
+
+      {/* Industry and messages extracted from the questionnaire */}
+      {data.source === 'questionnaire' && (
+        <>
+          <EditableField
+            label="תחום"
+            value={data.industry ?? ''}
+            field="industry"
+            onSave={onDataChange}
+            error={fieldErrors.industry}
+            needsReview={reviewFields.includes('industry')}
+          />
+          <EditableField
+            label="מסרים מרכזיים"
+            value={data.keyMessaging}
+            field="keyMessaging"
+            onSave={onDataChange}
+            error={fieldErrors.keyMessaging}
+            needsReview={reviewFields.includes('keyMessaging')}
+            isArray
+          />
+        </>
+      )}
+
       {/* Competitors */}
       {data.competitorsValid.length > 0 && (
         <div className="space-y-2">
@@ -333,6 +482,40 @@ export default function Summary({ data, onDataChange, onStartOver, onComplete, i
         </Tabs>
       </div>
 
+      <ProfileScoreCard score={score} />
+
+      <BrandBriefExport onExport={onExportBrief} exporting={exportingBrief} />
+
+      {data.competitorProfiles && data.competitorProfiles.length > 0 && (
+        <CompetitorComparison
+          companyName={data.companyName}
+          productsServices={data.productsServices}
+          uniqueValueProposition={data.uniqueValueProposition}
+          competitors={data.competitorProfiles}
+        />
+      )}
+
+      {otherErrors.length > 0 && (
+        <div className="rounded-lg border border-destructive/50 bg-destructive/5 p-4 space-y-1" role="alert">
+          {otherErrors.map(([field, message]) => (
+            <p key={field} className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              <span className="font-mono text-xs" dir="ltr">{field}</span>
+              {message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {isBlocked && (
+        <div className="rounded-lg border border-destructive/50 bg-destructive/5 p-4" role="alert">
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            כדי לסיים יש להשלים: {missingCritical.join(', ')}
+          </p>
+        </div>
+      )}
+
       {/* Action buttons */}
       <div className="flex flex-col sm:flex-row gap-3 justify-between pt-6 border-t">
         <Button
@@ -345,8 +528,8 @@ export default function Summary({ data, onDataChange, onStartOver, onComplete, i
           התחל מחדש
         </Button>
         <Button
-          onClick={onComplete}
-          disabled={isSubmitting}
+          onClick={handleComplete}
+          disabled={isSubmitting || isBlocked}
           className="gap-2"
         >
           {isSubmitting ? (
@@ -362,6 +545,33 @@ export default function Summary({ data, onDataChange, onStartOver, onComplete, i
           )}
         </Button>
       </div>
+
+      <Dialog open={confirmIncomplete} onOpenChange={setConfirmIncomplete}>
+        <DialogContent dir="rtl" className="sm:max-w-md">
+          <DialogHeader className="text-center sm:text-center">
+            <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-amber-500/10">
+              <AlertTriangle className="h-6 w-6 text-amber-600" />
+            </div>
+            <DialogTitle className="text-xl">לסיים בלי כל המידע?</DialogTitle>
+            <DialogDescription className="text-base">
+              חסרים {missingCritical.join(', ')} - בלעדיהם המודעות ייצאו כלליות יותר.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="flex-col-reverse sm:flex-row sm:justify-center gap-2 mt-4">
+            <Button variant="outline" onClick={() => setConfirmIncomplete(false)}>
+              חזרה להשלמה
+            </Button>
+            <Button
+              onClick={() => {
+                setConfirmIncomplete(false);
+                onComplete();
+              }}
+            >
+              סיים בכל זאת
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
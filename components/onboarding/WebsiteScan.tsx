@@ -10,15 +10,19 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Search, Loader2, ChevronDown, ChevronUp, Eye, Code } from 'lucide-react';
-import { OnboardingData } from '@/types/onboarding';
+import { OnboardingData, ScannedWebsiteData, SafeFetchErrorCode, fetchErrorMessages } from '@/types/onboarding';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 import { safeToonDecode as centralizedSafeToonDecode, safeToonEncodeString } from '@/lib/toon-utils';
-
-// Helper to maintain existing API (body + contentType)
-function safeToonEncode(data: unknown): { body: string; contentType: string } {
-  return { body: safeToonEncodeString(data), contentType: 'text/plain' };
-}
+import { postOnboardingApi, requestOnboardingApi } from '@/lib/onboarding-api';
+import { parseWithSchema } from '@/lib/schema';
+import {
+  generateQuestionsRequestSchema,
+  generateQuestionsResponseSchema,
+  scannedWebsiteDataSchema,
+  scanWebsiteRequestSchema,
+  scanWebsiteResponseSchema,
+} from '@/lib/onboarding-schemas';
 
 // Helper that returns data directly (matching old API)
 function safeToonDecode(str: string): unknown {
@@ -29,6 +33,16 @@ function safeToonDecode(str: string): unknown {
   return data;
 }
 
+// Show inner pages as their path ("/services"), the homepage as its host
+function formatPagePath(pageUrl: string): string {
+  try {
+    const { hostname, pathname } = new URL(pageUrl);
+    return pathname === '/' ? hostname : decodeURIComponent(pathname);
+  } catch {
+    return pageUrl;
+  }
+}
+
 interface WebsiteScanProps {
   data: OnboardingData;
   onDataChange: (data: OnboardingData) => void;
@@ -62,32 +76,36 @@ export function WebsiteScan({ data, onDataChange, onNext, onBack }: WebsiteScanP
 
     try {
       const cleanUrl = sanitizeUrl(url);
-      const { body, contentType } = safeToonEncode({ url: cleanUrl });
-      const response = await fetch('/api/onboarding/scan-website', {
-        method: 'POST',
-        headers: { 'Content-Type': contentType },
-        body,
-      });
-
-      const result = await response.json();
+      const response = await postOnboardingApi(
+        '/api/onboarding/scan-website',
+        { url: cleanUrl },
+        { requestSchema: scanWebsiteRequestSchema, responseSchema: scanWebsiteResponseSchema }
+      );
 
-      if (!response.ok || !result.success) {
-        throw new Error(result.error || 'Failed to scan website');
+      if (!response.ok) {
+        // Fetch failures come with a code we can explain in Hebrew
+        const fetchError = response.code && fetchErrorMessages[response.code as SafeFetchErrorCode];
+        throw new Error(fetchError || response.fieldErrors[0]?.message || response.error || 'Failed to scan website');
       }
 
+      const result = response.data;
+
       // Decode response - supports both TOON and JSON formats with fallback
-      let scrapedData: any;
-      if (typeof result.data === 'string') {
-        // Try TOON first, then JSON - safeToonDecode handles both
-        scrapedData = safeToonDecode(result.data);
-        console.log(`[WebsiteScan] Decoded data (format: ${result.format}):`, scrapedData);
-      } else {
+      if (typeof result.data !== 'string') {
+        throw new Error('Invalid response format');
+      }
+      // Try TOON first, then JSON - safeToonDecode handles both
+      const decoded = parseWithSchema(scannedWebsiteDataSchema, safeToonDecode(result.data));
+      if (!decoded.success) {
+        console.error('[WebsiteScan] Scan data failed validation:', decoded.errors);
         throw new Error('Invalid response format');
       }
+      const scrapedData: ScannedWebsiteData = decoded.data;
+      console.log(`[WebsiteScan] Decoded data (format: ${result.format}):`, scrapedData);
       const companyName = scrapedData.branding?.company_name || '';
       const tagline = scrapedData.branding?.tagline || '';
-      const logoUrl = scrapedData.logo || null;
-      const faviconUrl = scrapedData.favicon || null;
+      const logoUrl = scrapedData.logo || undefined;
+      const faviconUrl = scrapedData.favicon || undefined;
       const brandColors = scrapedData.colors || [];
       const brandFonts = scrapedData.fonts || [];
 
@@ -120,11 +138,15 @@ export function WebsiteScan({ data, onDataChange, onNext, onBack }: WebsiteScanP
         unique_value_proposition: '',
         brand_voice: '',
         key_messaging: [], // Will be filled during questionnaire
-        visual_elements: scrapedData.branding,
+        visual_elements: {
+          colors: brandColors,
+          has_logo: scrapedData.branding?.has_logo ?? !!logoUrl,
+        },
         logo_url: logoUrl, // Logo URL extracted from website
         favicon_url: faviconUrl, // Favicon URL extracted from website
         brand_colors: brandColors, // Brand colors extracted from CSS
         brand_fonts: brandFonts, // Font families used on the site
+        scan_pages: scrapedData.pages || [], // Which page each service/product came from
         raw_scraped_data: scrapedData, // Store full scraped data for questionnaire generation
       };
 
@@ -132,20 +154,24 @@ export function WebsiteScan({ data, onDataChange, onNext, onBack }: WebsiteScanP
 
       // Generate dynamic questions based on scraped data
       try {
-        const questionsReq = safeToonEncode({ scrapedData });
-        const questionsResponse = await fetch('/api/onboarding/generate-questions', {
+        const questionsResponse = await requestOnboardingApi('/api/onboarding/generate-questions', {
           method: 'POST',
-          headers: { 'Content-Type': questionsReq.contentType },
-          body: questionsReq.body,
+          body: { data: updatedData, scrapedData },
+          // Scraped text must round-trip, and TOON would turn the missing logo/favicon into null
+          encoding: 'json',
+          requestSchema: generateQuestionsRequestSchema,
+          responseSchema: generateQuestionsResponseSchema,
         });
 
-        const questionsResult = await questionsResponse.json();
-
-        if (questionsResult.success && questionsResult.questions?.length > 0) {
+        if (questionsResponse.ok) {
+          // An empty list means the scan covered everything - nothing left to ask
           onDataChange({
             ...updatedData,
-            dynamic_questionnaire: questionsResult.questions,
+            dynamic_questionnaire: questionsResponse.data.questions || [],
           });
+        } else {
+          // Keep whatever questionnaire there was - an empty one would read as "nothing left to ask"
+          console.error('Failed to generate questions:', questionsResponse.error, questionsResponse.fieldErrors);
         }
       } catch (questionsError) {
         console.error('Failed to generate questions:', questionsError);
@@ -230,7 +256,22 @@ export function WebsiteScan({ data, onDataChange, onNext, onBack }: WebsiteScanP
             </p>
             <p className="text-sm text-muted-foreground mt-1">
               נאספו {data.products_services.length} שירותים, {data.key_messaging.length} מסרים מרכזיים
+              {data.scan_pages && data.scan_pages.length > 0 && ` מתוך ${data.scan_pages.length} דפים`}
             </p>
+            {data.scan_pages && data.scan_pages.length > 1 && (
+              <ul className="mt-3 space-y-1 text-xs text-muted-foreground">
+                {data.scan_pages.map((page) => (
+                  <li key={page.url} className="flex items-center justify-center gap-2">
+                    <span className="font-mono truncate max-w-[16rem]" dir="ltr" title={page.url}>
+                      {formatPagePath(page.url)}
+                    </span>
+                    <span>
+                      {page.services.length} שירותים, {page.products.length} מוצרים
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
           {/* Toggle button */}
@@ -0,0 +1,139 @@
+/**
+ * Flow step components
+ * Renders each step id of lib/onboarding-flow.ts from the wizard's state and handlers
+ */
+
+'use client';
+
+import type { ReactNode } from 'react';
+import { WebsiteScan } from './WebsiteScan';
+import { ChatQuestionnaire } from './ChatQuestionnaire';
+import { FixedQuestionnaire } from './FixedQuestionnaire';
+import { CompetitorUrls } from './CompetitorUrls';
+import { ProfileImport } from './ProfileImport';
+import Summary from './Summary';
+import type { FlowPath, FlowStepId } from '@/lib/onboarding-flow';
+import type { QuestionnaireAnswerValue } from '@/lib/questionnaire-fields';
+import { scoreProfile, type ReadinessGate } from '@/lib/profile-score';
+import type { BrandBriefExportKind } from '@/lib/brand-brief';
+import type { ProfileImport as ProfileImportResult } from '@/lib/profile-import';
+import type {
+  OnboardingData,
+  QuestionnaireAnswers,
+  UrlValidationResult,
+  WizardState,
+} from '@/types/onboarding';
+
+/** Everything a step may need from OnboardingWizard */
+export interface FlowStepContext {
+  state: WizardState;
+  flowPath: FlowPath;
+  questionnaireAnswers: Partial<QuestionnaireAnswers>;
+  competitorUrls: string[];
+  urlValidationResults: UrlValidationResult[];
+  summaryFieldErrors: Record<string, string>;
+  // Summary fields the questionnaire extraction wasn't sure of
+  summaryReviewFields: string[];
+  readinessGate: ReadinessGate;
+  isValidatingUrls: boolean;
+  isExtractingAnswers: boolean;
+  isSubmitting: boolean;
+  exportingBrief: BrandBriefExportKind | null;
+  onNext: () => void;
+  onBack: () => void;
+  onWebsiteDataChange: (data: OnboardingData) => void;
+  onConversationalComplete: (answers: Record<string, string>) => void;
+  onQuestionnaireAnswerChange: (field: keyof QuestionnaireAnswers, value: QuestionnaireAnswerValue) => void;
+  onFixedQuestionnaireNext: () => Promise<void>;
+  onUrlChange: (index: number, value: string) => void;
+  onAddUrl: () => void;
+  onRemoveUrl: (index: number) => void;
+  onValidateUrls: () => Promise<void>;
+  onCompetitorUrlsNext: () => void;
+  onProfileImport: (result: ProfileImportResult) => void;
+  onSummaryDataChange: (field: string, value: string | string[]) => void;
+  onStartOver: () => void;
+  onSummaryComplete: () => void;
+  onExportBrief: (kind: BrandBriefExportKind) => void;
+}
+
+export const FLOW_STEP_COMPONENTS: Record<FlowStepId, (context: FlowStepContext) => ReactNode> = {
+  'website-scan': ({ state, onWebsiteDataChange, onNext, onBack }) => (
+    <WebsiteScan
+      data={state.data}
+      onDataChange={onWebsiteDataChange}
+      onNext={onNext}
+      onBack={onBack}
+    />
+  ),
+
+  'chat-questionnaire': ({ state, onConversationalComplete }) => (
+    <ChatQuestionnaire
+      onComplete={onConversationalComplete}
+      businessContext={{
+        companyName: state.data.company_name,
+        industry: state.data.industry,
+        services: state.data.products_services,
+      }}
+    />
+  ),
+
+  'fixed-questionnaire': (context) => (
+    <FixedQuestionnaire
+      answers={context.questionnaireAnswers}
+      onAnswerChange={context.onQuestionnaireAnswerChange}
+      onNext={context.onFixedQuestionnaireNext}
+      isExtracting={context.isExtractingAnswers}
+    />
+  ),
+
+  competitors: (context) => (
+    <CompetitorUrls
+      urls={context.competitorUrls}
+      validationResults={context.urlValidationResults}
+      onUrlChange={context.onUrlChange}
+      onAddUrl={context.onAddUrl}
+      onRemoveUrl={context.onRemoveUrl}
+      onValidate={context.onValidateUrls}
+      onNext={context.onCompetitorUrlsNext}
+      isValidating={context.isValidatingUrls}
+    />
+  ),
+
+  'profile-import': (context) => <ProfileImport onImport={context.onProfileImport} onBack={context.onBack} />,
+
+  summary: ({ state: { data }, flowPath, ...context }) => (
+    <Summary
+      data={{
+        source: data.source || flowPath.source,
+        siteUrl: data.site_url || undefined,
+        companyName: data.company_name,
+        industry: data.industry || undefined,
+        mission: data.mission || undefined,
+        productsServices: data.products_services,
+        targetAudience: data.target_audience || undefined,
+        uniqueValueProposition: data.unique_value_proposition || undefined,
+        brandVoice: data.brand_voice || undefined,
+        keyMessaging: data.key_messaging,
+        competitorsValid: data.competitors.urls_valid,
+        competitorsInvalid: data.competitors.urls_invalid,
+        competitorProfiles: data.competitors.profiles,
+        questionnaireAnswers: data.questionnaire_answers ?? undefined,
+        // Visual branding (usually empty for questionnaire path)
+        logoUrl: data.logo_url || undefined,
+        brandColors: data.brand_colors || undefined,
+        brandFonts: data.brand_fonts || undefined,
+      }}
+      onDataChange={context.onSummaryDataChange}
+      fieldErrors={context.summaryFieldErrors}
+      reviewFields={context.summaryReviewFields}
+      score={scoreProfile(data)}
+      readinessGate={context.readinessGate}
+      onExportBrief={context.onExportBrief}
+      exportingBrief={context.exportingBrief}
+      onStartOver={context.onStartOver}
+      onComplete={context.onSummaryComplete}
+      isSubmitting={context.isSubmitting}
+    />
+  ),
+};
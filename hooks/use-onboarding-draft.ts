@@ -0,0 +1,199 @@
+'use client';
+
+/**
+ * Draft autosave for the onboarding flows.
+ *
+ * Every change to `state` is written to localStorage right away and, after a
+ * short pause, to /api/onboarding/draft/[id]. On mount the hook looks for an
+ * earlier draft (local and server copy, newest wins; without a local copy
+ * the server finds this browser's last draft by cookie) and exposes it as
+ * `pendingDraft` - the component asks the user whether to resume or discard
+ * it. Nothing is saved while a draft is pending, so the fresh state can't
+ * overwrite it before the user decides. A draft whose state fails
+ * `stateSchema` is dropped instead of offered.
+ *
+ * `finish` drops the draft once the flow is done and stops saving - later
+ * state changes (the saved profile's id, the closing message) would
+ * otherwise write a fresh draft of a finished onboarding.
+ *
+ * `state` is compared by reference - pass a memoized snapshot.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DraftKind, DraftStateByKind, OnboardingDraft } from '@/types/onboarding';
+import { requestOnboardingApi } from '@/lib/onboarding-api';
+import { parseWithSchema, type Schema } from '@/lib/schema';
+import { draftResponseSchema, saveDraftRequestSchema } from '@/lib/onboarding-schemas';
+
+const STORAGE_PREFIX = 'onboarding-draft:';
+const SERVER_SAVE_DELAY_MS = 1500;
+
+interface UseOnboardingDraftOptions<K extends DraftKind> {
+  /** Only save when there is progress worth resuming (default true) */
+  enabled?: boolean;
+  /** Checked before an earlier draft is offered - drafts that fail it are dropped */
+  stateSchema?: Schema<DraftStateByKind[K]>;
+}
+
+export interface UseOnboardingDraftResult<K extends DraftKind> {
+  /** True until local storage and the server have been checked */
+  isChecking: boolean;
+  /** An earlier draft waiting for the user to resume or discard it */
+  pendingDraft: OnboardingDraft<K> | null;
+  /** Accept the pending draft - returns its state for the component to apply */
+  resume: () => DraftStateByKind[K] | null;
+  /** Throw the pending draft away and start fresh */
+  discard: () => void;
+  /** Drop the saved draft and start a new one (starting over) */
+  clear: () => void;
+  /** Drop the saved draft once the flow is finished and stop saving */
+  finish: () => void;
+}
+
+function newDraftId(): string {
+  return `draft_${crypto.randomUUID()}`;
+}
+
+function readLocalDraft<K extends DraftKind>(kind: K): OnboardingDraft<K> | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + kind);
+    if (!raw) return null;
+    const draft = JSON.parse(raw) as OnboardingDraft<K>;
+    return draft.kind === kind && typeof draft.id === 'string' ? draft : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeLocalDraft(draft: OnboardingDraft) {
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + draft.kind, JSON.stringify(draft));
+  } catch (error) {
+    // Quota exceeded or storage disabled - the server copy still exists
+    console.warn('[useOnboardingDraft] Could not write local draft:', error);
+  }
+}
+
+function removeLocalDraft(kind: DraftKind) {
+  try {
+    window.localStorage.removeItem(STORAGE_PREFIX + kind);
+  } catch {
+    // Storage disabled - nothing to remove
+  }
+}
+
+// By id, or without one the last draft of `kind` this browser saved
+async function fetchServerDraft<K extends DraftKind>(kind: K, id?: string): Promise<OnboardingDraft<K> | null> {
+  const path = id
+    ? `/api/onboarding/draft/${encodeURIComponent(id)}`
+    : `/api/onboarding/draft?kind=${encodeURIComponent(kind)}`;
+  try {
+    const response = await requestOnboardingApi(path, { responseSchema: draftResponseSchema });
+    const draft = response.ok ? response.data.draft : undefined;
+    return draft && draft.kind === kind ? (draft as OnboardingDraft<K>) : null;
+  } catch {
+    return null;
+  }
+}
+
+function deleteServerDraft(id: string) {
+  requestOnboardingApi(`/api/onboarding/draft/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    responseSchema: draftResponseSchema,
+  }).catch((error) => console.warn('[useOnboardingDraft] Could not delete server draft:', error));
+}
+
+export function useOnboardingDraft<K extends DraftKind>(
+  kind: K,
+  state: DraftStateByKind[K],
+  { enabled = true, stateSchema }: UseOnboardingDraftOptions<K> = {}
+): UseOnboardingDraftResult<K> {
+  const [isChecking, setIsChecking] = useState(true);
+  const [pendingDraft, setPendingDraft] = useState<OnboardingDraft<K> | null>(null);
+  const [isFinished, setIsFinished] = useState(false);
+  const draftIdRef = useRef<string | null>(null);
+
+  // Look for an earlier draft once on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    const checkForDraft = async () => {
+      const local = readLocalDraft(kind);
+      const server = await fetchServerDraft(kind, local?.id);
+      if (cancelled) return;
+
+      const newest = [local, server]
+        .filter((draft): draft is OnboardingDraft<K> => draft !== null)
+        .sort((a, b) => b.saved_at.localeCompare(a.saved_at))[0];
+
+      const checked = newest && stateSchema ? parseWithSchema(stateSchema, newest.state) : null;
+      if (newest && checked && !checked.success) {
+        // Written by an older version or tampered with - resuming it would break the flow
+        console.warn('[useOnboardingDraft] Dropping invalid draft:', checked.errors);
+        removeLocalDraft(kind);
+        deleteServerDraft(newest.id);
+        draftIdRef.current = newDraftId();
+        setIsChecking(false);
+        return;
+      }
+
+      draftIdRef.current = newest?.id ?? newDraftId();
+      setPendingDraft(newest && checked?.success ? { ...newest, state: checked.data } : (newest ?? null));
+      setIsChecking(false);
+    };
+
+    checkForDraft();
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, stateSchema]);
+
+  // Autosave: local copy immediately, server copy once changes settle
+  useEffect(() => {
+    const id = draftIdRef.current;
+    if (isChecking || pendingDraft || isFinished || !enabled || !id) return;
+
+    const draft: OnboardingDraft<K> = { id, kind, saved_at: new Date().toISOString(), state };
+    writeLocalDraft(draft);
+
+    const timeoutId = setTimeout(() => {
+      requestOnboardingApi(`/api/onboarding/draft/${encodeURIComponent(id)}`, {
+        method: 'PUT',
+        body: { kind, saved_at: draft.saved_at, state },
+        encoding: 'json',
+        requestSchema: saveDraftRequestSchema,
+        responseSchema: draftResponseSchema,
+      }).catch((error) => console.warn('[useOnboardingDraft] Could not save server draft:', error));
+    }, SERVER_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [kind, state, enabled, isChecking, pendingDraft, isFinished]);
+
+  const clear = useCallback(() => {
+    const id = draftIdRef.current;
+    removeLocalDraft(kind);
+    if (id) {
+      deleteServerDraft(id);
+    }
+    draftIdRef.current = newDraftId();
+    setIsFinished(false);
+  }, [kind]);
+
+  const finish = useCallback(() => {
+    clear();
+    setIsFinished(true);
+  }, [clear]);
+
+  const resume = useCallback(() => {
+    const state = pendingDraft?.state ?? null;
+    setPendingDraft(null);
+    return state;
+  }, [pendingDraft]);
+
+  const discard = useCallback(() => {
+    clear();
+    setPendingDraft(null);
+  }, [clear]);
+
+  return { isChecking, pendingDraft, resume, discard, clear, finish };
+}
@@ -0,0 +1,51 @@
+'use client';
+
+/**
+ * State for an assistant reply that streams in (lib/onboarding-api.ts
+ * `streamOnboardingApi`).
+ *
+ * `begin()` returns the signal to pass to the request; `append` is its
+ * `onDelta`. `partialReply` is the text so far - null when no reply is in
+ * flight - and `finish()` clears it once the final message is in place.
+ * `cancel()` aborts the request; an unmounted component cancels too.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface UseStreamingReplyResult {
+  partialReply: string | null;
+  begin: () => AbortSignal;
+  append: (text: string) => void;
+  finish: () => void;
+  cancel: () => void;
+}
+
+export function useStreamingReply(): UseStreamingReplyResult {
+  const [partialReply, setPartialReply] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const begin = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setPartialReply('');
+    return controller.signal;
+  }, []);
+
+  const append = useCallback((text: string) => {
+    setPartialReply((prev) => (prev ?? '') + text);
+  }, []);
+
+  const finish = useCallback(() => {
+    controllerRef.current = null;
+    setPartialReply(null);
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { partialReply, begin, append, finish, cancel };
+}
@@ -0,0 +1,126 @@
+/**
+ * Ad Library
+ *
+ * Looks up ad creatives run by the client's competitors. The ads-research
+ * route only talks to the `AdLibraryProvider` interface; the built-in
+ * provider answers from a local fixture (lib/fixtures/ad-library.json), so
+ * the page works without ad-platform credentials. A real backend (Meta Ad
+ * Library, Google Ads Transparency, ...) only needs the same method.
+ *
+ * Competitors without fixture entries get the fixture's sample creatives,
+ * marked `is_sample`, so the page can be tried with any competitor list.
+ */
+
+import type { AdCreative, AdPlatform, AdsResearchCompetitor } from '@/types/ads-research';
+import defaultFixture from './fixtures/ad-library.json';
+
+export interface AdSearchQuery {
+  competitors: AdsResearchCompetitor[];
+  /** Only ads promoting one of these services (empty = all) */
+  services: string[];
+}
+
+export interface AdLibraryProvider {
+  /** Shown on the page so fixture results aren't mistaken for live data */
+  name: string;
+  /** Newest first */
+  searchAds(query: AdSearchQuery): Promise<AdCreative[]>;
+}
+
+type FixtureAd = Omit<AdCreative, 'advertiser_name' | 'advertiser_url' | 'platform' | 'is_sample'> & {
+  platform: string;
+};
+
+export interface AdLibraryFixture {
+  /** Keyed by domain without www. */
+  advertisers: Record<string, { name: string; ads: FixtureAd[] }>;
+  /** Used for unknown competitors; `{name}` is replaced with the competitor's name */
+  samples: FixtureAd[];
+}
+
+const PLATFORMS: readonly AdPlatform[] = ['facebook', 'instagram', 'google', 'tiktok'];
+
+function domainOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+function toPlatform(platform: string): AdPlatform {
+  return (PLATFORMS as readonly string[]).includes(platform) ? (platform as AdPlatform) : 'facebook';
+}
+
+const normalizeService = (service: string) => service.trim().toLowerCase();
+
+/**
+ * Ads promoting at least one of `services`. Matching is loose ("שיפוצים"
+ * matches "שיפוץ מטבחים" and vice versa) since both sides are free text.
+ * Ads without service tags are left out once a filter is active.
+ */
+export function filterAdsByServices(ads: AdCreative[], services: string[]): AdCreative[] {
+  const wanted = services.map(normalizeService).filter(Boolean);
+  if (wanted.length === 0) return ads;
+
+  return ads.filter((ad) =>
+    ad.services.some((tag) => {
+      const normalized = normalizeService(tag);
+      return wanted.some((service) => normalized.includes(service) || service.includes(normalized));
+    })
+  );
+}
+
+export function createFixtureAdLibrary(fixture: AdLibraryFixture = defaultFixture): AdLibraryProvider {
+  const adsFor = (competitor: AdsResearchCompetitor): AdCreative[] => {
+    const domain = domainOf(competitor.url);
+    const advertiser = domain ? fixture.advertisers[domain] : undefined;
+
+    if (advertiser) {
+      return advertiser.ads.map((ad) => ({
+        ...ad,
+        platform: toPlatform(ad.platform),
+        advertiser_name: advertiser.name,
+        advertiser_url: competitor.url,
+      }));
+    }
+
+    return fixture.samples.map((ad) => ({
+      ...ad,
+      id: `${ad.id}-${domain ?? competitor.url}`,
+      platform: toPlatform(ad.platform),
+      headline: ad.headline.replaceAll('{name}', competitor.name),
+      body: ad.body.replaceAll('{name}', competitor.name),
+      // Samples promote whatever the competitor's site lists
+      services: ad.services.length > 0 ? ad.services : competitor.services,
+      advertiser_name: competitor.name,
+      advertiser_url: competitor.url,
+      is_sample: true,
+    }));
+  };
+
+  return {
+    name: 'fixture',
+
+    async searchAds({ competitors, services }) {
+      const ads = filterAdsByServices(competitors.flatMap(adsFor), services);
+      return ads.sort((a, b) => b.started_at.localeCompare(a.started_at));
+    },
+  };
+}
+
+let defaultProvider: AdLibraryProvider | null = null;
+
+/**
+ * Provider used by the ads-research route (`AD_LIBRARY_PROVIDER`, default `fixture`)
+ */
+export function getAdLibraryProvider(): AdLibraryProvider {
+  if (!defaultProvider) {
+    const configured = process.env.AD_LIBRARY_PROVIDER || 'fixture';
+    if (configured !== 'fixture') {
+      console.warn(`[ad-library] Unknown AD_LIBRARY_PROVIDER "${configured}" - using the fixture provider`);
+    }
+    defaultProvider = createFixtureAdLibrary();
+  }
+  return defaultProvider;
+}
@@ -0,0 +1,41 @@
+/**
+ * Runtime Schemas for the Ads Research API
+ *
+ * Mirrors types/ads-research.ts, like lib/onboarding-schemas.ts does for the
+ * onboarding routes.
+ */
+
+import { s } from '@/lib/schema';
+import { responseBase } from '@/lib/onboarding-schemas';
+import type { AdCreative, AdsResearchCompetitor, AdsResearchResponse } from '@/types/ads-research';
+
+export const adCreativeSchema = s.object<AdCreative>({
+  id: s.string(),
+  advertiser_name: s.string(),
+  advertiser_url: s.string(),
+  platform: s.oneOf(['facebook', 'instagram', 'google', 'tiktok'] as const),
+  headline: s.string(),
+  body: s.string(),
+  cta: s.optional(s.string()),
+  image_url: s.optional(s.string()),
+  landing_url: s.optional(s.string()),
+  started_at: s.string(),
+  services: s.array(s.string()),
+  is_sample: s.optional(s.boolean()),
+});
+
+export const adsResearchCompetitorSchema = s.object<AdsResearchCompetitor>({
+  url: s.string(),
+  name: s.string(),
+  services: s.array(s.string()),
+});
+
+export const adsResearchResponseSchema = s.object<AdsResearchResponse>({
+  ...responseBase,
+  company_name: s.optional(s.string()),
+  services: s.optional(s.array(s.string())),
+  selected_services: s.optional(s.array(s.string())),
+  competitors: s.optional(s.array(adsResearchCompetitorSchema)),
+  ads: s.optional(s.array(adCreativeSchema)),
+  provider: s.optional(s.string()),
+});
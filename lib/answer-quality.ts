@@ -0,0 +1,76 @@
+/**
+ * Answer Quality
+ *
+ * Decides whether an answer to a screen-3 question is usable as is or too
+ * thin to build marketing copy from - a non-answer ("לא יודע", "הכל"), a
+ * couple of words, or only stock phrases ("שירות טוב ומקצועי"). The
+ * conversational chat asks the question's clarification once for thin
+ * answers before moving on.
+ *
+ * Client-safe - no server imports.
+ */
+
+export type AnswerIssue = 'empty' | 'non_answer' | 'too_short' | 'generic';
+
+export interface AnswerAssessment {
+  ok: boolean;
+  issue?: AnswerIssue;
+}
+
+export const MIN_ANSWER_WORDS = 4;
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[.,!?;:"'()\-–—…]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Whole answers that say nothing
+const NON_ANSWERS = new Set(
+  [
+    'לא יודע', 'לא יודעת', 'לא יודעים', 'אין לי מושג', 'אין מושג', 'לא בטוח', 'לא בטוחה',
+    'הכל', 'הכול', 'כלום', 'אין', 'אין כלום', 'לא', 'כן', 'אולי', 'סתם', 'לא רלוונטי', 'לא משנה',
+    'אותו דבר', 'כמו כולם', 'דלג', 'תדלג', 'אחר כך',
+    'idk', "i don't know", "don't know", 'dont know', 'no idea', 'nothing', 'everything', 'n/a', 'skip',
+  ].map((answer) => normalize(answer))
+);
+
+// Stock phrases every business uses about itself
+const GENERIC_WORDS = new Set([
+  'שירות', 'טוב', 'טובה', 'טובים', 'מעולה', 'מעולים', 'איכות', 'איכותי', 'איכותית', 'מקצועי', 'מקצועית',
+  'מקצועיות', 'אמינות', 'אמין', 'אמינה', 'יחס', 'אישי', 'מחיר', 'מחירים', 'זול', 'הוגן', 'הוגנים',
+  'ניסיון', 'מהיר', 'מהירה', 'זמינות', 'זמין', 'הכי', 'מאוד', 'אנחנו', 'אני', 'יותר', 'של', 'עם', 'גם',
+  'רב', 'רבה', 'רבות', 'שנים', 'המון',
+  'good', 'great', 'quality', 'service', 'professional', 'price', 'cheap', 'fast', 'best', 'experience',
+]);
+
+// Drop the one-letter prefixes (ו, ה, ב, ל, מ, ש, כ) so "ומקצועי" counts as "מקצועי"
+const stripPrefix = (word: string) => (word.length > 3 && /^[והבלמשכ]/.test(word) ? word.slice(1) : word);
+
+/**
+ * Check an answer to a screen-3 question
+ */
+export function assessAnswer(answer: string): AnswerAssessment {
+  const normalized = normalize(answer);
+  if (!normalized) {
+    return { ok: false, issue: 'empty' };
+  }
+
+  if (NON_ANSWERS.has(normalized)) {
+    return { ok: false, issue: 'non_answer' };
+  }
+
+  const words = normalized.split(' ');
+  if (words.length < MIN_ANSWER_WORDS) {
+    return { ok: false, issue: 'too_short' };
+  }
+
+  // Specific answers name at least one thing beyond the stock phrases
+  const specificWords = words.filter((word) => !GENERIC_WORDS.has(word) && !GENERIC_WORDS.has(stripPrefix(word)));
+  if (specificWords.length === 0) {
+    return { ok: false, issue: 'generic' };
+  }
+
+  return { ok: true };
+}
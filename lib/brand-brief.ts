@@ -0,0 +1,371 @@
+/**
+ * Brand Brief
+ *
+ * A finished profile as a document account managers can share: logo, brand
+ * colors and fonts, services, audience, messages, contact details and
+ * competitors. `buildBrandBrief` collects it into one object (the JSON and
+ * TOON exports are that object); `renderBrandBriefMarkdown` and
+ * `renderBrandBriefHtml` lay it out right-to-left. The HTML is print-ready,
+ * so "save as PDF" from the browser's print dialog gives the PDF.
+ *
+ * Files are named `brand-brief-<company slug>-<YYYY-MM-DD>.<ext>`.
+ *
+ * Client-safe - no server imports.
+ */
+
+import { safeToonEncodeString } from '@/lib/toon-utils';
+import { fixedQuestions, type BrandBriefFormat, type ProfileFields } from '@/types/onboarding';
+
+export interface BrandBriefCompetitor {
+  name: string;
+  url: string;
+  tagline: string;
+  services: string[];
+}
+
+export interface BrandBrief {
+  company_name: string;
+  // Export date, YYYY-MM-DD
+  date: string;
+  site_url: string | null;
+  logo_url: string | null;
+  industry: string;
+  mission: string;
+  products_services: string[];
+  target_audience: string;
+  unique_value_proposition: string;
+  brand_voice: string;
+  key_messaging: string[];
+  brand_colors: string[];
+  brand_fonts: string[];
+  contact: {
+    phone: string | null;
+    address: string | null;
+    opening_hours: string | null;
+    channels: string[];
+  };
+  competitors: BrandBriefCompetitor[];
+}
+
+// What Summary offers - `pdf` is the HTML opened in print mode
+export type BrandBriefExportKind = BrandBriefFormat | 'pdf';
+
+export const BRAND_BRIEF_CONTENT_TYPES: Record<BrandBriefFormat, string> = {
+  markdown: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  toon: 'text/plain; charset=utf-8',
+};
+
+const EXTENSIONS: Record<BrandBriefFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json',
+  toon: 'toon',
+};
+
+const LABELS = {
+  title: 'בריף מותג',
+  logo: 'לוגו',
+  industry: 'תחום',
+  site: 'אתר',
+  mission: 'ייעוד',
+  services: 'שירותים ומוצרים',
+  audience: 'קהל יעד',
+  uvp: 'הצעת ערך ייחודית',
+  voice: 'טון המותג',
+  messages: 'מסרים מרכזיים',
+  colors: 'צבעי מותג',
+  fonts: 'גופנים',
+  contact: 'פרטי קשר',
+  phone: 'טלפון',
+  address: 'כתובת',
+  hours: 'שעות פעילות',
+  channels: 'ערוצי פנייה',
+  competitors: 'מתחרים',
+  generated: 'הופק בתאריך',
+};
+
+// Contact channel values -> the labels the questionnaire showed
+const CHANNEL_LABELS = new Map(
+  fixedQuestions.find((question) => question.key === 'contact_channels')?.options?.map((o) => [o.value, o.label])
+);
+
+// Only plain colors and font names reach the HTML's style attributes
+const CSS_COLOR = /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\([\d\s.,%]+\))$/i;
+const FONT_NAME = /^[\p{L}\p{N} _-]+$/u;
+
+const isHttpUrl = (url: string | null): url is string => !!url && /^https?:\/\//i.test(url);
+
+export function briefDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Lowercase letters and digits of the company name joined by dashes
+ * (Hebrew kept); `profile` when nothing is left
+ */
+export function briefSlug(companyName: string): string {
+  const slug = (companyName.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).join('-').slice(0, 50).replace(/-+$/, '');
+  return slug || 'profile';
+}
+
+export function briefFilename(companyName: string, format: BrandBriefFormat, date: string): string {
+  return `brand-brief-${briefSlug(companyName)}-${date}.${EXTENSIONS[format]}`;
+}
+
+export function buildBrandBrief(profile: ProfileFields, now: Date = new Date()): BrandBrief {
+  const answers = profile.questionnaire_answers;
+  const logoUrl = profile.logo_url ?? null;
+  const competitors: BrandBriefCompetitor[] = profile.competitor_profiles?.length
+    ? profile.competitor_profiles.map((competitor) => ({
+        name: competitor.name || competitor.url,
+        url: competitor.url,
+        tagline: competitor.tagline,
+        services: competitor.services,
+      }))
+    : profile.competitors_valid.map((url) => ({ name: url, url, tagline: '', services: [] }));
+
+  return {
+    company_name: profile.company_name,
+    date: briefDate(now),
+    site_url: profile.site_url,
+    // Scanned from the site - anything but a web URL has no place in a shared document
+    logo_url: isHttpUrl(logoUrl) ? logoUrl : null,
+    industry: profile.industry,
+    mission: profile.mission,
+    products_services: profile.products_services,
+    target_audience: profile.target_audience,
+    unique_value_proposition: profile.unique_value_proposition,
+    brand_voice: profile.brand_voice,
+    key_messaging: profile.key_messaging,
+    brand_colors: profile.brand_colors ?? [],
+    brand_fonts: profile.brand_fonts ?? [],
+    contact: {
+      phone: answers?.phone || null,
+      address: answers?.address || null,
+      opening_hours: answers?.opening_hours || null,
+      channels: (answers?.contact_channels ?? []).map((channel) => CHANNEL_LABELS.get(channel) ?? channel),
+    },
+    competitors,
+  };
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+// Characters that would end a Markdown link target early
+const mdUrl = (url: string) => url.replace(/[\s()<>]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+
+// Keep user text from turning into markup
+function md(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1').replace(/\s*\n\s*/g, ' ');
+}
+
+function mdSection(title: string, body: string[]): string[] {
+  return body.length > 0 ? [`## ${title}`, '', ...body, ''] : [];
+}
+
+const mdList = (items: string[]) => items.map((item) => `- ${md(item)}`);
+const mdText = (text: string) => (text.trim() ? [md(text)] : []);
+
+export function renderBrandBriefMarkdown(brief: BrandBrief): string {
+  const facts = [
+    brief.industry && `- **${LABELS.industry}:** ${md(brief.industry)}`,
+    isHttpUrl(brief.site_url) && `- **${LABELS.site}:** <${mdUrl(brief.site_url)}>`,
+    brief.mission && `- **${LABELS.mission}:** ${md(brief.mission)}`,
+  ].filter((line): line is string => !!line);
+
+  const contact = [
+    brief.contact.phone && `- **${LABELS.phone}:** ${md(brief.contact.phone)}`,
+    brief.contact.address && `- **${LABELS.address}:** ${md(brief.contact.address)}`,
+    brief.contact.opening_hours && `- **${LABELS.hours}:** ${md(brief.contact.opening_hours)}`,
+    brief.contact.channels.length > 0 && `- **${LABELS.channels}:** ${brief.contact.channels.map(md).join(', ')}`,
+  ].filter((line): line is string => !!line);
+
+  const competitors = brief.competitors.flatMap((competitor) => [
+    `### ${md(competitor.name)}`,
+    '',
+    isHttpUrl(competitor.url) ? `<${mdUrl(competitor.url)}>` : md(competitor.url),
+    ...(competitor.tagline ? ['', md(competitor.tagline)] : []),
+    ...(competitor.services.length > 0 ? ['', ...mdList(competitor.services)] : []),
+    '',
+  ]);
+
+  const lines = [
+    // Markdown has no direction of its own - renderers that allow HTML honor the wrapper
+    '<div dir="rtl">',
+    '',
+    `# ${LABELS.title}: ${md(brief.company_name)}`,
+    '',
+    ...(brief.logo_url ? [`![${LABELS.logo}](${mdUrl(brief.logo_url)})`, ''] : []),
+    ...(facts.length > 0 ? [...facts, ''] : []),
+    ...mdSection(LABELS.services, mdList(brief.products_services)),
+    ...mdSection(LABELS.audience, mdText(brief.target_audience)),
+    ...mdSection(LABELS.uvp, mdText(brief.unique_value_proposition)),
+    ...mdSection(LABELS.voice, mdText(brief.brand_voice)),
+    ...mdSection(LABELS.messages, mdList(brief.key_messaging)),
+    ...mdSection(LABELS.colors, brief.brand_colors.map((color) => `- \`${color.replace(/`/g, '')}\``)),
+    ...mdSection(LABELS.fonts, mdList(brief.brand_fonts)),
+    ...mdSection(LABELS.contact, contact),
+    ...mdSection(LABELS.competitors, competitors.slice(0, -1)),
+    '---',
+    '',
+    `${LABELS.generated} ${brief.date}`,
+    '',
+    '</div>',
+  ];
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+function html(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function htmlSection(title: string, body: string): string {
+  return body ? `<section><h2>${html(title)}</h2>${body}</section>` : '';
+}
+
+const htmlList = (items: string[]) =>
+  items.length > 0 ? `<ul>${items.map((item) => `<li>${html(item)}</li>`).join('')}</ul>` : '';
+const htmlText = (text: string) => (text.trim() ? `<p>${html(text)}</p>` : '');
+const htmlLink = (url: string) => (isHttpUrl(url) ? `<a href="${html(url)}">${html(url)}</a>` : html(url));
+
+function htmlFacts(facts: Array<[string, string | null]>): string {
+  const rows = facts.filter(([, value]) => value).map(([label, value]) => `<dt>${html(label)}</dt><dd>${value}</dd>`);
+  return rows.length > 0 ? `<dl>${rows.join('')}</dl>` : '';
+}
+
+const STYLES = `
+@page { size: A4; margin: 18mm; }
+* { box-sizing: border-box; }
+body { font-family: system-ui, -apple-system, "Segoe UI", Arial, sans-serif; color: #111; line-height: 1.6; max-width: 800px; margin: 0 auto; padding: 32px 24px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+header { display: flex; align-items: center; justify-content: space-between; gap: 24px; border-bottom: 2px solid #111; padding-bottom: 16px; margin-bottom: 24px; }
+header h1 { margin: 0; font-size: 28px; }
+header .subtitle { margin: 4px 0 0; color: #555; }
+header img { max-height: 72px; max-width: 200px; object-fit: contain; }
+h2 { font-size: 18px; margin: 0 0 8px; }
+section { margin-bottom: 20px; break-inside: avoid; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 0 0 20px; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+ul { margin: 0; padding-inline-start: 20px; }
+.swatches { display: flex; flex-wrap: wrap; gap: 12px; }
+.swatch { display: flex; align-items: center; gap: 8px; font-family: ui-monospace, monospace; font-size: 13px; }
+.swatch span { width: 32px; height: 32px; border-radius: 6px; border: 1px solid #ccc; display: inline-block; }
+.fonts li { font-size: 16px; }
+.competitor { border: 1px solid #ddd; border-radius: 8px; padding: 12px 16px; margin-bottom: 12px; break-inside: avoid; }
+.competitor h3 { margin: 0 0 4px; font-size: 16px; }
+.competitor .url { direction: ltr; text-align: right; font-size: 13px; color: #555; }
+footer { border-top: 1px solid #ddd; padding-top: 12px; color: #777; font-size: 13px; }
+a { color: inherit; }
+@media print { body { padding: 0; } }
+`;
+
+/**
+ * The brief as a standalone RTL page. `print` adds a script that opens the
+ * print dialog once it loads; `title` becomes the suggested PDF filename.
+ */
+export function renderBrandBriefHtml(brief: BrandBrief, { title, print = false }: { title: string; print?: boolean }): string {
+  const colors = brief.brand_colors
+    .map((color) => {
+      const swatch = CSS_COLOR.test(color) ? `<span style="background:${color}"></span>` : '';
+      return `<div class="swatch">${swatch}${html(color)}</div>`;
+    })
+    .join('');
+
+  const fonts = brief.brand_fonts
+    .map((font) => `<li${FONT_NAME.test(font) ? ` style="font-family:'${font}'"` : ''}>${html(font)}</li>`)
+    .join('');
+
+  const competitors = brief.competitors
+    .map(
+      (competitor) =>
+        `<div class="competitor"><h3>${html(competitor.name)}</h3><div class="url">${htmlLink(competitor.url)}</div>` +
+        `${htmlText(competitor.tagline)}${htmlList(competitor.services)}</div>`
+    )
+    .join('');
+
+  const body = [
+    '<header><div>',
+    `<h1>${html(brief.company_name)}</h1>`,
+    `<p class="subtitle">${html(LABELS.title)}</p>`,
+    '</div>',
+    brief.logo_url ? `<img src="${html(brief.logo_url)}" alt="${html(LABELS.logo)}">` : '',
+    '</header>',
+    htmlFacts([
+      [LABELS.industry, brief.industry && html(brief.industry)],
+      [LABELS.site, brief.site_url && htmlLink(brief.site_url)],
+      [LABELS.mission, brief.mission && html(brief.mission)],
+    ]),
+    htmlSection(LABELS.services, htmlList(brief.products_services)),
+    htmlSection(LABELS.audience, htmlText(brief.target_audience)),
+    htmlSection(LABELS.uvp, htmlText(brief.unique_value_proposition)),
+    htmlSection(LABELS.voice, htmlText(brief.brand_voice)),
+    htmlSection(LABELS.messages, htmlList(brief.key_messaging)),
+    htmlSection(LABELS.colors, colors && `<div class="swatches">${colors}</div>`),
+    htmlSection(LABELS.fonts, fonts && `<ul class="fonts">${fonts}</ul>`),
+    htmlSection(
+      LABELS.contact,
+      htmlFacts([
+        [LABELS.phone, brief.contact.phone && `<bdi dir="ltr">${html(brief.contact.phone)}</bdi>`],
+        [LABELS.address, brief.contact.address && html(brief.contact.address)],
+        [LABELS.hours, brief.contact.opening_hours && html(brief.contact.opening_hours)],
+        [LABELS.channels, brief.contact.channels.length > 0 ? html(brief.contact.channels.join(', ')) : null],
+      ])
+    ),
+    htmlSection(LABELS.competitors, competitors),
+    `<footer>${html(LABELS.generated)} ${html(brief.date)}</footer>`,
+  ].join('\n');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="he" dir="rtl">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${html(title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    body,
+    print ? "<script>window.addEventListener('load', () => window.print());</script>" : '',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * The file for `format`: its text and its name
+ */
+export function renderBrandBrief(
+  profile: ProfileFields,
+  format: BrandBriefFormat,
+  { now = new Date(), print = false }: { now?: Date; print?: boolean } = {}
+): { filename: string; content: string } {
+  const brief = buildBrandBrief(profile, now);
+  const filename = briefFilename(brief.company_name, format, brief.date);
+
+  switch (format) {
+    case 'markdown':
+      return { filename, content: renderBrandBriefMarkdown(brief) };
+    case 'html':
+      return { filename, content: renderBrandBriefHtml(brief, { title: filename.replace(/\.html$/, ''), print }) };
+    case 'json':
+      return { filename, content: JSON.stringify(brief, null, 2) + '\n' };
+    case 'toon':
+      return { filename, content: safeToonEncodeString(brief) + '\n' };
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Business Category Classification
+ *
+ * Guesses the `BusinessCategory` of a business from what it says about
+ * itself - the scanned or typed description and its services - so the chat
+ * can ask the matching screen-3 questions (lib/question-bank.ts).
+ *
+ * Keyword scoring, not a model: every keyword found in the text adds its
+ * word count to its category's score, so "חנות אונליין" outweighs a bare
+ * "חנות"; on a tie the category with the longest matched keyword wins.
+ * Secondary texts (a model's summary next to the user's own words) count
+ * half. The user can always override the result.
+ *
+ * Client-safe - no server imports.
+ */
+
+import type { BusinessCategory } from '@/types/onboarding';
+
+// Used when nothing in the text points anywhere
+export const DEFAULT_BUSINESS_CATEGORY: BusinessCategory = 'b2b_service';
+
+const CATEGORY_KEYWORDS: Record<BusinessCategory, string[]> = {
+  b2c_retail: [
+    'חנות', 'בוטיק', 'אופנה', 'ביגוד', 'הנעלה', 'תכשיטים', 'רהיטים', 'צעצועים', 'קוסמטיקה', 'מתנות',
+    'store', 'shop', 'retail', 'boutique', 'fashion', 'jewelry',
+  ],
+  ecommerce: [
+    'חנות אונליין', 'חנות מקוונת', 'קנייה אונליין', 'הזמנה אונליין', 'משלוח עד הבית', 'משלוחים', 'סל קניות',
+    'online store', 'online shop', 'e-commerce', 'ecommerce', 'shopify', 'woocommerce', 'free shipping',
+  ],
+  b2b_service: [
+    'לעסקים', 'לחברות', 'ארגונים', 'ייעוץ עסקי', 'שיווק דיגיטלי', 'קידום ממומן', 'ניהול מדיה', 'פיתוח אתרים',
+    'הנהלת חשבונות', 'גיוס עובדים', 'מיתוג', 'ייעוץ שיווקי',
+    'b2b', 'consulting', 'agency', 'marketing', 'outsourcing',
+  ],
+  local_service: [
+    'שיפוצים', 'אינסטלטור', 'אינסטלציה', 'חשמלאי', 'ניקיון', 'הובלות', 'גינון', 'מוסך', 'מספרה', 'מיזוג אוויר',
+    'הדברה', 'מנעולן', 'באזור', 'עד הבית',
+    'plumber', 'plumbing', 'electrician', 'cleaning', 'moving', 'repair', 'salon', 'landscaping',
+  ],
+  professional_practice: [
+    'עורך דין', 'עורכת דין', 'משרד עורכי דין', 'רואה חשבון', 'קליניקה', 'מרפאה', 'רופא', 'רופאת', 'פסיכולוג',
+    'טיפול', 'מטפל', 'מטפלת', 'דיאטנית', 'פיזיותרפיה', 'אימון אישי', 'מאמן', 'מאמנת',
+    'lawyer', 'attorney', 'clinic', 'therapist', 'therapy', 'dentist', 'coach',
+  ],
+  hospitality: [
+    'מסעדה', 'בית קפה', 'קייטרינג', 'אירועים', 'אולם', 'מלון', 'צימר', 'צימרים', 'מאפייה', 'תפריט',
+    'restaurant', 'cafe', 'catering', 'hotel', 'bakery', 'events', 'venue',
+  ],
+  saas: [
+    'תוכנה', 'אפליקציה', 'פלטפורמה', 'מערכת ניהול', 'מנוי חודשי', 'ענן', 'אוטומציה', 'ממשק',
+    'software', 'saas', 'app', 'platform', 'subscription', 'cloud', 'crm', 'api', 'dashboard',
+  ],
+};
+
+export interface CategoryClassification {
+  category: BusinessCategory;
+  // Share of the matched keyword weight that went to `category`, 0-1
+  confidence: number;
+  scores: Record<BusinessCategory, number>;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Latin keywords must match whole words ("app" shouldn't match "happy");
+// Hebrew ones may carry a prefix letter (ה, ל, ב, ...) so they match anywhere
+function keywordMatcher(keyword: string): (text: string) => boolean {
+  if (/^[\x20-\x7e]+$/.test(keyword)) {
+    const pattern = new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'i');
+    return (text) => pattern.test(text);
+  }
+  return (text) => text.includes(keyword);
+}
+
+const SECONDARY_WEIGHT = 0.5;
+
+const MATCHERS = (Object.entries(CATEGORY_KEYWORDS) as [BusinessCategory, string[]][]).flatMap(
+  ([category, keywords]) =>
+    keywords.map((keyword) => ({
+      category,
+      length: keyword.length,
+      weight: keyword.split(/\s+/).length,
+      matches: keywordMatcher(keyword),
+    }))
+);
+
+const joinTexts = (texts: Array<string | null | undefined>) => texts.filter(Boolean).join('\n').toLowerCase();
+
+/**
+ * Classify a business from free-text descriptions and service names;
+ * `secondaryTexts` only lean the result
+ */
+export function classifyBusinessCategory(
+  texts: Array<string | null | undefined>,
+  secondaryTexts: Array<string | null | undefined> = []
+): CategoryClassification {
+  const inputs = [
+    { text: joinTexts(texts), factor: 1 },
+    { text: joinTexts(secondaryTexts), factor: SECONDARY_WEIGHT },
+  ];
+
+  const scores = Object.fromEntries(
+    Object.keys(CATEGORY_KEYWORDS).map((category) => [category, 0])
+  ) as Record<BusinessCategory, number>;
+
+  // Longest keyword matched per category in the primary texts - the more specific one wins a tie
+  const longest = { ...scores };
+
+  for (const { text, factor } of inputs) {
+    if (!text) continue;
+    for (const matcher of MATCHERS) {
+      if (matcher.matches(text)) {
+        scores[matcher.category] += matcher.weight * factor;
+        if (factor === 1) longest[matcher.category] = Math.max(longest[matcher.category], matcher.length);
+      }
+    }
+  }
+
+  const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+  if (total === 0) {
+    return { category: DEFAULT_BUSINESS_CATEGORY, confidence: 0, scores };
+  }
+
+  const [category, score] = (Object.entries(scores) as [BusinessCategory, number][]).reduce((best, entry) =>
+    entry[1] > best[1] || (entry[1] === best[1] && longest[entry[0]] > longest[best[0]]) ? entry : best
+  );
+
+  return { category, confidence: Math.round((score / total) * 100) / 100, scores };
+}
+
+export function isBusinessCategory(value: unknown): value is BusinessCategory {
+  return typeof value === 'string' && Object.hasOwn(CATEGORY_KEYWORDS, value);
+}
@@ -0,0 +1,90 @@
+/**
+ * Competitor Profiles
+ *
+ * Runs each validated competitor URL through the same crawler as the
+ * client's own site (lib/website-scanner.ts) and keeps what Summary compares:
+ * name, tagline, services and brand colors. A site that can't be scanned
+ * still gets a profile, with `error` set, so one bad URL doesn't lose the rest.
+ *
+ * Server-only (fetches through lib/safe-fetch.ts).
+ */
+
+import type { CompetitorProfile, ScannedWebsiteData } from '@/types/onboarding';
+import { fetchErrorMessages } from '@/types/onboarding';
+import { crawlWebsite, WebsiteScanError, type CrawlWebsiteOptions } from './website-scanner';
+import { SafeFetchError } from './safe-fetch';
+
+// Competitors only need the headline facts - keep the crawl small
+const COMPETITOR_MAX_PAGES = 3;
+const COMPETITOR_MAX_BYTES = 1_000_000;
+const MAX_SERVICES = 15;
+
+const GENERIC_MENU_ITEMS = ['בית', 'צור קשר', 'אודות', 'home', 'contact', 'about'];
+
+const SCAN_ERROR_MESSAGES: Record<WebsiteScanError['code'], string> = {
+  invalid_url: fetchErrorMessages.invalid_url,
+  fetch_failed: fetchErrorMessages.unreachable,
+  not_html: 'הכתובת אינה דף אינטרנט',
+};
+
+/**
+ * Same priority as WebsiteScan uses for the client's site:
+ * LLM services > scraped services > menu items, plus scraped products
+ */
+function scannedServices(data: ScannedWebsiteData): string[] {
+  const services = data.services?.length
+    ? data.services
+    : data.services_extracted.length > 0
+      ? data.services_extracted
+      : data.navigation.menu_items.filter((item) => !GENERIC_MENU_ITEMS.includes(item.toLowerCase()));
+
+  return [...new Set([...services, ...data.products_extracted])].slice(0, MAX_SERVICES);
+}
+
+export function toCompetitorProfile(url: string, data: ScannedWebsiteData): CompetitorProfile {
+  return {
+    url,
+    name: data.branding.company_name || new URL(data.url || url).hostname.replace(/^www\./, ''),
+    tagline: data.branding.tagline,
+    services: scannedServices(data),
+    brand_colors: data.colors,
+  };
+}
+
+function failedProfile(url: string, error: unknown): CompetitorProfile {
+  let message: string = fetchErrorMessages.unreachable;
+  if (error instanceof SafeFetchError) message = fetchErrorMessages[error.code];
+  if (error instanceof WebsiteScanError) message = SCAN_ERROR_MESSAGES[error.code];
+
+  let name = url;
+  try {
+    name = new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    // Keep the URL as entered
+  }
+  return { url, name, tagline: '', services: [], brand_colors: [], error: message };
+}
+
+/**
+ * Extract a profile for every URL (in input order). Never throws for a single site.
+ */
+export async function extractCompetitorProfiles(
+  urls: string[],
+  options: CrawlWebsiteOptions = {}
+): Promise<CompetitorProfile[]> {
+  return Promise.all(
+    urls.map(async (url) => {
+      try {
+        const data = await crawlWebsite(url, {
+          maxPages: COMPETITOR_MAX_PAGES,
+          maxBytes: COMPETITOR_MAX_BYTES,
+          ...options,
+        });
+        return toCompetitorProfile(url, data);
+      } catch (error) {
+        console.warn(`[competitor-profiles] Could not scan ${url}:`, error instanceof Error ? error.message : error);
+        return failedProfile(url, error);
+      }
+    })
+  );
+}
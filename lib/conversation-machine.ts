@@ -0,0 +1,298 @@
+/**
+ * Conversation State Machine
+ *
+ * The conversational onboarding (Screens 1-3) as named states, the events a
+ * user message can be in each state, and guarded transitions between them.
+ * /api/onboarding/conversational-chat runs it on the server; GlassOnboarding
+ * and ConversationalOnboarding use it to format their structured replies and
+ * to know what the user may still change.
+ *
+ * Every state belongs to one `ConversationStage`. A state's transitions are
+ * tried in order and the first whose guard passes wins, so an unguarded
+ * transition is the fallback. `conversationGraph()` exports the whole
+ * definition for review (the chat route serves it as JSON or Mermaid).
+ *
+ * Client-safe - no server imports.
+ */
+
+import { assessAnswer } from '@/lib/answer-quality';
+import type {
+  ConversationalChatRequest,
+  ConversationStage,
+  ConversationState,
+  ServiceCustomerPair,
+} from '@/types/onboarding';
+
+export type ConversationEvent =
+  | { type: 'HAS_WEBSITE'; text: string }
+  | { type: 'NO_WEBSITE'; text: string }
+  | { type: 'BUSINESS_DESCRIBED'; text: string }
+  | { type: 'SERVICES_SELECTED'; services: string[] }
+  | { type: 'SERVICES_CONFIRMED'; text: string }
+  | { type: 'CUSTOMERS_MAPPED'; pairs: ServiceCustomerPair[] }
+  | { type: 'SUMMARY_CONFIRMED'; text: string }
+  | { type: 'QUESTION_ANSWERED'; text: string }
+  | { type: 'CLARIFICATION_GIVEN'; text: string }
+  | { type: 'ADDITIONAL_INFO_GIVEN'; text: string };
+
+export type ConversationEventType = ConversationEvent['type'];
+
+export type ConversationGuard = 'answerTooThin' | 'hasMoreQuestions';
+
+// What guards may look at besides the event
+export interface GuardContext {
+  questionIndex: number;
+  questionCount: number;
+}
+
+interface TransitionDefinition {
+  event: ConversationEventType;
+  guard?: ConversationGuard;
+  target: ConversationState;
+}
+
+interface StateDefinition {
+  stage: ConversationStage;
+  /** What the state waits for, for the exported graph */
+  description: string;
+  on: TransitionDefinition[];
+}
+
+export const INITIAL_CONVERSATION_STATE: ConversationState = 'askWebsite';
+
+export const CONVERSATION_MACHINE: Record<ConversationState, StateDefinition> = {
+  askWebsite: {
+    stage: 'initial',
+    description: 'Does the business have a website?',
+    on: [
+      { event: 'HAS_WEBSITE', target: 'awaitingServiceSelection' },
+      { event: 'NO_WEBSITE', target: 'awaitingManualInput' },
+    ],
+  },
+  awaitingManualInput: {
+    stage: 'screen1',
+    description: 'What the business does and offers, in the owner\'s words',
+    on: [{ event: 'BUSINESS_DESCRIBED', target: 'awaitingServiceSelection' }],
+  },
+  awaitingServiceSelection: {
+    stage: 'screen1',
+    description: '1-3 services to focus the marketing on',
+    on: [{ event: 'SERVICES_SELECTED', target: 'awaitingServiceConfirmation' }],
+  },
+  awaitingServiceConfirmation: {
+    stage: 'screen1',
+    description: 'Confirm the services, the product and the business category',
+    on: [{ event: 'SERVICES_CONFIRMED', target: 'awaitingCustomerMapping' }],
+  },
+  awaitingCustomerMapping: {
+    stage: 'screen2',
+    description: 'The customers of each selected service',
+    on: [{ event: 'CUSTOMERS_MAPPED', target: 'awaitingSummaryConfirmation' }],
+  },
+  awaitingSummaryConfirmation: {
+    stage: 'screen2',
+    description: 'Confirm the service-customer table',
+    on: [{ event: 'SUMMARY_CONFIRMED', target: 'askingQuestion' }],
+  },
+  askingQuestion: {
+    stage: 'screen3',
+    description: 'The current category question',
+    on: [
+      { event: 'QUESTION_ANSWERED', guard: 'answerTooThin', target: 'awaitingClarification' },
+      { event: 'QUESTION_ANSWERED', guard: 'hasMoreQuestions', target: 'askingQuestion' },
+      { event: 'QUESTION_ANSWERED', target: 'awaitingAdditionalInfo' },
+    ],
+  },
+  awaitingClarification: {
+    stage: 'screen3',
+    description: 'The question\'s clarification, asked once after a thin answer',
+    on: [
+      { event: 'CLARIFICATION_GIVEN', guard: 'hasMoreQuestions', target: 'askingQuestion' },
+      { event: 'CLARIFICATION_GIVEN', target: 'awaitingAdditionalInfo' },
+    ],
+  },
+  awaitingAdditionalInfo: {
+    stage: 'screen3',
+    description: 'Anything else the owner wants us to know',
+    on: [{ event: 'ADDITIONAL_INFO_GIVEN', target: 'complete' }],
+  },
+  complete: {
+    stage: 'complete',
+    description: 'Conversation finished',
+    on: [],
+  },
+};
+
+const GUARDS: Record<ConversationGuard, (event: ConversationEvent, context: GuardContext) => boolean> = {
+  answerTooThin: (event) => 'text' in event && !assessAnswer(event.text).ok,
+  hasMoreQuestions: (_event, { questionIndex, questionCount }) => questionIndex + 1 < questionCount,
+};
+
+export type ConversationMachineErrorCode = 'illegal_transition' | 'already_complete' | 'missing_input';
+
+/**
+ * Thrown for an event the current state doesn't accept
+ */
+export class ConversationMachineError extends Error {
+  constructor(message: string, public readonly code: ConversationMachineErrorCode) {
+    super(message);
+    this.name = 'ConversationMachineError';
+  }
+}
+
+export function isConversationState(value: unknown): value is ConversationState {
+  return typeof value === 'string' && Object.hasOwn(CONVERSATION_MACHINE, value);
+}
+
+export function conversationStage(state: ConversationState): ConversationStage {
+  return CONVERSATION_MACHINE[state].stage;
+}
+
+/**
+ * The business category can be changed until the category questions start
+ */
+export function canPickCategory(state: ConversationState): boolean {
+  const stage = conversationStage(state);
+  return stage !== 'screen3' && stage !== 'complete';
+}
+
+// Structured replies - the components send the picks as request fields and
+// these as the user's message, so a service name may contain anything
+export function formatServiceSelection(services: string[]): string {
+  return services.join(', ');
+}
+
+export function formatCustomerMapping(pairs: ServiceCustomerPair[]): string {
+  return pairs.map(({ service, customers }) => `${service}: ${customers.join(', ')}`).join(' | ');
+}
+
+/**
+ * The customers the user typed for a service, comma-separated
+ */
+export function parseCustomers(text: string): string[] {
+  return text
+    .split(',')
+    .map((customer) => customer.trim())
+    .filter(Boolean);
+}
+
+// What a user message carries: its text, and the picks made with the message's controls
+export type ConversationInput = Pick<ConversationalChatRequest, 'message' | 'selectedServices' | 'serviceCustomerPairs'>;
+
+export type ConversationPicks = Omit<ConversationInput, 'message'>;
+
+/**
+ * The event a user message is in `state`
+ *
+ * @throws ConversationMachineError `already_complete` in the final state,
+ * `missing_input` when the state's picks weren't sent
+ */
+export function eventForMessage(state: ConversationState, input: ConversationInput): ConversationEvent {
+  const text = input.message;
+  switch (state) {
+    case 'askWebsite': {
+      const answer = text.toLowerCase();
+      const hasWebsite = answer.includes('כן') || answer.includes('יש');
+      return hasWebsite ? { type: 'HAS_WEBSITE', text } : { type: 'NO_WEBSITE', text };
+    }
+    case 'awaitingManualInput':
+      return { type: 'BUSINESS_DESCRIBED', text };
+    case 'awaitingServiceSelection':
+      if (!input.selectedServices) {
+        throw new ConversationMachineError('selectedServices is required to pick services', 'missing_input');
+      }
+      return { type: 'SERVICES_SELECTED', services: input.selectedServices };
+    case 'awaitingServiceConfirmation':
+      return { type: 'SERVICES_CONFIRMED', text };
+    case 'awaitingCustomerMapping':
+      if (!input.serviceCustomerPairs) {
+        throw new ConversationMachineError('serviceCustomerPairs is required to map customers', 'missing_input');
+      }
+      return { type: 'CUSTOMERS_MAPPED', pairs: input.serviceCustomerPairs };
+    case 'awaitingSummaryConfirmation':
+      return { type: 'SUMMARY_CONFIRMED', text };
+    case 'askingQuestion':
+      return { type: 'QUESTION_ANSWERED', text };
+    case 'awaitingClarification':
+      return { type: 'CLARIFICATION_GIVEN', text };
+    case 'awaitingAdditionalInfo':
+      return { type: 'ADDITIONAL_INFO_GIVEN', text };
+    case 'complete':
+      throw new ConversationMachineError('Conversation is already complete', 'already_complete');
+  }
+}
+
+/**
+ * The state `event` moves `state` to
+ *
+ * @throws ConversationMachineError `already_complete` in the final state,
+ * `illegal_transition` when the state doesn't accept the event
+ */
+export function nextConversationState(
+  state: ConversationState,
+  event: ConversationEvent,
+  context: GuardContext
+): ConversationState {
+  if (state === 'complete') {
+    throw new ConversationMachineError('Conversation is already complete', 'already_complete');
+  }
+
+  const transition = CONVERSATION_MACHINE[state].on.find(
+    ({ event: type, guard }) => type === event.type && (!guard || GUARDS[guard](event, context))
+  );
+  if (!transition) {
+    throw new ConversationMachineError(`Illegal transition: ${event.type} in ${state}`, 'illegal_transition');
+  }
+  return transition.target;
+}
+
+// ============================================================================
+// Graph export
+// ============================================================================
+
+export interface ConversationGraph {
+  initial: ConversationState;
+  states: Array<{ id: ConversationState; stage: ConversationStage; description: string }>;
+  transitions: Array<{
+    from: ConversationState;
+    event: ConversationEventType;
+    guard?: ConversationGuard;
+    to: ConversationState;
+  }>;
+}
+
+export function conversationGraph(): ConversationGraph {
+  const entries = Object.entries(CONVERSATION_MACHINE) as Array<[ConversationState, StateDefinition]>;
+  return {
+    initial: INITIAL_CONVERSATION_STATE,
+    states: entries.map(([id, { stage, description }]) => ({ id, stage, description })),
+    transitions: entries.flatMap(([from, { on }]) =>
+      on.map(({ event, guard, target }) => ({ from, event, ...(guard && { guard }), to: target }))
+    ),
+  };
+}
+
+/**
+ * The graph as a Mermaid state diagram, states grouped by stage
+ */
+export function conversationGraphMermaid(graph: ConversationGraph = conversationGraph()): string {
+  const lines = ['stateDiagram-v2', `  [*] --> ${graph.initial}`];
+
+  const stages = [...new Set(graph.states.map((state) => state.stage))];
+  for (const stage of stages) {
+    lines.push(`  state "${stage}" as stage_${stage} {`);
+    for (const state of graph.states.filter((s) => s.stage === stage)) {
+      lines.push(`    ${state.id} : ${state.description}`);
+    }
+    lines.push('  }');
+  }
+
+  for (const { from, event, guard, to } of graph.transitions) {
+    lines.push(`  ${from} --> ${to} : ${event}${guard ? ` [${guard}]` : ''}`);
+  }
+  for (const state of graph.states.filter((s) => CONVERSATION_MACHINE[s.id].on.length === 0)) {
+    lines.push(`  ${state.id} --> [*]`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,144 @@
+/**
+ * Conversation Sessions
+ *
+ * Server-owned state of the conversational onboarding chat
+ * (/api/onboarding/conversational-chat). The client only sends its next
+ * message and the session id; the machine state (lib/conversation-machine.ts),
+ * `sessionData` and transcript live here, one JSON file per session under
+ * `CONVERSATION_STORE_DIR` (default `.data/conversations`). Sessions older
+ * than `CONVERSATION_TTL_MS` are treated as gone.
+ *
+ * Server-only (uses the filesystem).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { INITIAL_CONVERSATION_STATE, isConversationState } from '@/lib/conversation-machine';
+import type {
+  ChatMessage,
+  ConversationalChatResponse,
+  ConversationSessionData,
+  ConversationState,
+} from '@/types/onboarding';
+
+export type ConversationSessionErrorCode = 'not_found' | 'too_large';
+
+export class ConversationSessionError extends Error {
+  constructor(message: string, public readonly code: ConversationSessionErrorCode) {
+    super(message);
+    this.name = 'ConversationSessionError';
+  }
+}
+
+export interface ConversationSession {
+  id: string;
+  state: ConversationState;
+  sessionData: ConversationSessionData;
+  // Every turn, oldest first
+  messages: ChatMessage[];
+  // The last turn's response, for a client that lost it with a cut stream
+  lastTurn?: { id: string; response: ConversationalChatResponse };
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ConversationSessionStore {
+  /** @throws ConversationSessionError `not_found` (also for expired sessions) */
+  get(id: string): Promise<ConversationSession>;
+  /** Create or replace. @throws ConversationSessionError `not_found` for invalid ids, `too_large` */
+  put(session: ConversationSession): Promise<ConversationSession>;
+  /** Deleting a missing session is not an error */
+  delete(id: string): Promise<void>;
+}
+
+export const DEFAULT_CONVERSATION_STORE_DIR = path.join(process.cwd(), '.data', 'conversations');
+
+export const CONVERSATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const MAX_CONVERSATION_BYTES = 512 * 1024;
+
+// Ids come back from the client and end up in file names
+const SESSION_ID_PATTERN = /^conv_[A-Za-z0-9-]{1,64}$/;
+
+function notFound(id: string): ConversationSessionError {
+  return new ConversationSessionError(`Conversation not found: ${id}`, 'not_found');
+}
+
+/**
+ * A fresh session at the start of the conversation - not stored until `put`
+ */
+export function newConversationSession(): ConversationSession {
+  const now = new Date().toISOString();
+  return {
+    id: `conv_${randomUUID()}`,
+    state: INITIAL_CONVERSATION_STATE,
+    sessionData: {},
+    messages: [],
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+export function createFileConversationSessionStore(
+  dir: string = DEFAULT_CONVERSATION_STORE_DIR
+): ConversationSessionStore {
+  const fileFor = (id: string) => {
+    if (!SESSION_ID_PATTERN.test(id)) {
+      throw notFound(id);
+    }
+    return path.join(dir, `${id}.json`);
+  };
+
+  return {
+    async get(id) {
+      let session: ConversationSession;
+      try {
+        session = JSON.parse(await fs.readFile(fileFor(id), 'utf8')) as ConversationSession;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') throw notFound(id);
+        throw error;
+      }
+
+      // Sessions saved before the state machine have no state to continue from
+      if (
+        !isConversationState(session.state) ||
+        Date.now() - new Date(session.updated_at).getTime() > CONVERSATION_TTL_MS
+      ) {
+        throw notFound(id);
+      }
+      return session;
+    },
+
+    async put(session) {
+      const file = fileFor(session.id);
+      const json = JSON.stringify(session);
+      if (Buffer.byteLength(json, 'utf8') > MAX_CONVERSATION_BYTES) {
+        throw new ConversationSessionError(`Conversation exceeds ${MAX_CONVERSATION_BYTES} bytes`, 'too_large');
+      }
+
+      await fs.mkdir(dir, { recursive: true });
+      const tempFile = `${file}.${randomUUID()}.tmp`;
+      await fs.writeFile(tempFile, json, 'utf8');
+      await fs.rename(tempFile, file);
+      return session;
+    },
+
+    async delete(id) {
+      await fs.rm(fileFor(id), { force: true });
+    },
+  };
+}
+
+let defaultStore: ConversationSessionStore | null = null;
+
+/**
+ * Store used by the API routes (file backend in `CONVERSATION_STORE_DIR`)
+ */
+export function getConversationSessionStore(): ConversationSessionStore {
+  if (!defaultStore) {
+    defaultStore = createFileConversationSessionStore(
+      process.env.CONVERSATION_STORE_DIR || DEFAULT_CONVERSATION_STORE_DIR
+    );
+  }
+  return defaultStore;
+}
@@ -0,0 +1,83 @@
+/**
+ * Shared helpers for the /api/onboarding/draft routes
+ *
+ * Saving a draft also remembers its id in a cookie per kind
+ * (`onboarding-draft-<kind>`), so a browser whose local copy is gone can
+ * still find the server copy: GET /api/onboarding/draft?kind=<kind>.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DraftStoreError, DRAFT_TTL_MS } from '@/lib/draft-store';
+import { RequestBodyError, requestBodyErrorResponse } from '@/lib/request-body';
+import type { DraftKind } from '@/types/onboarding';
+
+const DRAFT_ERROR_STATUS = {
+  not_found: 404,
+  too_large: 413,
+} as const;
+
+const DRAFT_KINDS: readonly DraftKind[] = ['wizard', 'glass-chat', 'conversational-chat'];
+
+const COOKIE_PATH = '/api/onboarding/draft';
+
+export function isDraftKind(value: unknown): value is DraftKind {
+  return (DRAFT_KINDS as readonly unknown[]).includes(value);
+}
+
+export function draftCookieName(kind: DraftKind): string {
+  return `onboarding-draft-${kind}`;
+}
+
+/**
+ * Point the kind's cookie at `draft`
+ */
+export function rememberDraft(response: NextResponse, { id, kind }: { id: string; kind: DraftKind }): void {
+  response.cookies.set(draftCookieName(kind), id, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: COOKIE_PATH,
+    maxAge: DRAFT_TTL_MS / 1000,
+  });
+}
+
+/**
+ * Clear the cookies that point at a deleted draft
+ */
+export function forgetDraft(request: NextRequest, response: NextResponse, id: string): void {
+  for (const kind of DRAFT_KINDS) {
+    if (request.cookies.get(draftCookieName(kind))?.value === id) {
+      response.cookies.set(draftCookieName(kind), '', { path: COOKIE_PATH, maxAge: 0 });
+    }
+  }
+}
+
+/**
+ * Error response for a draft route: body errors -> 4xx, store errors -> 404/413,
+ * anything else -> 500
+ */
+export function draftErrorResponse(error: unknown, action: string, fallbackMessage: string) {
+  if (error instanceof RequestBodyError) {
+    return requestBodyErrorResponse(error);
+  }
+
+  if (error instanceof DraftStoreError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        code: error.code,
+      },
+      { status: DRAFT_ERROR_STATUS[error.code] }
+    );
+  }
+
+  console.error(`[API] ${action} error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : fallbackMessage,
+    },
+    { status: 500 }
+  );
+}
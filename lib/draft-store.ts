@@ -0,0 +1,108 @@
+/**
+ * Draft Store
+ *
+ * Server copy of the progress autosaved by hooks/use-onboarding-draft.ts.
+ * One JSON file per draft under `DRAFT_STORE_DIR` (default `.data/drafts`);
+ * the state is kept as the client sent it. Drafts older than `DRAFT_TTL_MS`
+ * are treated as gone.
+ *
+ * Server-only (uses the filesystem).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { DraftKind } from '@/types/onboarding';
+
+export type DraftStoreErrorCode = 'not_found' | 'too_large';
+
+export class DraftStoreError extends Error {
+  constructor(message: string, public readonly code: DraftStoreErrorCode) {
+    super(message);
+    this.name = 'DraftStoreError';
+  }
+}
+
+export interface StoredDraft {
+  id: string;
+  kind: DraftKind;
+  saved_at: string;
+  state: unknown;
+}
+
+export interface DraftStore {
+  /** @throws DraftStoreError `not_found` (also for expired drafts) */
+  get(id: string): Promise<StoredDraft>;
+  /** Create or replace. @throws DraftStoreError `not_found` for invalid ids, `too_large` */
+  put(draft: StoredDraft): Promise<StoredDraft>;
+  /** Deleting a missing draft is not an error */
+  delete(id: string): Promise<void>;
+}
+
+export const DEFAULT_DRAFT_STORE_DIR = path.join(process.cwd(), '.data', 'drafts');
+
+export const DRAFT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const MAX_DRAFT_BYTES = 512 * 1024;
+
+// Client-generated ids end up in file names
+const DRAFT_ID_PATTERN = /^draft_[A-Za-z0-9-]{1,64}$/;
+
+function notFound(id: string): DraftStoreError {
+  return new DraftStoreError(`Draft not found: ${id}`, 'not_found');
+}
+
+export function createFileDraftStore(dir: string = DEFAULT_DRAFT_STORE_DIR): DraftStore {
+  const fileFor = (id: string) => {
+    if (!DRAFT_ID_PATTERN.test(id)) {
+      throw notFound(id);
+    }
+    return path.join(dir, `${id}.json`);
+  };
+
+  return {
+    async get(id) {
+      let draft: StoredDraft;
+      try {
+        draft = JSON.parse(await fs.readFile(fileFor(id), 'utf8')) as StoredDraft;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') throw notFound(id);
+        throw error;
+      }
+
+      if (Date.now() - new Date(draft.saved_at).getTime() > DRAFT_TTL_MS) {
+        throw notFound(id);
+      }
+      return draft;
+    },
+
+    async put(draft) {
+      const file = fileFor(draft.id);
+      const json = JSON.stringify(draft);
+      if (Buffer.byteLength(json, 'utf8') > MAX_DRAFT_BYTES) {
+        throw new DraftStoreError(`Draft exceeds ${MAX_DRAFT_BYTES} bytes`, 'too_large');
+      }
+
+      await fs.mkdir(dir, { recursive: true });
+      const tempFile = `${file}.${randomUUID()}.tmp`;
+      await fs.writeFile(tempFile, json, 'utf8');
+      await fs.rename(tempFile, file);
+      return draft;
+    },
+
+    async delete(id) {
+      await fs.rm(fileFor(id), { force: true });
+    },
+  };
+}
+
+let defaultStore: DraftStore | null = null;
+
+/**
+ * Store used by the API routes (file backend in `DRAFT_STORE_DIR`)
+ */
+export function getDraftStore(): DraftStore {
+  if (!defaultStore) {
+    defaultStore = createFileDraftStore(process.env.DRAFT_STORE_DIR || DEFAULT_DRAFT_STORE_DIR);
+  }
+  return defaultStore;
+}
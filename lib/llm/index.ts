@@ -0,0 +1,56 @@
+/**
+ * LLM access for API routes
+ *
+ * `getLlmProvider()` picks the backend from the environment:
+ *
+ * - `LLM_PROVIDER=stub` (default) - replays lib/fixtures/llm-stub.json, so
+ *   the whole onboarding flow runs offline and deterministically
+ * - `LLM_PROVIDER=openai` - any OpenAI-compatible endpoint, configured with
+ *   `LLM_API_KEY`, `LLM_BASE_URL` (default https://api.openai.com/v1) and
+ *   `LLM_MODEL` (default gpt-4o-mini)
+ *
+ * Server-only.
+ */
+
+import { createOpenAiProvider } from './openai-provider';
+import { createStubProvider } from './stub-provider';
+import { LlmError, type LlmProvider } from './provider';
+
+export { LlmError, LLM_ERROR_STATUS } from './provider';
+export type { LlmErrorCode, LlmMessage, LlmProvider } from './provider';
+export { renderPrompt } from './prompts';
+export type { PromptId, PromptVariables, RenderedPrompt } from './prompts';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+let defaultProvider: LlmProvider | null = null;
+
+/**
+ * Provider used by the onboarding routes (`LLM_PROVIDER`, default `stub`)
+ *
+ * @throws LlmError (`not_configured`) when the openai backend has no API key
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!defaultProvider) {
+    const configured = process.env.LLM_PROVIDER || 'stub';
+
+    if (configured === 'openai') {
+      const apiKey = process.env.LLM_API_KEY;
+      if (!apiKey) {
+        throw new LlmError('LLM_PROVIDER is "openai" but LLM_API_KEY is not set', 'not_configured');
+      }
+      defaultProvider = createOpenAiProvider({
+        apiKey,
+        baseUrl: process.env.LLM_BASE_URL || DEFAULT_BASE_URL,
+        model: process.env.LLM_MODEL || DEFAULT_MODEL,
+      });
+    } else {
+      if (configured !== 'stub') {
+        console.warn(`[llm] Unknown LLM_PROVIDER "${configured}" - using the stub provider`);
+      }
+      defaultProvider = createStubProvider();
+    }
+  }
+  return defaultProvider;
+}
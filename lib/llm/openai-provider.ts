@@ -0,0 +1,149 @@
+/**
+ * OpenAI-compatible LLM Provider
+ *
+ * Talks to any `/chat/completions` endpoint that follows the OpenAI API
+ * (OpenAI itself, Azure OpenAI, OpenRouter, a local vLLM or Ollama server,
+ * ...). Streamed completions read the endpoint's own event stream;
+ * extractions ask for a JSON object and check it against the request's
+ * schema.
+ */
+
+import { parseWithSchema } from '@/lib/schema';
+import { readSseEvents } from '@/lib/sse';
+import { LlmError, type LlmMessage, type LlmProvider } from './provider';
+
+export interface OpenAiProviderOptions {
+  apiKey: string;
+  /** e.g. https://api.openai.com/v1 */
+  baseUrl: string;
+  model: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+type ChatMessages = Array<{ role: 'system' | LlmMessage['role']; content: string }>;
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+// One `data:` event of a streamed completion
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+}
+
+// Some models wrap JSON in a ```json fence even when asked not to
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return match ? match[1] : text;
+}
+
+export function createOpenAiProvider({
+  apiKey,
+  baseUrl,
+  model,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+}: OpenAiProviderOptions): LlmProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (
+    messages: ChatMessages,
+    extra: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({ model, messages, ...extra }),
+        signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]) : AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      throw new LlmError(
+        `LLM request failed: ${error instanceof Error ? error.message : String(error)}`,
+        'request_failed'
+      );
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LlmError(`LLM request failed with HTTP ${response.status}: ${detail.slice(0, 200)}`, 'request_failed');
+    }
+    return response;
+  };
+
+  const chat = async (messages: ChatMessages, extra: Record<string, unknown>): Promise<string> => {
+    const response = await post(messages, extra);
+    const data = (await response.json().catch(() => null)) as ChatCompletionResponse | null;
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || content.trim() === '') {
+      throw new LlmError('LLM response has no message content', 'invalid_response');
+    }
+    return content.trim();
+  };
+
+  return {
+    name: 'openai',
+
+    complete({ prompt, messages }) {
+      return chat([{ role: 'system', content: prompt.text }, ...messages], { temperature: 0.7 });
+    },
+
+    async *stream({ prompt, messages, signal }) {
+      const response = await post(
+        [{ role: 'system', content: prompt.text }, ...messages],
+        { temperature: 0.7, stream: true },
+        signal
+      );
+      if (!response.body) {
+        throw new LlmError('LLM stream has no body', 'invalid_response');
+      }
+
+      try {
+        for await (const { data } of readSseEvents(response.body)) {
+          if (data === '[DONE]') return;
+          const chunk = JSON.parse(data) as ChatCompletionChunk;
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      } catch (error) {
+        if (signal?.aborted) return;
+        throw new LlmError(
+          `LLM stream failed: ${error instanceof Error ? error.message : String(error)}`,
+          'request_failed'
+        );
+      }
+    },
+
+    async extract({ prompt, input, schema }) {
+      const content = await chat(
+        [
+          { role: 'system', content: prompt.text },
+          { role: 'user', content: input },
+        ],
+        { temperature: 0, response_format: { type: 'json_object' } }
+      );
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(stripCodeFence(content));
+      } catch {
+        throw new LlmError(`LLM extraction for "${prompt.id}" is not valid JSON`, 'invalid_response');
+      }
+
+      const result = parseWithSchema(schema, parsed);
+      if (!result.success) {
+        throw new LlmError(
+          `LLM extraction for "${prompt.id}" doesn't match the schema: ${result.errors.map((e) => e.path).join(', ')}`,
+          'invalid_response'
+        );
+      }
+      return result.data;
+    },
+  };
+}
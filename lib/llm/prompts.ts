@@ -0,0 +1,47 @@
+/**
+ * Prompt Templates
+ *
+ * The system prompts live as markdown next to this file
+ * (lib/llm/prompts/<id>.md) so they can be read and reviewed as text.
+ * `{{name}}` placeholders are filled from the variables passed to
+ * `renderPrompt`; lists are joined with commas and missing values render
+ * as empty strings.
+ *
+ * Server-only (reads the templates from disk).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type PromptId = 'onboarding-chat' | 'business-summary' | 'gap-questions' | 'questionnaire-extraction';
+
+export type PromptVariables = Record<string, string | string[] | null | undefined>;
+
+export interface RenderedPrompt {
+  id: PromptId;
+  text: string;
+}
+
+const PROMPTS_DIR = path.join(process.cwd(), 'lib', 'llm', 'prompts');
+
+const templates = new Map<PromptId, Promise<string>>();
+
+function loadTemplate(id: PromptId): Promise<string> {
+  let template = templates.get(id);
+  if (!template) {
+    template = fs.readFile(path.join(PROMPTS_DIR, `${id}.md`), 'utf-8');
+    // Don't cache a failed read - the next request tries again
+    template.catch(() => templates.delete(id));
+    templates.set(id, template);
+  }
+  return template;
+}
+
+export async function renderPrompt(id: PromptId, variables: PromptVariables = {}): Promise<RenderedPrompt> {
+  const template = await loadTemplate(id);
+  const text = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    const value = variables[name];
+    return Array.isArray(value) ? value.join(', ') : (value ?? '');
+  });
+  return { id, text: text.trim() };
+}
@@ -0,0 +1,61 @@
+/**
+ * LLM Provider Interface
+ *
+ * What the onboarding routes need from a language model: a chat completion
+ * (the next assistant message, whole or streamed) and a structured
+ * extraction (a JSON object checked against a schema from lib/schema.ts).
+ * Every request carries a rendered prompt template (lib/llm/prompts.ts) so
+ * providers - including the offline stub - know which conversation they
+ * are in.
+ */
+
+import type { Schema } from '@/lib/schema';
+import type { RenderedPrompt } from './prompts';
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  prompt: RenderedPrompt;
+  /** Conversation so far, oldest first (empty for an opening message) */
+  messages: LlmMessage[];
+  /** Stops a streamed completion when the client goes away */
+  signal?: AbortSignal;
+}
+
+export interface ExtractionRequest<T> {
+  prompt: RenderedPrompt;
+  /** Text the structured data is extracted from */
+  input: string;
+  schema: Schema<T>;
+}
+
+export interface LlmProvider {
+  /** Backend name, for logs */
+  name: string;
+  complete(request: CompletionRequest): Promise<string>;
+  /** Same reply as `complete`, as text deltas while it is generated */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+  extract<T>(request: ExtractionRequest<T>): Promise<T>;
+}
+
+export type LlmErrorCode = 'not_configured' | 'request_failed' | 'invalid_response';
+
+/**
+ * Thrown when the provider can't be used or its answer can't be used
+ */
+export class LlmError extends Error {
+  constructor(message: string, public readonly code: LlmErrorCode) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+// Routes answer with these when an LLM call fails
+export const LLM_ERROR_STATUS: Record<LlmErrorCode, number> = {
+  not_configured: 503,
+  request_failed: 502,
+  invalid_response: 502,
+};
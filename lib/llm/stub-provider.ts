@@ -0,0 +1,104 @@
+/**
+ * Stub LLM Provider
+ *
+ * Deterministic, offline stand-in for a real model: answers replay
+ * lib/fixtures/llm-stub.json. Completions are picked by how many user
+ * messages the conversation has (the n-th reply answers the n-th message,
+ * the last one repeats; streamed word by word), extractions return the
+ * prompt's fixture object. Fixtures still go through the request's schema,
+ * so a stale fixture fails the same way a bad model answer would.
+ *
+ * Fixture strings of the form `{{input}}` are replaced with the extraction
+ * input and, when the input is a JSON object, `{{key}}` with its `key` value -
+ * inside a list, split into items - so a fixture can echo what the user wrote.
+ */
+
+import { parseWithSchema } from '@/lib/schema';
+import defaultFixture from '@/lib/fixtures/llm-stub.json';
+import { splitTextDeltas } from '@/lib/sse';
+import { LlmError, type CompletionRequest, type LlmProvider } from './provider';
+import type { PromptId } from './prompts';
+
+export interface LlmStubFixture {
+  completions: Partial<Record<PromptId, string[]>>;
+  extractions: Partial<Record<PromptId, unknown>>;
+}
+
+const PLACEHOLDER = /^\{\{(\w+)\}\}$/;
+
+function parseInputObject(input: string): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(input);
+    return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function placeholderText(input: string, key: string): string {
+  if (key === 'input') return input.trim();
+  const value = parseInputObject(input)?.[key];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function fillPlaceholders(value: unknown, input: string): unknown {
+  if (typeof value === 'string') {
+    const match = PLACEHOLDER.exec(value);
+    return match ? placeholderText(input, match[1]) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      const match = typeof item === 'string' ? PLACEHOLDER.exec(item) : null;
+      if (!match) return [fillPlaceholders(item, input)];
+      return placeholderText(input, match[1]).split(/[,\n]/).map((part) => part.trim()).filter(Boolean);
+    });
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillPlaceholders(item, input)]));
+  }
+  return value;
+}
+
+export function createStubProvider(fixture: LlmStubFixture = defaultFixture): LlmProvider {
+  const replyFor = ({ prompt, messages }: CompletionRequest): string => {
+    const replies = fixture.completions[prompt.id];
+    if (!replies || replies.length === 0) {
+      throw new LlmError(`No stub completions for prompt "${prompt.id}"`, 'invalid_response');
+    }
+
+    const userTurns = messages.filter((message) => message.role === 'user').length;
+    return replies[Math.min(userTurns, replies.length - 1)];
+  };
+
+  return {
+    name: 'stub',
+
+    async complete(request) {
+      return replyFor(request);
+    },
+
+    async *stream(request) {
+      for (const delta of splitTextDeltas(replyFor(request))) {
+        if (request.signal?.aborted) return;
+        yield delta;
+      }
+    },
+
+    async extract({ prompt, input, schema }) {
+      if (!(prompt.id in fixture.extractions)) {
+        throw new LlmError(`No stub extraction for prompt "${prompt.id}"`, 'invalid_response');
+      }
+
+      const result = parseWithSchema(schema, fillPlaceholders(fixture.extractions[prompt.id], input));
+      if (!result.success) {
+        throw new LlmError(
+          `Stub extraction for "${prompt.id}" doesn't match the schema: ${result.errors.map((e) => e.path).join(', ')}`,
+          'invalid_response'
+        );
+      }
+      return result.data;
+    },
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * Client Fetch Helpers for the Onboarding API
+ *
+ * Posts TOON-encoded bodies (same as before) but checks both directions
+ * against lib/onboarding-schemas.ts:
+ * - the outgoing payload, so field errors show up before a round trip
+ * - the route response, so components never work on an unexpected shape
+ *
+ * `streamOnboardingApi` does the same for the chat routes' streaming mode,
+ * `downloadOnboardingFile` for routes that answer with a file.
+ */
+
+import { safeToonDecode, safeToonEncodeString } from '@/lib/toon-utils';
+import { parseWithSchema, type Schema } from '@/lib/schema';
+import { readSseEvents, SSE_CONTENT_TYPE } from '@/lib/sse';
+import type { ApiResponseBase, FieldError } from '@/types/onboarding';
+
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; status: number; error: string; code?: string; fieldErrors: FieldError[] };
+
+interface RequestOptions<TRequest, TResponse> {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** Sent TOON-encoded unless `encoding` says otherwise; omit for GET/DELETE */
+  body?: TRequest;
+  /** TOON sanitizing drops newlines and quotes - use 'json' for free text that must round-trip */
+  encoding?: 'toon' | 'json';
+  /** Checked before sending - failures return without hitting the network */
+  requestSchema?: Schema<TRequest>;
+  responseSchema: Schema<TResponse>;
+  signal?: AbortSignal;
+}
+
+type PostOptions<TRequest, TResponse> = Omit<RequestOptions<TRequest, TResponse>, 'method' | 'body' | 'encoding'>;
+
+/**
+ * POST a TOON body to an onboarding route and validate the JSON response.
+ * Network failures still throw - callers already wrap these calls in try/catch.
+ */
+export function postOnboardingApi<TRequest, TResponse extends ApiResponseBase>(
+  path: string,
+  body: TRequest,
+  options: PostOptions<TRequest, TResponse>
+): Promise<ApiResult<TResponse>> {
+  return requestOnboardingApi(path, { ...options, method: 'POST', body });
+}
+
+/**
+ * Call an onboarding route with any method and validate the JSON response.
+ * Network failures throw, like `postOnboardingApi`.
+ */
+export async function requestOnboardingApi<TRequest, TResponse extends ApiResponseBase>(
+  path: string,
+  { method = 'GET', body, encoding = 'toon', requestSchema, responseSchema, signal }: RequestOptions<TRequest, TResponse>
+): Promise<ApiResult<TResponse>> {
+  const invalid = checkRequestBody(requestSchema, body, encoding);
+  if (invalid) return invalid;
+
+  const response = await fetch(path, { method, ...encodeBody(body, encoding), signal });
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    return { ok: false, status: response.status, error: 'Invalid JSON response', fieldErrors: [] };
+  }
+
+  return toApiResult(path, response.status, response.ok, json, responseSchema);
+}
+
+interface StreamOptions<TRequest, TResponse> extends PostOptions<TRequest, TResponse> {
+  encoding?: 'toon' | 'json';
+  /** Called with each piece of the assistant's message as it arrives */
+  onDelta: (text: string) => void;
+}
+
+/**
+ * POST to a chat route in streaming mode (see lib/sse.ts): `onDelta` gets
+ * the message as it is generated, the result is the final `done` event,
+ * validated like `postOnboardingApi`'s response. A route that answers with
+ * plain JSON instead (e.g. a validation error) is handled the same way.
+ *
+ * Aborting `signal` cancels the reply - the fetch rejects with an AbortError.
+ */
+export async function streamOnboardingApi<TRequest, TResponse extends ApiResponseBase>(
+  path: string,
+  body: TRequest,
+  { encoding = 'toon', requestSchema, responseSchema, signal, onDelta }: StreamOptions<TRequest, TResponse>
+): Promise<ApiResult<TResponse>> {
+  const invalid = checkRequestBody(requestSchema, body, encoding);
+  if (invalid) return invalid;
+
+  const { headers, ...encoded } = encodeBody(body, encoding);
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: { ...headers, Accept: SSE_CONTENT_TYPE },
+    ...encoded,
+    signal,
+  });
+
+  const isEventStream = (response.headers.get('content-type') || '').includes(SSE_CONTENT_TYPE);
+  if (!isEventStream || !response.body) {
+    let json: unknown;
+    try {
+      json = await response.json();
+    } catch {
+      return { ok: false, status: response.status, error: 'Invalid JSON response', fieldErrors: [] };
+    }
+    return toApiResult(path, response.status, response.ok, json, responseSchema);
+  }
+
+  for await (const { event, data } of readSseEvents(response.body)) {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      return {
+        ok: false,
+        status: response.status,
+        error: 'Invalid event in stream',
+        code: 'invalid_response',
+        fieldErrors: [],
+      };
+    }
+
+    if (event === 'delta') {
+      const text = (payload as { text?: unknown }).text;
+      if (typeof text === 'string') onDelta(text);
+    } else if (event === 'done') {
+      return toApiResult(path, response.status, response.ok, payload, responseSchema);
+    } else if (event === 'error') {
+      const { error, code } = payload as { error?: string; code?: string };
+      return { ok: false, status: response.status, error: error || 'Stream failed', code, fieldErrors: [] };
+    }
+  }
+
+  return {
+    ok: false,
+    status: response.status,
+    error: 'Stream ended before the reply was complete',
+    code: 'incomplete_stream',
+    fieldErrors: [],
+  };
+}
+
+export interface DownloadedFile {
+  blob: Blob;
+  filename: string;
+}
+
+interface DownloadOptions<TRequest> {
+  encoding?: 'toon' | 'json';
+  requestSchema?: Schema<TRequest>;
+  /** Failures come back as JSON - checked against this */
+  errorSchema: Schema<ApiResponseBase>;
+  /** Used when the response has no Content-Disposition filename */
+  fallbackFilename: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * POST to a route that answers with a file (Content-Disposition) and return
+ * its contents and filename. Error responses are JSON and come back as a
+ * failed result like `postOnboardingApi`'s.
+ */
+export async function downloadOnboardingFile<TRequest>(
+  path: string,
+  body: TRequest,
+  { encoding = 'toon', requestSchema, errorSchema, fallbackFilename, signal }: DownloadOptions<TRequest>
+): Promise<ApiResult<DownloadedFile>> {
+  const invalid = checkRequestBody(requestSchema, body, encoding);
+  if (invalid) return invalid;
+
+  const response = await fetch(path, { method: 'POST', ...encodeBody(body, encoding), signal });
+  if (!response.ok) {
+    let json: unknown;
+    try {
+      json = await response.json();
+    } catch {
+      return { ok: false, status: response.status, error: `Request failed (${response.status})`, fieldErrors: [] };
+    }
+    const result = toApiResult(path, response.status, false, json, errorSchema);
+    return result.ok ? { ok: false, status: response.status, error: 'Download failed', fieldErrors: [] } : result;
+  }
+
+  return {
+    ok: true,
+    data: {
+      blob: await response.blob(),
+      filename: filenameFrom(response.headers.get('content-disposition')) ?? fallbackFilename,
+    },
+  };
+}
+
+// `filename*` (RFC 5987, UTF-8) when present, else the plain `filename`
+function filenameFrom(disposition: string | null): string | null {
+  if (!disposition) return null;
+  const encoded = disposition.match(/filename\*=UTF-8''([^;]+)/i);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim());
+    } catch {
+      // Malformed - fall through to the plain filename
+    }
+  }
+  return disposition.match(/filename="([^"]*)"/i)?.[1] ?? null;
+}
+
+// Field errors from `requestSchema`, as a failed result - null when the body is fine.
+// A TOON body is checked as the route will decode it, so encoding losses show up here.
+function checkRequestBody<TRequest>(
+  requestSchema: Schema<TRequest> | undefined,
+  body: TRequest | undefined,
+  encoding: 'toon' | 'json'
+): ApiResult<never> | null {
+  if (!requestSchema) return null;
+  const sent = encoding === 'toon' && body !== undefined ? safeToonDecode(safeToonEncodeString(body)).data : body;
+  const checked = parseWithSchema(requestSchema, sent);
+  if (checked.success) return null;
+  return {
+    ok: false,
+    status: 0,
+    error: 'Request failed validation',
+    code: 'validation_failed',
+    fieldErrors: checked.errors,
+  };
+}
+
+function encodeBody(body: unknown, encoding: 'toon' | 'json'): { headers?: Record<string, string>; body?: string } {
+  if (body === undefined) return {};
+  return encoding === 'json'
+    ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
+    : { headers: { 'Content-Type': 'text/plain' }, body: safeToonEncodeString(body) };
+}
+
+function toApiResult<TResponse extends ApiResponseBase>(
+  path: string,
+  status: number,
+  httpOk: boolean,
+  json: unknown,
+  responseSchema: Schema<TResponse>
+): ApiResult<TResponse> {
+  const parsed = parseWithSchema(responseSchema, json);
+  if (!parsed.success) {
+    console.error(`[onboarding-api] Unexpected response from ${path}:`, parsed.errors);
+    return {
+      ok: false,
+      status,
+      error: 'Unexpected response format',
+      code: 'invalid_response',
+      fieldErrors: [],
+    };
+  }
+
+  const result = parsed.data;
+  if (!httpOk || !result.success) {
+    return {
+      ok: false,
+      status,
+      error: result.error || `Request failed (${status})`,
+      code: result.code,
+      fieldErrors: result.fieldErrors || [],
+    };
+  }
+
+  return { ok: true, data: result };
+}
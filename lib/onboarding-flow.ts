@@ -0,0 +1,158 @@
+/**
+ * Onboarding Flow Definition
+ *
+ * Declares the wizard's paths and their steps in one place. OnboardingWizard,
+ * ProgressBar, PathSelection and the step URLs (lib/wizard-routes.ts) are all
+ * driven by `ONBOARDING_FLOW`, so a new path is a new entry here built from
+ * the existing step ids - the wizard itself doesn't change.
+ *
+ * Step 0 is always path selection; step `i` of a path is `steps[i - 1]`.
+ * Step ids map to components in components/onboarding/flow-steps.tsx.
+ */
+
+import { FileQuestion, FileUp, Globe, type LucideIcon } from 'lucide-react';
+import type { OnboardingData, WizardPath } from '@/types/onboarding';
+
+export type FlowStepId =
+  | 'website-scan'
+  | 'chat-questionnaire'
+  | 'fixed-questionnaire'
+  | 'competitors'
+  | 'profile-import'
+  | 'summary';
+
+export type FlowPathId = NonNullable<WizardPath>;
+
+export interface FlowStep {
+  id: FlowStepId;
+  /** ProgressBar label */
+  label: string;
+  /** URL segment under the path's segment */
+  slug: string;
+  /**
+   * Entry guard - whether the collected data allows opening this step.
+   * Steps without a guard are always reachable once the previous one is.
+   */
+  canEnter?: (data: OnboardingData) => boolean;
+}
+
+export interface FlowPath {
+  id: FlowPathId;
+  /** URL segment under the wizard base path */
+  slug: string;
+  /** Recorded as `OnboardingData.source` when the path is chosen */
+  source: NonNullable<OnboardingData['source']>;
+  /** PathSelection card */
+  title: string;
+  description: string;
+  icon: LucideIcon;
+  accent: 'primary' | 'accent';
+  steps: FlowStep[];
+}
+
+export interface OnboardingFlow {
+  /** ProgressBar label of step 0 */
+  pathSelectionLabel: string;
+  paths: FlowPath[];
+}
+
+const websiteScanned = (data: OnboardingData) => data.source === 'website' && !!data.site_url;
+const questionnaireAnswered = (data: OnboardingData) => data.questionnaire_answers !== null;
+// The import step only continues with a company name - save-profile requires one
+const profileImported = (data: OnboardingData) => data.company_name.trim() !== '';
+
+export const ONBOARDING_FLOW: OnboardingFlow = {
+  pathSelectionLabel: 'בחירת נתיב',
+  paths: [
+    {
+      id: 'has-website',
+      slug: 'website',
+      source: 'website',
+      title: 'יש לי אתר',
+      description: 'נסרוק את האתר שלכם ונחלץ מידע אוטומטית',
+      icon: Globe,
+      accent: 'primary',
+      steps: [
+        { id: 'website-scan', label: 'סריקת אתר', slug: 'scan' },
+        { id: 'chat-questionnaire', label: 'שאלון השלמה', slug: 'questions', canEnter: websiteScanned },
+        { id: 'competitors', label: 'מתחרים', slug: 'competitors', canEnter: websiteScanned },
+        { id: 'summary', label: 'סיכום', slug: 'summary', canEnter: websiteScanned },
+      ],
+    },
+    {
+      id: 'no-website',
+      slug: 'questionnaire',
+      source: 'questionnaire',
+      title: 'אין לי אתר',
+      description: 'נשאל אתכם כמה שאלות קצרות על העסק',
+      icon: FileQuestion,
+      accent: 'accent',
+      steps: [
+        { id: 'fixed-questionnaire', label: 'שאלון', slug: 'answers' },
+        { id: 'competitors', label: 'מתחרים', slug: 'competitors', canEnter: questionnaireAnswered },
+        { id: 'summary', label: 'סיכום', slug: 'summary', canEnter: questionnaireAnswered },
+      ],
+    },
+    {
+      id: 'has-file',
+      slug: 'import',
+      // Replaced by the file's own source, if it records one
+      source: 'questionnaire',
+      title: 'יש לי קובץ פרופיל',
+      description: 'העלו פרופיל קיים (JSON או TOON) ונמלא הכל מראש',
+      icon: FileUp,
+      accent: 'primary',
+      steps: [
+        { id: 'profile-import', label: 'ייבוא קובץ', slug: 'file' },
+        { id: 'summary', label: 'סיכום', slug: 'summary', canEnter: profileImported },
+      ],
+    },
+  ],
+};
+
+export function getFlowPath(path: WizardPath, flow: OnboardingFlow = ONBOARDING_FLOW): FlowPath | undefined {
+  return path ? flow.paths.find((p) => p.id === path) : undefined;
+}
+
+/**
+ * Path that recorded `source` - where a loaded profile reopens
+ */
+export function flowPathForSource(
+  source: OnboardingData['source'],
+  flow: OnboardingFlow = ONBOARDING_FLOW
+): FlowPath | undefined {
+  return flow.paths.find((p) => p.source === source);
+}
+
+/**
+ * Step at a wizard step number (undefined for path selection or out of range)
+ */
+export function getFlowStep(path: WizardPath, step: number, flow: OnboardingFlow = ONBOARDING_FLOW): FlowStep | undefined {
+  return step > 0 ? getFlowPath(path, flow)?.steps[step - 1] : undefined;
+}
+
+/**
+ * ProgressBar labels, path selection included
+ */
+export function flowStepLabels(path: WizardPath, flow: OnboardingFlow = ONBOARDING_FLOW): string[] {
+  const steps = getFlowPath(path, flow)?.steps ?? [];
+  return [flow.pathSelectionLabel, ...steps.map((step) => step.label)];
+}
+
+/**
+ * Step number of the first step with this id on a path, or -1
+ */
+export function flowStepIndex(path: WizardPath, id: FlowStepId, flow: OnboardingFlow = ONBOARDING_FLOW): number {
+  const index = getFlowPath(path, flow)?.steps.findIndex((step) => step.id === id) ?? -1;
+  return index < 0 ? -1 : index + 1;
+}
+
+/**
+ * Furthest step the collected data allows on a path: walks the steps in
+ * order and stops before the first one whose entry guard fails.
+ */
+export function maxReachableStep(path: WizardPath, data: OnboardingData, flow: OnboardingFlow = ONBOARDING_FLOW): number {
+  const steps = getFlowPath(path, flow)?.steps ?? [];
+  const blocked = steps.findIndex((step, index) => index > 0 && step.canEnter && !step.canEnter(data));
+  return blocked < 0 ? steps.length : blocked;
+}
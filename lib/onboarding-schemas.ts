@@ -0,0 +1,579 @@
+/**
+ * Runtime Schemas for Onboarding Payloads
+ *
+ * Mirrors types/onboarding.ts - each schema is bound to its interface through
+ * `s.object<Interface>()`, so adding or changing a field there is a compile
+ * error here until the schema follows.
+ *
+ * Used by the API routes (request bodies) and by lib/onboarding-api.ts on the
+ * client (outgoing payloads and route responses).
+ */
+
+import { s, type Schema, type Shape } from '@/lib/schema';
+import type {
+  ApiResponseBase,
+  BrandBriefRequest,
+  BusinessSummary,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  CompetitorProfile,
+  CompetitorsData,
+  ConversationalChatRequest,
+  ConversationalChatResponse,
+  ConversationTurnResponse,
+  DeleteProfileResponse,
+  DraftResponse,
+  DynamicQuestion,
+  ExtractCompetitorsRequest,
+  ExtractCompetitorsResponse,
+  ExtractAnswersRequest,
+  ExtractAnswersResponse,
+  ExtractedField,
+  ExtractedValue,
+  FieldError,
+  GapQuestionsExtraction,
+  GenerateQuestionsRequest,
+  GenerateQuestionsResponse,
+  OnboardingData,
+  ProfileDiff,
+  ProfileDiffResponse,
+  ProfileFieldChange,
+  ProfileFields,
+  ProfileResponse,
+  ProfileVersion,
+  ProfileVersionResponse,
+  ProfileVersionsResponse,
+  ProfileVersionSummary,
+  QuestionnaireAnswers,
+  QuestionnaireExtraction,
+  RestoreProfileRequest,
+  SaveDraftRequest,
+  SaveProfileRequest,
+  SaveProfileResponse,
+  ScanFact,
+  ScannedPage,
+  ScannedWebsiteData,
+  ScanWebsiteRequest,
+  ScanWebsiteResponse,
+  ServiceCustomerPair,
+  StoredProfile,
+  UrlValidationErrorCode,
+  UrlValidationResult,
+  ValidateUrlsRequest,
+  ValidateUrlsResponse,
+  WizardDraftState,
+  WizardState,
+} from '@/types/onboarding';
+import { urlValidationErrorMessages } from '@/types/onboarding';
+
+// Limits shared by the client and the routes
+const SHORT_TEXT = 200;
+const LONG_TEXT = 4000;
+const URL_LENGTH = 2048;
+const MAX_LIST = 50;
+export const MAX_COMPETITOR_URLS = 5;
+
+const shortText = () => s.string({ max: SHORT_TEXT });
+const longText = () => s.string({ max: LONG_TEXT });
+const textList = () => s.array(shortText(), { max: MAX_LIST });
+const draftKind = () => s.oneOf(['wizard', 'glass-chat', 'conversational-chat'] as const);
+const conversationStage = () => s.oneOf(['initial', 'screen1', 'screen2', 'screen3', 'complete'] as const);
+const conversationState = () =>
+  s.oneOf([
+    'askWebsite',
+    'awaitingManualInput',
+    'awaitingServiceSelection',
+    'awaitingServiceConfirmation',
+    'awaitingCustomerMapping',
+    'awaitingSummaryConfirmation',
+    'askingQuestion',
+    'awaitingClarification',
+    'awaitingAdditionalInfo',
+    'complete',
+  ] as const);
+const businessCategory = () =>
+  s.oneOf([
+    'b2c_retail',
+    'ecommerce',
+    'b2b_service',
+    'local_service',
+    'professional_practice',
+    'hospitality',
+    'saas',
+  ] as const);
+const source = () => s.nullable(s.oneOf(['website', 'questionnaire'] as const));
+
+// ============================================================================
+// Domain
+// ============================================================================
+
+const questionnaireAnswersShape: Shape<QuestionnaireAnswers> = {
+  services: longText(),
+  advantages: longText(),
+  tone: longText(),
+  key_messages: longText(),
+  additional_info: longText(),
+  company_name: s.optional(shortText()),
+  business_category: s.optional(businessCategory()),
+  phone: s.optional(shortText()),
+  address: s.optional(shortText()),
+  opening_hours: s.optional(shortText()),
+  contact_channels: s.optional(textList()),
+};
+
+export const questionnaireAnswersSchema = s.object<QuestionnaireAnswers>(questionnaireAnswersShape);
+
+const extractedValue = <T>(value: Schema<T>) => s.object<ExtractedValue<T>>({ value, confidence: s.number() });
+
+// Also the LLM extraction schema (prompt: lib/llm/prompts/questionnaire-extraction.md)
+export const questionnaireExtractionSchema = s.object<QuestionnaireExtraction>({
+  company_name: extractedValue(shortText()),
+  industry: extractedValue(shortText()),
+  products_services: extractedValue(textList()),
+  target_audience: extractedValue(longText()),
+  key_messaging: extractedValue(textList()),
+});
+
+export const dynamicQuestionSchema = s.object<DynamicQuestion>({
+  field: shortText(),
+  description: longText(),
+  question_for_client: longText(),
+  answer: s.optional(longText()),
+  reason: s.optional(longText()),
+  priority: s.optional(s.oneOf(['high', 'medium', 'low'] as const)),
+});
+
+export const competitorProfileSchema = s.object<CompetitorProfile>({
+  url: s.string({ max: URL_LENGTH }),
+  name: shortText(),
+  tagline: longText(),
+  services: textList(),
+  brand_colors: s.array(s.string({ max: 50 }), { max: MAX_LIST }),
+  error: s.optional(s.string()),
+});
+
+export const competitorsDataSchema = s.object<CompetitorsData>({
+  urls_valid: s.array(s.string({ max: URL_LENGTH }), { max: MAX_LIST }),
+  urls_invalid: s.array(s.string({ max: URL_LENGTH }), { max: MAX_LIST }),
+  profiles: s.optional(s.array(competitorProfileSchema, { max: MAX_LIST })),
+});
+
+export const urlValidationResultSchema = s.object<UrlValidationResult>({
+  url: s.string({ max: URL_LENGTH }),
+  valid: s.boolean(),
+  error: s.optional(s.string()),
+  code: s.optional(s.oneOf(Object.keys(urlValidationErrorMessages) as UrlValidationErrorCode[])),
+  normalized_url: s.optional(s.string()),
+  final_url: s.optional(s.string()),
+  status: s.optional(s.number()),
+  title: s.optional(s.string()),
+});
+
+export const scannedPageSchema = s.object<ScannedPage>({
+  url: s.string(),
+  title: s.string(),
+  bytes: s.number(),
+  services: s.array(s.string()),
+  products: s.array(s.string()),
+});
+
+export const scanFactSchema = s.object<ScanFact>({
+  field: s.oneOf([
+    'company_name',
+    'tagline',
+    'logo',
+    'favicon',
+    'colors',
+    'fonts',
+    'services_extracted',
+    'products_extracted',
+  ] as const),
+  value: s.string(),
+  source_url: s.string(),
+});
+
+export const scannedWebsiteDataSchema = s.object<ScannedWebsiteData>({
+  branding: s.object<ScannedWebsiteData['branding']>({
+    company_name: s.string(),
+    tagline: s.string(),
+    has_logo: s.boolean(),
+  }),
+  logo: s.nullable(s.string()),
+  favicon: s.nullable(s.string()),
+  colors: s.array(s.string()),
+  fonts: s.array(s.string()),
+  services: s.optional(s.array(s.string())),
+  services_extracted: s.array(s.string()),
+  products_extracted: s.array(s.string()),
+  navigation: s.object<ScannedWebsiteData['navigation']>({
+    menu_items: s.array(s.string()),
+    links: s.array(s.object<{ text: string; href: string }>({ text: s.string(), href: s.string() })),
+  }),
+  url: s.string(),
+  raw_title: s.string(),
+  raw_content: s.string(),
+  pages: s.optional(s.array(scannedPageSchema)),
+  facts: s.optional(s.array(scanFactSchema)),
+});
+
+export const onboardingDataSchema = s.object<OnboardingData>({
+  source: source(),
+  site_url: s.nullable(s.string({ max: URL_LENGTH })),
+  company_name: shortText(),
+  industry: shortText(),
+  mission: longText(),
+  products_services: textList(),
+  target_audience: longText(),
+  unique_value_proposition: longText(),
+  brand_voice: longText(),
+  key_messaging: textList(),
+  visual_elements: s.optional(
+    s.object<NonNullable<OnboardingData['visual_elements']>>({
+      colors: s.array(s.string()),
+      has_logo: s.boolean(),
+    })
+  ),
+  logo_url: s.optional(s.string({ max: URL_LENGTH })),
+  favicon_url: s.optional(s.string({ max: URL_LENGTH })),
+  brand_colors: s.optional(s.array(s.string())),
+  brand_fonts: s.optional(s.array(s.string())),
+  scan_pages: s.optional(s.array(scannedPageSchema)),
+  questionnaire_answers: s.nullable(questionnaireAnswersSchema),
+  dynamic_questionnaire: s.array(dynamicQuestionSchema, { max: MAX_LIST }),
+  field_confidence: s.optional(
+    s.partial<Record<ExtractedField, number>>({
+      company_name: s.number(),
+      industry: s.number(),
+      products_services: s.number(),
+      target_audience: s.number(),
+      key_messaging: s.number(),
+    })
+  ),
+  competitors: competitorsDataSchema,
+});
+
+// Shared by the stored profile, version snapshots and the save/update request schemas
+const profileFieldsShape: Shape<ProfileFields> = {
+  source: source(),
+  site_url: s.nullable(s.string({ max: URL_LENGTH })),
+  company_name: s.string({ min: 1, max: SHORT_TEXT, requiredMessage: 'שם החברה הוא שדה חובה' }),
+  industry: shortText(),
+  mission: longText(),
+  products_services: textList(),
+  target_audience: longText(),
+  unique_value_proposition: longText(),
+  brand_voice: longText(),
+  key_messaging: textList(),
+  questionnaire_answers: s.nullable(questionnaireAnswersSchema),
+  dynamic_questionnaire: s.array(dynamicQuestionSchema, { max: MAX_LIST }),
+  competitors_valid: s.array(s.string({ max: URL_LENGTH }), { max: MAX_LIST }),
+  competitors_invalid: s.array(s.string({ max: URL_LENGTH }), { max: MAX_LIST }),
+  competitor_profiles: s.optional(s.array(competitorProfileSchema, { max: MAX_LIST })),
+  onboarding_completed: s.boolean(),
+  logo_url: s.optional(s.string({ max: URL_LENGTH })),
+  favicon_url: s.optional(s.string({ max: URL_LENGTH })),
+  brand_colors: s.optional(s.array(shortText(), { max: MAX_LIST })),
+  brand_fonts: s.optional(s.array(shortText(), { max: MAX_LIST })),
+};
+
+export const storedProfileSchema = s.object<StoredProfile>({
+  ...profileFieldsShape,
+  id: s.string(),
+  version: s.number(),
+  created_at: s.string(),
+  updated_at: s.string(),
+});
+
+const profileVersionSummaryShape: Shape<ProfileVersionSummary> = {
+  version: s.number(),
+  profile_id: s.string(),
+  author: s.string(),
+  source: source(),
+  action: s.oneOf(['create', 'update', 'restore'] as const),
+  restored_from: s.optional(s.number()),
+  created_at: s.string(),
+};
+
+export const profileVersionSummarySchema = s.object<ProfileVersionSummary>(profileVersionSummaryShape);
+
+export const profileVersionSchema = s.object<ProfileVersion>({
+  ...profileVersionSummaryShape,
+  data: s.object<ProfileFields>(profileFieldsShape),
+});
+
+export const profileDiffSchema = s.object<ProfileDiff>({
+  from: s.number(),
+  to: s.number(),
+  changes: s.array(
+    s.union(
+      s.object<Extract<ProfileFieldChange, { type: 'value' }>>({
+        field: s.string(),
+        type: s.oneOf(['value'] as const),
+        before: s.unknown(),
+        after: s.unknown(),
+      }),
+      s.object<Extract<ProfileFieldChange, { type: 'list' }>>({
+        field: s.string(),
+        type: s.oneOf(['list'] as const),
+        added: s.array(s.string()),
+        removed: s.array(s.string()),
+      })
+    )
+  ),
+});
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+const saveProfileRequestShape: Shape<SaveProfileRequest> = {
+  ...profileFieldsShape,
+  author: s.optional(shortText()),
+};
+
+export const saveProfileRequestSchema = s.object<SaveProfileRequest>(saveProfileRequestShape);
+
+export const updateProfileRequestSchema = s.partial<SaveProfileRequest>(saveProfileRequestShape);
+
+export const restoreProfileRequestSchema = s.object<RestoreProfileRequest>({
+  version: s.number(),
+  author: s.optional(shortText()),
+});
+
+export const saveDraftRequestSchema = s.object<SaveDraftRequest>({
+  kind: draftKind(),
+  saved_at: s.string({ min: 1 }),
+  state: s.unknown(),
+});
+
+// A wizard draft's `state` - checked before a resumed draft is applied
+export const wizardDraftStateSchema = s.object<WizardDraftState>({
+  wizard: s.object<WizardState>({
+    path: s.nullable(s.oneOf(['has-website', 'no-website', 'has-file'] as const)),
+    currentStep: s.number(),
+    data: onboardingDataSchema,
+  }),
+  competitorUrls: s.array(s.string({ max: URL_LENGTH }), { max: MAX_LIST }),
+  questionnaireAnswers: s.partial<QuestionnaireAnswers>(questionnaireAnswersShape),
+  profileId: s.nullable(s.string()),
+});
+
+export const scanWebsiteRequestSchema = s.object<ScanWebsiteRequest>({
+  url: s.string({ min: 1, max: URL_LENGTH, requiredMessage: 'יש להזין כתובת אתר' }),
+});
+
+export const validateUrlsRequestSchema = s.object<ValidateUrlsRequest>({
+  urls: s.array(s.string({ max: URL_LENGTH }), { max: MAX_COMPETITOR_URLS }),
+  site_url: s.optional(s.nullable(s.string({ max: URL_LENGTH }))),
+});
+
+export const generateQuestionsRequestSchema = s.object<GenerateQuestionsRequest>({
+  data: onboardingDataSchema,
+  scrapedData: s.optional(scannedWebsiteDataSchema),
+});
+
+export const extractCompetitorsRequestSchema = s.object<ExtractCompetitorsRequest>({
+  urls: s.array(s.string({ max: URL_LENGTH }), { max: MAX_COMPETITOR_URLS }),
+});
+
+export const extractAnswersRequestSchema = s.object<ExtractAnswersRequest>({
+  answers: questionnaireAnswersSchema,
+});
+
+export const brandBriefRequestSchema = s.object<BrandBriefRequest>({
+  profile: s.object<ProfileFields>(profileFieldsShape),
+  format: s.oneOf(['markdown', 'html', 'json', 'toon'] as const),
+  print: s.optional(s.boolean()),
+});
+
+const chatMessageSchema = s.object<ChatMessage>({
+  role: s.oneOf(['user', 'assistant'] as const),
+  content: s.string({ max: LONG_TEXT }),
+});
+
+export const chatRequestSchema = s.object<ChatRequest>({
+  messages: s.array(chatMessageSchema, { max: 200 }),
+  isInitial: s.optional(s.boolean()),
+  businessContext: s.optional(
+    s.object<NonNullable<ChatRequest['businessContext']>>({
+      companyName: s.optional(s.string()),
+      industry: s.optional(s.string()),
+      services: s.optional(s.array(s.string())),
+    })
+  ),
+  collectedAnswers: s.optional(s.record(s.string())),
+});
+
+export const conversationalChatRequestSchema = s.object<ConversationalChatRequest>({
+  sessionId: s.optional(shortText()),
+  message: s.string({ min: 1, max: LONG_TEXT }),
+  selectedServices: s.optional(textList()),
+  serviceCustomerPairs: s.optional(
+    s.array(
+      s.object<ServiceCustomerPair>({
+        service: shortText(),
+        customers: textList(),
+      }),
+      { max: MAX_LIST }
+    )
+  ),
+  businessCategory: s.optional(businessCategory()),
+  turnId: s.optional(shortText()),
+});
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+const fieldErrorSchema = s.object<FieldError>({
+  path: s.string(),
+  message: s.string(),
+});
+
+export const responseBase = {
+  success: s.boolean(),
+  error: s.optional(s.string()),
+  code: s.optional(s.string()),
+  fieldErrors: s.optional(s.array(fieldErrorSchema)),
+} satisfies { [K in keyof ApiResponseBase]-?: unknown };
+
+// Error bodies of routes that answer success with something other than JSON (files)
+export const errorResponseSchema = s.object<ApiResponseBase>(responseBase);
+
+export const scanWebsiteResponseSchema = s.object<ScanWebsiteResponse>({
+  ...responseBase,
+  data: s.optional(s.string()),
+  format: s.optional(s.oneOf(['toon', 'json'] as const)),
+});
+
+export const generateQuestionsResponseSchema = s.object<GenerateQuestionsResponse>({
+  ...responseBase,
+  questions: s.optional(s.array(dynamicQuestionSchema)),
+});
+
+export const validateUrlsResponseSchema = s.object<ValidateUrlsResponse>({
+  ...responseBase,
+  results: s.optional(s.array(urlValidationResultSchema)),
+  summary: s.optional(
+    s.object<NonNullable<ValidateUrlsResponse['summary']>>({
+      valid: s.array(s.string()),
+      invalid: s.array(s.object<{ url: string; error?: string }>({ url: s.string(), error: s.optional(s.string()) })),
+    })
+  ),
+});
+
+export const extractCompetitorsResponseSchema = s.object<ExtractCompetitorsResponse>({
+  ...responseBase,
+  profiles: s.optional(s.array(competitorProfileSchema)),
+});
+
+export const extractAnswersResponseSchema = s.object<ExtractAnswersResponse>({
+  ...responseBase,
+  extraction: s.optional(questionnaireExtractionSchema),
+});
+
+export const saveProfileResponseSchema = s.object<SaveProfileResponse>({
+  ...responseBase,
+  profile: s.optional(
+    s.object<NonNullable<SaveProfileResponse['profile']>>({
+      id: s.string(),
+      company_name: s.string(),
+      onboarding_completed: s.boolean(),
+    })
+  ),
+});
+
+export const profileResponseSchema = s.object<ProfileResponse>({
+  ...responseBase,
+  profile: s.optional(storedProfileSchema),
+});
+
+export const deleteProfileResponseSchema = s.object<DeleteProfileResponse>({
+  ...responseBase,
+  id: s.optional(s.string()),
+});
+
+export const profileVersionsResponseSchema = s.object<ProfileVersionsResponse>({
+  ...responseBase,
+  versions: s.optional(s.array(profileVersionSummarySchema)),
+});
+
+export const profileVersionResponseSchema = s.object<ProfileVersionResponse>({
+  ...responseBase,
+  version: s.optional(profileVersionSchema),
+});
+
+export const profileDiffResponseSchema = s.object<ProfileDiffResponse>({
+  ...responseBase,
+  diff: s.optional(profileDiffSchema),
+});
+
+export const chatResponseSchema = s.object<ChatResponse>({
+  ...responseBase,
+  message: s.optional(s.string()),
+  isComplete: s.optional(s.boolean()),
+  answers: s.optional(s.record(s.string())),
+  finalAnswers: s.optional(s.record(s.string())),
+});
+
+export const conversationalChatResponseSchema = s.object<ConversationalChatResponse>({
+  ...responseBase,
+  sessionId: s.optional(s.string()),
+  message: s.optional(s.string()),
+  state: s.optional(conversationState()),
+  stage: s.optional(conversationStage()),
+  sessionData: s.optional(s.record(s.unknown())),
+  services: s.optional(s.array(s.string())),
+  selectedServices: s.optional(s.array(s.string())),
+  showServiceSelection: s.optional(s.boolean()),
+  serviceCustomerPairs: s.optional(
+    s.array(
+      s.object<NonNullable<ConversationalChatResponse['serviceCustomerPairs']>[number]>({
+        service: s.string(),
+        customers: s.array(s.string()),
+      })
+    )
+  ),
+  showCustomerMapping: s.optional(s.boolean()),
+  servicesForMapping: s.optional(s.array(s.string())),
+  showCategoryPicker: s.optional(s.boolean()),
+  isComplete: s.optional(s.boolean()),
+  finalData: s.unknown(),
+});
+
+export const conversationTurnResponseSchema = s.object<ConversationTurnResponse>({
+  ...responseBase,
+  response: s.optional(conversationalChatResponseSchema),
+});
+
+export const draftResponseSchema = s.object<DraftResponse>({
+  ...responseBase,
+  draft: s.optional(
+    s.object<NonNullable<DraftResponse['draft']>>({
+      id: s.string(),
+      kind: draftKind(),
+      saved_at: s.string(),
+      state: s.unknown(),
+    })
+  ),
+});
+
+// ============================================================================
+// LLM extractions (lib/llm)
+// ============================================================================
+
+export const businessSummarySchema = s.object<BusinessSummary>({
+  product: longText(),
+  services: textList(),
+});
+
+export const gapQuestionsExtractionSchema = s.object<GapQuestionsExtraction>({
+  questions: s.array(
+    s.object<GapQuestionsExtraction['questions'][number]>({
+      field: shortText(),
+      question: longText(),
+    }),
+    { max: MAX_LIST }
+  ),
+});
@@ -0,0 +1,113 @@
+/**
+ * Profile Version Diff
+ *
+ * Field-by-field comparison of two profile snapshots. List fields
+ * (services, key messages, competitors, brand colors/fonts) report the
+ * items that were added and removed; questionnaire answers are compared
+ * per question (multi-select answers as lists); everything else reports the
+ * before/after values.
+ */
+
+import type {
+  ProfileDiff,
+  ProfileFieldChange,
+  ProfileFields,
+  ProfileVersion,
+  QuestionnaireAnswers,
+} from '@/types/onboarding';
+
+const LIST_FIELDS = [
+  'products_services',
+  'key_messaging',
+  'competitors_valid',
+  'competitors_invalid',
+  'brand_colors',
+  'brand_fonts',
+] as const satisfies readonly (keyof ProfileFields)[];
+
+type ListField = (typeof LIST_FIELDS)[number];
+
+function isListField(field: string): field is ListField {
+  return (LIST_FIELDS as readonly string[]).includes(field);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function diffList(field: string, before: string[] = [], after: string[] = []): ProfileFieldChange | null {
+  const added = after.filter((item) => !before.includes(item));
+  const removed = before.filter((item) => !after.includes(item));
+  if (added.length === 0 && removed.length === 0) return null;
+  return { field, type: 'list', added, removed };
+}
+
+// One change per questionnaire answer (`questionnaire_answers.tone`)
+function diffAnswers(before: ProfileFields['questionnaire_answers'], after: ProfileFields['questionnaire_answers']) {
+  const beforeAnswers: Partial<QuestionnaireAnswers> = { ...before };
+  const afterAnswers: Partial<QuestionnaireAnswers> = { ...after };
+  const keys = [...new Set([...Object.keys(beforeAnswers), ...Object.keys(afterAnswers)])] as (keyof QuestionnaireAnswers)[];
+
+  return keys.flatMap((key): ProfileFieldChange[] => {
+    const field = `questionnaire_answers.${key}`;
+    const beforeValue = beforeAnswers[key];
+    const afterValue = afterAnswers[key];
+
+    if (Array.isArray(beforeValue) || Array.isArray(afterValue)) {
+      const change = diffList(field, beforeValue as string[] | undefined, afterValue as string[] | undefined);
+      return change ? [change] : [];
+    }
+    if ((beforeValue ?? '') === (afterValue ?? '')) return [];
+    return [{ field, type: 'value', before: beforeValue ?? null, after: afterValue ?? null }];
+  });
+}
+
+// One change per dynamic question, keyed by its field (`dynamic_questionnaire.brand_voice`)
+function diffDynamicAnswers(before: ProfileFields['dynamic_questionnaire'], after: ProfileFields['dynamic_questionnaire']) {
+  const beforeAnswers = new Map(before.map((q) => [q.field, q.answer ?? null]));
+  const afterAnswers = new Map(after.map((q) => [q.field, q.answer ?? null]));
+  const keys = [...new Set([...beforeAnswers.keys(), ...afterAnswers.keys()])];
+
+  return keys
+    .filter((key) => beforeAnswers.get(key) !== afterAnswers.get(key))
+    .map((key): ProfileFieldChange => ({
+      field: `dynamic_questionnaire.${key}`,
+      type: 'value',
+      before: beforeAnswers.get(key) ?? null,
+      after: afterAnswers.get(key) ?? null,
+    }));
+}
+
+/**
+ * Compare two sets of profile fields. Changes follow the field order of `after`.
+ */
+export function diffProfileFields(before: ProfileFields, after: ProfileFields): ProfileFieldChange[] {
+  const fields = [...new Set([...Object.keys(after), ...Object.keys(before)])] as (keyof ProfileFields)[];
+  const changes: ProfileFieldChange[] = [];
+
+  for (const field of fields) {
+    if (field === 'questionnaire_answers') {
+      changes.push(...diffAnswers(before.questionnaire_answers, after.questionnaire_answers));
+    } else if (field === 'dynamic_questionnaire') {
+      changes.push(...diffDynamicAnswers(before.dynamic_questionnaire ?? [], after.dynamic_questionnaire ?? []));
+    } else if (isListField(field)) {
+      const change = diffList(field, before[field], after[field]);
+      if (change) changes.push(change);
+    } else if (!isEqual(before[field], after[field])) {
+      changes.push({ field, type: 'value', before: before[field] ?? null, after: after[field] ?? null });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Diff two stored versions of the same profile
+ */
+export function diffProfileVersions(from: ProfileVersion, to: ProfileVersion): ProfileDiff {
+  return {
+    from: from.version,
+    to: to.version,
+    changes: diffProfileFields(from.data, to.data),
+  };
+}
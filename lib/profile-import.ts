@@ -0,0 +1,481 @@
+/**
+ * Profile Import
+ *
+ * Turns a profile file - an earlier export (brand brief JSON/TOON, a saved
+ * profile) or a brief from another agency - into `OnboardingData` for the
+ * wizard's Summary step.
+ *
+ * - `readProfileFile` decodes the text (TOON via `safeToonDecode`, or JSON)
+ * - `importProfile` maps its keys onto profile fields: exact names, camelCase
+ *   and known aliases (`services`, `audience`, `usp`, Hebrew labels...); a
+ *   wrapping `profile` / `data` object is unwrapped
+ * - the brand brief's `contact` goes back into `questionnaire_answers`
+ * - whatever doesn't map is returned as `unknown` for the user to assign a
+ *   field to; pass those choices back as `mapping` (text fields are replaced,
+ *   lists appended to)
+ * - the result is checked against `onboardingDataSchema` - a field that fails
+ *   is left empty and reported in `dropped`
+ *
+ * Client-safe - no server imports.
+ */
+
+import { safeToonDecode } from '@/lib/toon-utils';
+import { parseWithSchema, fieldErrorsByField, type FieldError } from '@/lib/schema';
+import { onboardingDataSchema } from '@/lib/onboarding-schemas';
+import {
+  fixedQuestions,
+  initialOnboardingData,
+  type CompetitorProfile,
+  type OnboardingData,
+  type QuestionnaireAnswers,
+} from '@/types/onboarding';
+
+// Profile fields a file value can be imported into
+export type ImportTargetField =
+  | 'company_name'
+  | 'site_url'
+  | 'industry'
+  | 'mission'
+  | 'products_services'
+  | 'target_audience'
+  | 'unique_value_proposition'
+  | 'brand_voice'
+  | 'key_messaging'
+  | 'logo_url'
+  | 'brand_colors'
+  | 'brand_fonts'
+  | 'competitors';
+
+export const IMPORT_TARGETS: Record<ImportTargetField, { label: string; kind: 'text' | 'list' }> = {
+  company_name: { label: 'שם החברה', kind: 'text' },
+  site_url: { label: 'כתובת האתר', kind: 'text' },
+  industry: { label: 'תחום', kind: 'text' },
+  mission: { label: 'ייעוד', kind: 'text' },
+  products_services: { label: 'שירותים ומוצרים', kind: 'list' },
+  target_audience: { label: 'קהל יעד', kind: 'text' },
+  unique_value_proposition: { label: 'הצעת ערך ייחודית', kind: 'text' },
+  brand_voice: { label: 'טון המותג', kind: 'text' },
+  key_messaging: { label: 'מסרים מרכזיים', kind: 'list' },
+  logo_url: { label: 'לוגו', kind: 'text' },
+  brand_colors: { label: 'צבעי מותג', kind: 'list' },
+  brand_fonts: { label: 'גופנים', kind: 'list' },
+  competitors: { label: 'מתחרים', kind: 'list' },
+};
+
+// A file value no field claimed - `key` is its dotted path in the file
+export interface UnknownImportField {
+  key: string;
+  value: string | string[];
+}
+
+// Unknown key -> the field the user assigned it to
+export type ImportMapping = Record<string, ImportTargetField>;
+
+export interface ProfileImport {
+  data: OnboardingData;
+  // Fields the file filled
+  imported: ImportTargetField[];
+  unknown: UnknownImportField[];
+  // Fields that were in the file but failed validation, so were left empty
+  dropped: FieldError[];
+}
+
+export type ProfileFileResult =
+  | { success: true; data: Record<string, unknown>; format: 'toon' | 'json' }
+  | { success: false; error: string };
+
+type ListField = 'products_services' | 'key_messaging' | 'brand_colors' | 'brand_fonts';
+type TextField = Exclude<ImportTargetField, ListField | 'competitors' | 'site_url' | 'logo_url'>;
+
+// Keys with their own handling besides the target fields
+type ImportKey =
+  | ImportTargetField
+  | 'source'
+  | 'favicon_url'
+  | 'questionnaire_answers'
+  | 'dynamic_questionnaire'
+  | 'competitors_invalid'
+  | 'contact';
+
+const OWN_KEYS: ImportKey[] = [
+  ...(Object.keys(IMPORT_TARGETS) as ImportTargetField[]),
+  'source',
+  'favicon_url',
+  'questionnaire_answers',
+  'dynamic_questionnaire',
+  'competitors_invalid',
+  'contact',
+];
+
+// Other names for the fields, after `normalizeKey`
+const ALIASES: Record<string, ImportKey> = {
+  name: 'company_name',
+  business_name: 'company_name',
+  brand_name: 'company_name',
+  company: 'company_name',
+  website: 'site_url',
+  url: 'site_url',
+  site: 'site_url',
+  category: 'industry',
+  sector: 'industry',
+  about: 'mission',
+  vision: 'mission',
+  services: 'products_services',
+  products: 'products_services',
+  offerings: 'products_services',
+  audience: 'target_audience',
+  target_market: 'target_audience',
+  customers: 'target_audience',
+  uvp: 'unique_value_proposition',
+  usp: 'unique_value_proposition',
+  value_proposition: 'unique_value_proposition',
+  voice: 'brand_voice',
+  tone: 'brand_voice',
+  tone_of_voice: 'brand_voice',
+  messages: 'key_messaging',
+  key_messages: 'key_messaging',
+  messaging: 'key_messaging',
+  logo: 'logo_url',
+  colors: 'brand_colors',
+  palette: 'brand_colors',
+  fonts: 'brand_fonts',
+  typography: 'brand_fonts',
+  competitors_valid: 'competitors',
+  competitor_urls: 'competitors',
+  competitor_profiles: 'competitors',
+  contact_details: 'contact',
+  // Hebrew labels, as in Summary and the brand brief
+  שם_החברה: 'company_name',
+  שם_העסק: 'company_name',
+  אתר: 'site_url',
+  תחום: 'industry',
+  ייעוד: 'mission',
+  שירותים: 'products_services',
+  שירותים_ומוצרים: 'products_services',
+  קהל_יעד: 'target_audience',
+  הצעת_ערך: 'unique_value_proposition',
+  הצעת_ערך_ייחודית: 'unique_value_proposition',
+  טון: 'brand_voice',
+  טון_המותג: 'brand_voice',
+  מסרים: 'key_messaging',
+  מסרים_מרכזיים: 'key_messaging',
+  לוגו: 'logo_url',
+  צבעים: 'brand_colors',
+  צבעי_מותג: 'brand_colors',
+  גופנים: 'brand_fonts',
+  מתחרים: 'competitors',
+  פרטי_קשר: 'contact',
+};
+
+// Bookkeeping of stored profiles and exports - nothing to import or ask about
+const IGNORED_KEYS = new Set([
+  'id',
+  'version',
+  'created_at',
+  'updated_at',
+  'date',
+  'author',
+  'onboarding_completed',
+  'field_confidence',
+  'scan_pages',
+  'visual_elements',
+]);
+
+const MESSAGES = {
+  unreadable: 'לא הצלחנו לקרוא את הקובץ - יש להעלות קובץ JSON או TOON',
+  notObject: 'הקובץ לא מכיל פרופיל',
+  wrongType: 'ערך לא מתאים לשדה',
+};
+
+// Contact channel labels, as the brand brief lists them -> the questionnaire's values
+const CHANNEL_VALUES = new Map(
+  fixedQuestions.find((question) => question.key === 'contact_channels')?.options?.map((o) => [o.label, o.value])
+);
+
+const EMPTY_ANSWERS: QuestionnaireAnswers = {
+  services: '',
+  advantages: '',
+  tone: '',
+  key_messages: '',
+  additional_info: '',
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isHttpUrl = (value: string) => /^https?:\/\/[^\s]+$/i.test(value);
+
+// `companyName`, `Company Name`, `company-name` -> `company_name`
+function normalizeKey(key: string): string {
+  return key
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+}
+
+function resolveKey(key: string): ImportKey | undefined {
+  const normalized = normalizeKey(key);
+  return (OWN_KEYS as string[]).includes(normalized) ? (normalized as ImportKey) : ALIASES[normalized];
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) {
+    const items = toList(value);
+    return items && items.join(', ');
+  }
+  return undefined;
+}
+
+// Lists may come as one string - a line (or bullet) per item, else comma-separated
+function toList(value: unknown): string[] | undefined {
+  if (typeof value === 'string') {
+    const lines = value.split(/\r?\n|[;•]/);
+    const items = lines.length > 1 ? lines : value.split(',');
+    return items.map((item) => item.replace(/^\s*(?:[-*]|\d+[.)])\s+/, '').trim()).filter(Boolean);
+  }
+  if (!Array.isArray(value)) return undefined;
+
+  const items = value.map((item) => (typeof item === 'string' || typeof item === 'number' ? String(item).trim() : null));
+  return items.every((item) => item !== null) ? (items as string[]).filter(Boolean) : undefined;
+}
+
+function toCompetitorProfile(value: Record<string, unknown>): CompetitorProfile | null {
+  const url = toText(value.url);
+  if (!url) return null;
+  return {
+    url,
+    name: toText(value.name) ?? '',
+    tagline: toText(value.tagline) ?? '',
+    services: toList(value.services) ?? [],
+    brand_colors: toList(value.brand_colors) ?? [],
+  };
+}
+
+/**
+ * Add competitors from a list of URLs or competitor objects (the brand
+ * brief's, `competitor_profiles`), or from `OnboardingData.competitors`.
+ * URLs aren't checked here - the competitors step validates them.
+ */
+function addCompetitors(data: OnboardingData, value: unknown, invalid = false): boolean {
+  const { competitors } = data;
+  const addUrl = (url: string) => {
+    const list = invalid || !isHttpUrl(url) ? competitors.urls_invalid : competitors.urls_valid;
+    if (!competitors.urls_valid.includes(url) && !competitors.urls_invalid.includes(url)) list.push(url);
+  };
+
+  if (isObject(value) && ('urls_valid' in value || 'urls_invalid' in value)) {
+    const added = addCompetitors(data, value.urls_valid ?? []) && addCompetitors(data, value.urls_invalid ?? [], true);
+    return added && (value.profiles === undefined || addCompetitors(data, value.profiles));
+  }
+
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? toList(value) : undefined;
+  if (!items) return false;
+
+  for (const item of items) {
+    if (isObject(item)) {
+      const profile = toCompetitorProfile(item);
+      if (!profile) return false;
+      addUrl(profile.url);
+      competitors.profiles = [...(competitors.profiles ?? []).filter((p) => p.url !== profile.url), profile];
+    } else {
+      const url = toText(item);
+      if (url === undefined) return false;
+      if (url) addUrl(url);
+    }
+  }
+  return true;
+}
+
+// The brand brief's `contact` -> the questionnaire answers it was made from
+function assignContact(data: OnboardingData, value: unknown): boolean {
+  if (!isObject(value)) return false;
+  const answers = { ...(isObject(data.questionnaire_answers) ? data.questionnaire_answers : EMPTY_ANSWERS) };
+  let filled = false;
+
+  for (const field of ['phone', 'address', 'opening_hours'] as const) {
+    if (value[field] === null || value[field] === undefined) continue;
+    const text = toText(value[field]);
+    if (text === undefined) return false;
+    if (text) {
+      answers[field] = text;
+      filled = true;
+    }
+  }
+
+  if (value.channels !== null && value.channels !== undefined) {
+    const channels = toList(value.channels);
+    if (!channels) return false;
+    if (channels.length > 0) {
+      answers.contact_channels = channels.map((channel) => CHANNEL_VALUES.get(channel) ?? channel);
+      filled = true;
+    }
+  }
+
+  // A brief without contact details leaves the answers as they were
+  if (filled) data.questionnaire_answers = answers;
+  return true;
+}
+
+// Put one file value into its field; false when the value doesn't fit
+function assign(data: OnboardingData, key: ImportKey, value: unknown, append = false): boolean {
+  switch (key) {
+    case 'competitors':
+    case 'competitors_invalid':
+      return addCompetitors(data, value, key === 'competitors_invalid');
+
+    case 'source':
+      if (value !== 'website' && value !== 'questionnaire') return false;
+      data.source = value;
+      return true;
+
+    case 'contact':
+      return assignContact(data, value);
+
+    case 'questionnaire_answers':
+      // Checked as a whole by the schema; keeps contact details read before it
+      data.questionnaire_answers = (
+        isObject(value) && data.questionnaire_answers ? { ...data.questionnaire_answers, ...value } : value
+      ) as QuestionnaireAnswers;
+      return true;
+
+    case 'dynamic_questionnaire':
+      // Checked as a whole by the schema
+      data.dynamic_questionnaire = value as OnboardingData['dynamic_questionnaire'];
+      return true;
+
+    case 'favicon_url': {
+      const text = toText(value);
+      if (text === undefined) return false;
+      data.favicon_url = text || undefined;
+      return true;
+    }
+  }
+
+  if (IMPORT_TARGETS[key].kind === 'list') {
+    const items = toList(value);
+    if (!items) return false;
+    const field = key as ListField;
+    const current = (append && data[field]) || [];
+    data[field] = [...current, ...items.filter((item) => !current.includes(item))];
+    return true;
+  }
+
+  const text = toText(value);
+  if (text === undefined) return false;
+  if (key === 'site_url') {
+    data.site_url = text || null;
+  } else if (key === 'logo_url') {
+    data.logo_url = text || undefined;
+  } else {
+    data[key as TextField] = text;
+  }
+  return true;
+}
+
+function collectUnknown(key: string, value: unknown, out: UnknownImportField[], depth = 0): void {
+  // Nested objects (e.g. the brief's `contact`) are offered field by field
+  if (isObject(value)) {
+    if (depth < 2) {
+      for (const [child, childValue] of Object.entries(value)) collectUnknown(`${key}.${child}`, childValue, out, depth + 1);
+    }
+    return;
+  }
+
+  const converted = Array.isArray(value) ? toList(value) : toText(value);
+  if (converted && converted.length > 0) out.push({ key, value: converted });
+}
+
+// A profile wrapped in `{ profile: {...} }` or a version snapshot's `{ data: {...} }`
+function unwrap(raw: Record<string, unknown>): Record<string, unknown> {
+  for (const key of ['profile', 'data']) {
+    const inner = raw[key];
+    const others = Object.keys(raw).filter((k) => k !== key && !IGNORED_KEYS.has(normalizeKey(k)) && !resolveKey(k));
+    if (isObject(inner) && others.length === 0) return inner;
+  }
+  return raw;
+}
+
+/**
+ * Decode a profile file's text. JSON is parsed as JSON - single-line JSON
+ * also decodes as (meaningless) TOON, and a TOON document can't start with `{`.
+ */
+export function readProfileFile(text: string): ProfileFileResult {
+  const content = text.trim().replace(/^\uFEFF/, '');
+  let decoded: unknown;
+  let format: 'toon' | 'json';
+
+  if (content.startsWith('{')) {
+    try {
+      decoded = JSON.parse(content);
+      format = 'json';
+    } catch {
+      return { success: false, error: MESSAGES.unreadable };
+    }
+  } else {
+    const result = safeToonDecode(content);
+    if (result.format === 'failed') return { success: false, error: MESSAGES.unreadable };
+    decoded = result.data;
+    format = result.format;
+  }
+
+  if (!isObject(decoded) || Object.keys(decoded).length === 0) {
+    return { success: false, error: MESSAGES.notObject };
+  }
+  return { success: true, data: decoded, format };
+}
+
+/**
+ * Map a decoded profile file onto `OnboardingData`. `mapping` assigns fields
+ * to keys reported in an earlier call's `unknown` - they stay listed there.
+ */
+export function importProfile(raw: Record<string, unknown>, mapping: ImportMapping = {}): ProfileImport {
+  const data: OnboardingData = { ...initialOnboardingData, competitors: { urls_valid: [], urls_invalid: [] } };
+  const imported = new Set<ImportTargetField>();
+  const unknown: UnknownImportField[] = [];
+  const dropped: FieldError[] = [];
+
+  for (const [key, value] of Object.entries(unwrap(raw))) {
+    if (IGNORED_KEYS.has(normalizeKey(key)) || value === null || value === undefined) continue;
+
+    const target = resolveKey(key);
+    if (!target) {
+      collectUnknown(key, value, unknown);
+      continue;
+    }
+    if (!assign(data, target, value)) {
+      dropped.push({ path: key, message: MESSAGES.wrongType });
+    } else if (target in IMPORT_TARGETS) {
+      imported.add(target as ImportTargetField);
+    }
+  }
+
+  for (const field of unknown) {
+    const target = mapping[field.key];
+    if (target && assign(data, target, field.value, true)) imported.add(target);
+  }
+
+  // A profile without a recorded source didn't come from a website scan unless it has a site
+  data.source ??= data.site_url ? 'website' : 'questionnaire';
+
+  // Invalid fields go back to their initial value - those always pass
+  const checked = parseWithSchema(onboardingDataSchema, data);
+  if (!checked.success) {
+    const byField = fieldErrorsByField(checked.errors);
+    for (const [field, message] of Object.entries(byField)) {
+      const key = field as keyof OnboardingData;
+      (data as unknown as Record<string, unknown>)[key] = initialOnboardingData[key];
+      imported.delete(key as ImportTargetField);
+      dropped.push({ path: field, message });
+    }
+  }
+
+  return {
+    data: checked.success ? checked.data : data,
+    imported: (Object.keys(IMPORT_TARGETS) as ImportTargetField[]).filter((field) => imported.has(field)),
+    unknown,
+    dropped,
+  };
+}
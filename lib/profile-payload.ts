@@ -0,0 +1,72 @@
+/**
+ * Profile Payload Mapping
+ *
+ * Converts between the wizard's `OnboardingData` and the flat profile shape
+ * that save-profile stores (`SaveProfileRequest` / `StoredProfile`).
+ * Client-safe - no server imports.
+ */
+
+import type { OnboardingData, SaveProfileRequest, StoredProfile } from '@/types/onboarding';
+import { initialOnboardingData } from '@/types/onboarding';
+
+/**
+ * Flatten wizard data into the save-profile payload
+ */
+export function toSaveProfileRequest(data: OnboardingData): SaveProfileRequest {
+  return {
+    source: data.source,
+    site_url: data.site_url,
+    company_name: data.company_name,
+    industry: data.industry,
+    mission: data.mission,
+    products_services: data.products_services,
+    target_audience: data.target_audience,
+    unique_value_proposition: data.unique_value_proposition,
+    brand_voice: data.brand_voice,
+    key_messaging: data.key_messaging,
+    questionnaire_answers: data.questionnaire_answers,
+    dynamic_questionnaire: data.dynamic_questionnaire,
+    competitors_valid: data.competitors.urls_valid,
+    competitors_invalid: data.competitors.urls_invalid,
+    ...(data.competitors.profiles && { competitor_profiles: data.competitors.profiles }),
+    onboarding_completed: true,
+    // Optional keys are left out rather than sent as undefined - TOON would encode them as null
+    ...(data.logo_url !== undefined && { logo_url: data.logo_url }),
+    ...(data.favicon_url !== undefined && { favicon_url: data.favicon_url }),
+    ...(data.brand_colors !== undefined && { brand_colors: data.brand_colors }),
+    ...(data.brand_fonts !== undefined && { brand_fonts: data.brand_fonts }),
+  };
+}
+
+/**
+ * Rebuild wizard data from a stored profile (for editing an existing profile)
+ */
+export function toOnboardingData(profile: StoredProfile): OnboardingData {
+  return {
+    ...initialOnboardingData,
+    source: profile.source,
+    site_url: profile.site_url,
+    company_name: profile.company_name,
+    industry: profile.industry,
+    mission: profile.mission,
+    products_services: profile.products_services,
+    target_audience: profile.target_audience,
+    unique_value_proposition: profile.unique_value_proposition,
+    brand_voice: profile.brand_voice,
+    key_messaging: profile.key_messaging,
+    questionnaire_answers: profile.questionnaire_answers,
+    dynamic_questionnaire: profile.dynamic_questionnaire,
+    competitors: {
+      urls_valid: profile.competitors_valid,
+      urls_invalid: profile.competitors_invalid,
+      ...(profile.competitor_profiles && { profiles: profile.competitor_profiles }),
+    },
+    logo_url: profile.logo_url,
+    favicon_url: profile.favicon_url,
+    brand_colors: profile.brand_colors,
+    brand_fonts: profile.brand_fonts,
+    ...(profile.brand_colors && {
+      visual_elements: { colors: profile.brand_colors, has_logo: !!profile.logo_url },
+    }),
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Shared helpers for the /api/onboarding/profile/[id]/* routes (the readiness
+ * check also guards save-profile)
+ */
+
+import { NextResponse } from 'next/server';
+import { ProfileStoreError } from '@/lib/profile-store';
+import { RequestBodyError, requestBodyErrorResponse } from '@/lib/request-body';
+import { getReadinessGate, scoreProfile, type ScoredField } from '@/lib/profile-score';
+import type { OnboardingData } from '@/types/onboarding';
+
+const PROFILE_ERROR_STATUS = {
+  not_found: 404,
+  version_not_found: 404,
+} as const;
+
+export interface ProfileRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export interface ProfileVersionRouteContext {
+  params: Promise<{ id: string; version: string }>;
+}
+
+/**
+ * Parse a version number from a path or query parameter; NaN when it isn't one
+ */
+export function parseVersionParam(value: string | null): number {
+  return value !== null && /^\d+$/.test(value) ? Number(value) : NaN;
+}
+
+/**
+ * With `PROFILE_READINESS_GATE=block`, refuse a profile whose critical fields
+ * are empty - the rule Summary applies, so a direct request can't skip it
+ *
+ * @throws RequestBodyError with code `validation_failed` and the missing fields
+ */
+export function assertProfileReady(profile: Pick<OnboardingData, ScoredField>): void {
+  if (getReadinessGate() !== 'block') return;
+
+  const { fields, missingCritical } = scoreProfile(profile);
+  if (missingCritical.length === 0) return;
+
+  throw new RequestBodyError(
+    'Profile is missing critical fields',
+    'validation_failed',
+    fields
+      .filter((field) => missingCritical.includes(field.field))
+      .map((field) => ({ path: field.field, message: field.hint ?? field.label }))
+  );
+}
+
+/**
+ * Error response for a profile route: body errors -> 4xx, store errors -> 404,
+ * anything else -> 500
+ */
+export function profileErrorResponse(error: unknown, action: string, fallbackMessage: string) {
+  if (error instanceof RequestBodyError) {
+    return requestBodyErrorResponse(error);
+  }
+
+  if (error instanceof ProfileStoreError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        code: error.code,
+      },
+      { status: PROFILE_ERROR_STATUS[error.code] }
+    );
+  }
+
+  console.error(`[API] ${action} error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : fallbackMessage,
+    },
+    { status: 500 }
+  );
+}
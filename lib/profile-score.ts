@@ -0,0 +1,246 @@
+/**
+ * Profile Completeness Score
+ *
+ * How ready an `OnboardingData` profile is to produce good ads. Each scored
+ * field gets 0-1 from its presence, its length and how specific it is (list
+ * fields: how many items, and whether each says more than a word); the
+ * overall score is the weighted sum, 0-100. Fields that fall short carry a
+ * hint for the user.
+ *
+ * Critical fields (the value proposition, the audience, the services) are
+ * what the ads are built on - Summary warns before completing without them,
+ * or blocks when the readiness gate is `block` (`PROFILE_READINESS_GATE`) -
+ * then the profile routes refuse them too (lib/profile-route.ts).
+ *
+ * Client-safe - no server imports.
+ */
+
+import type { OnboardingData } from '@/types/onboarding';
+
+export type ScoredField =
+  | 'company_name'
+  | 'industry'
+  | 'mission'
+  | 'products_services'
+  | 'target_audience'
+  | 'unique_value_proposition'
+  | 'brand_voice'
+  | 'key_messaging';
+
+// What Summary does when completing with critical fields empty
+export type ReadinessGate = 'warn' | 'block';
+
+export const DEFAULT_READINESS_GATE: ReadinessGate = 'warn';
+
+export type ProfileScoreLevel = 'low' | 'fair' | 'good';
+
+export interface FieldScore {
+  field: ScoredField;
+  label: string;
+  // 0-1
+  score: number;
+  critical: boolean;
+  // What would raise the score; absent when the field is fine
+  hint?: string;
+}
+
+export interface ProfileScore {
+  // 0-100
+  score: number;
+  level: ProfileScoreLevel;
+  fields: FieldScore[];
+  // Critical fields that are empty
+  missingCritical: ScoredField[];
+}
+
+interface TextRule {
+  kind: 'text';
+  label: string;
+  weight: number;
+  critical?: boolean;
+  // Full marks for length from here on
+  goodLength: number;
+  // Distinct words for full marks on specificity
+  specificWords: number;
+  missingHint: string;
+}
+
+interface ListRule {
+  kind: 'list';
+  label: string;
+  weight: number;
+  critical?: boolean;
+  // Full marks for count from here on
+  goodCount: number;
+  // "services", "messages" - for the count hint
+  itemName: string;
+  missingHint: string;
+}
+
+const RULES: Record<ScoredField, TextRule | ListRule> = {
+  company_name: {
+    kind: 'text',
+    label: 'שם החברה',
+    weight: 8,
+    goodLength: 2,
+    specificWords: 1,
+    missingHint: 'חסר שם לעסק',
+  },
+  industry: {
+    kind: 'text',
+    label: 'תחום',
+    weight: 8,
+    goodLength: 8,
+    specificWords: 2,
+    missingHint: 'באיזה תחום העסק פועל?',
+  },
+  mission: {
+    kind: 'text',
+    label: 'ייעוד',
+    weight: 8,
+    goodLength: 60,
+    specificWords: 8,
+    missingHint: 'מה העסק רוצה להשיג עבור הלקוחות שלו?',
+  },
+  products_services: {
+    kind: 'list',
+    label: 'שירותים ומוצרים',
+    weight: 18,
+    critical: true,
+    goodCount: 3,
+    itemName: 'שירותים',
+    missingHint: 'לא צוינו שירותים או מוצרים - אין על מה לפרסם',
+  },
+  target_audience: {
+    kind: 'text',
+    label: 'קהל יעד',
+    weight: 18,
+    critical: true,
+    goodLength: 40,
+    specificWords: 6,
+    missingHint: 'חסר קהל יעד - למי הפרסום מדבר?',
+  },
+  unique_value_proposition: {
+    kind: 'text',
+    label: 'הצעת ערך ייחודית',
+    weight: 20,
+    critical: true,
+    goodLength: 60,
+    specificWords: 8,
+    missingHint: 'חסרה הצעת ערך - למה לבחור דווקא בכם?',
+  },
+  brand_voice: {
+    kind: 'text',
+    label: 'טון המותג',
+    weight: 8,
+    goodLength: 10,
+    specificWords: 2,
+    missingHint: 'איך המותג מדבר? (מקצועי, חברי, צעיר...)',
+  },
+  key_messaging: {
+    kind: 'list',
+    label: 'מסרים מרכזיים',
+    weight: 12,
+    goodCount: 2,
+    itemName: 'מסרים',
+    missingHint: 'אין מסרים מרכזיים - מה חשוב שהלקוחות יזכרו?',
+  },
+};
+
+// Answers that fill a field without saying anything about the business
+const GENERIC_VALUES = new Set([
+  'כללי',
+  'קהל רחב',
+  'כולם',
+  'כל אחד',
+  'החברה שלי',
+  'העסק שלי',
+  'אין',
+  'לא יודע',
+  'לא יודעת',
+  'general',
+  'everyone',
+  'n/a',
+]);
+
+const HINTS = {
+  generic: 'כללי מדי - כדאי לפרט משהו שמאפיין דווקא את העסק הזה',
+  short: 'קצר מדי - עוד כמה מילים יעזרו לכתוב מודעות מדויקות',
+  vague: 'כדאי לתאר בכמה מילים ולא במילה אחת',
+  fewItems: (goodCount: number, itemName: string) => `מומלץ לפחות ${goodCount} ${itemName}`,
+};
+
+const LEVELS: Array<[number, ProfileScoreLevel]> = [
+  [75, 'good'],
+  [45, 'fair'],
+  [0, 'low'],
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[\s,.;:!?()"'׳״\-]+/).filter(Boolean);
+}
+
+function isGeneric(text: string): boolean {
+  return GENERIC_VALUES.has(text.trim().toLowerCase());
+}
+
+function scoreText(rule: TextRule, value: string): Pick<FieldScore, 'score' | 'hint'> {
+  const text = value.trim();
+  if (!text) return { score: 0, hint: rule.missingHint };
+  if (isGeneric(text)) return { score: 0.2, hint: HINTS.generic };
+
+  const length = Math.min(text.length / rule.goodLength, 1);
+  const specificity = Math.min(new Set(words(text)).size / rule.specificWords, 1);
+  // Being there at all is worth the most; length and detail fill in the rest
+  const score = round(0.4 + 0.3 * length + 0.3 * specificity);
+  return { score, hint: score < 1 ? HINTS.short : undefined };
+}
+
+function scoreList(rule: ListRule, value: string[]): Pick<FieldScore, 'score' | 'hint'> {
+  const items = value.map((item) => item.trim()).filter((item) => item && !isGeneric(item));
+  if (items.length === 0) return { score: 0, hint: rule.missingHint };
+
+  const count = Math.min(items.length / rule.goodCount, 1);
+  const specific = items.filter((item) => words(item).length >= 2).length / items.length;
+  const score = round(0.4 + 0.4 * count + 0.2 * specific);
+
+  if (count < 1) return { score, hint: HINTS.fewItems(rule.goodCount, rule.itemName) };
+  return { score, hint: specific < 1 ? HINTS.vague : undefined };
+}
+
+export function scoreProfile(data: Pick<OnboardingData, ScoredField>): ProfileScore {
+  const entries = Object.entries(RULES) as Array<[ScoredField, TextRule | ListRule]>;
+
+  const fields = entries.map(([field, rule]): FieldScore => ({
+    field,
+    label: rule.label,
+    critical: !!rule.critical,
+    ...(rule.kind === 'list' ? scoreList(rule, data[field] as string[]) : scoreText(rule, data[field] as string)),
+  }));
+
+  const totalWeight = entries.reduce((sum, [, rule]) => sum + rule.weight, 0);
+  const weighted = fields.reduce((sum, field) => sum + field.score * RULES[field.field].weight, 0);
+  const score = Math.round((weighted / totalWeight) * 100);
+
+  return {
+    score,
+    level: LEVELS.find(([min]) => score >= min)?.[1] ?? 'low',
+    fields,
+    missingCritical: fields.filter((field) => field.critical && field.score === 0).map((field) => field.field),
+  };
+}
+
+export function isReadinessGate(value: unknown): value is ReadinessGate {
+  return value === 'warn' || value === 'block';
+}
+
+/**
+ * The gate set by `PROFILE_READINESS_GATE` - read on the server, the client
+ * gets it as a prop
+ */
+export function getReadinessGate(): ReadinessGate {
+  const configured = process.env.PROFILE_READINESS_GATE;
+  return isReadinessGate(configured) ? configured : DEFAULT_READINESS_GATE;
+}
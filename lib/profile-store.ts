@@ -0,0 +1,312 @@
+/**
+ * Profile Store
+ *
+ * Persists the profiles saved by the onboarding wizard. Routes only talk to
+ * the `ProfileStore` interface; the built-in backend writes JSON files under
+ * `PROFILE_STORE_DIR` (default `.data/profiles`), so saving works locally
+ * without Supabase. Another backend only needs the same methods.
+ *
+ * Every create, update and restore also writes an immutable
+ * `ProfileVersion` snapshot, so earlier answers can be listed, diffed
+ * (lib/profile-diff.ts) and restored. Updates, restores and deletes of one
+ * profile run one at a time, so a save always builds on the one before it.
+ *
+ * Server-only (uses the filesystem).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type {
+  ProfileFields,
+  ProfileVersion,
+  ProfileVersionSummary,
+  StoredProfile,
+} from '@/types/onboarding';
+
+export type ProfileStoreErrorCode = 'not_found' | 'version_not_found';
+
+export class ProfileStoreError extends Error {
+  constructor(message: string, public readonly code: ProfileStoreErrorCode) {
+    super(message);
+    this.name = 'ProfileStoreError';
+  }
+}
+
+/** Recorded on the version written by a save */
+export interface SaveMeta {
+  author?: string;
+}
+
+export interface ProfileStore {
+  create(data: ProfileFields, meta?: SaveMeta): Promise<StoredProfile>;
+  /** @throws ProfileStoreError `not_found` */
+  get(id: string): Promise<StoredProfile>;
+  /** Shallow-merge `patch` into the profile. @throws ProfileStoreError `not_found` */
+  update(id: string, patch: Partial<ProfileFields>, meta?: SaveMeta): Promise<StoredProfile>;
+  /** Removes the profile and its history. @throws ProfileStoreError `not_found` */
+  delete(id: string): Promise<void>;
+  /** Oldest first. @throws ProfileStoreError `not_found` */
+  listVersions(id: string): Promise<ProfileVersionSummary[]>;
+  /** @throws ProfileStoreError `not_found` / `version_not_found` */
+  getVersion(id: string, version: number): Promise<ProfileVersion>;
+  /**
+   * Roll the profile back to an older version's data. Recorded as a new version.
+   * @throws ProfileStoreError `not_found` / `version_not_found`
+   */
+  restore(id: string, version: number, meta?: SaveMeta): Promise<StoredProfile>;
+}
+
+export const DEFAULT_PROFILE_STORE_DIR = path.join(process.cwd(), '.data', 'profiles');
+
+const DEFAULT_AUTHOR = 'anonymous';
+
+// Ids end up in file names - anything else is treated as unknown rather than touching the disk
+const PROFILE_ID_PATTERN = /^profile_[A-Za-z0-9-]{1,64}$/;
+
+function notFound(id: string): ProfileStoreError {
+  return new ProfileStoreError(`Profile not found: ${id}`, 'not_found');
+}
+
+function versionNotFound(id: string, version: number): ProfileStoreError {
+  return new ProfileStoreError(`Version ${version} not found for profile ${id}`, 'version_not_found');
+}
+
+function isErrnoError(error: unknown, code: string): boolean {
+  return (error as NodeJS.ErrnoException)?.code === code;
+}
+
+// Pending writes per profile file - module-wide so every store on the same directory shares them.
+// Only serializes within this server process; several processes on one directory would need file locks.
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function serialized<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const result = (writeQueues.get(key) ?? Promise.resolve()).then(task, task);
+  const tail = result.catch(() => {});
+  writeQueues.set(key, tail);
+  tail.then(() => {
+    if (writeQueues.get(key) === tail) writeQueues.delete(key);
+  });
+  return result;
+}
+
+// Strip store bookkeeping so only the saved fields end up in a version
+function profileFields(profile: StoredProfile): ProfileFields {
+  const fields: Partial<StoredProfile> = { ...profile };
+  delete fields.id;
+  delete fields.version;
+  delete fields.created_at;
+  delete fields.updated_at;
+  return fields as ProfileFields;
+}
+
+function versionSummary(version: ProfileVersion): ProfileVersionSummary {
+  const summary: Partial<ProfileVersion> = { ...version };
+  delete summary.data;
+  return summary as ProfileVersionSummary;
+}
+
+/**
+ * File-backed store:
+ * - `<dir>/<id>.json` - current profile, written via temp file + rename
+ *   so a crash mid-write never leaves a truncated profile behind
+ * - `<dir>/<id>.versions/<n>.json` - version snapshots, created exclusively
+ *   and never rewritten
+ */
+export function createFileProfileStore(dir: string = DEFAULT_PROFILE_STORE_DIR): ProfileStore {
+  const fileFor = (id: string) => {
+    if (!PROFILE_ID_PATTERN.test(id)) {
+      throw notFound(id);
+    }
+    return path.join(dir, `${id}.json`);
+  };
+
+  const versionsDirFor = (id: string) => path.join(dir, `${id}.versions`);
+
+  const write = async (profile: StoredProfile) => {
+    await fs.mkdir(dir, { recursive: true });
+    const file = fileFor(profile.id);
+    const tempFile = `${file}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(profile, null, 2), 'utf8');
+    await fs.rename(tempFile, file);
+  };
+
+  const read = async (id: string): Promise<StoredProfile> => {
+    try {
+      const profile = JSON.parse(await fs.readFile(fileFor(id), 'utf8')) as StoredProfile;
+      // Profiles saved before history existed have no version yet
+      return { ...profile, version: profile.version ?? 0 };
+    } catch (error) {
+      if (isErrnoError(error, 'ENOENT')) throw notFound(id);
+      throw error;
+    }
+  };
+
+  const versionNumbers = async (id: string): Promise<number[]> => {
+    try {
+      const files = await fs.readdir(versionsDirFor(id));
+      return files
+        .map((file) => Number.parseInt(file, 10))
+        .filter((n) => Number.isInteger(n) && n > 0)
+        .sort((a, b) => a - b);
+    } catch (error) {
+      if (isErrnoError(error, 'ENOENT')) return [];
+      throw error;
+    }
+  };
+
+  const readVersion = async (id: string, version: number): Promise<ProfileVersion> => {
+    fileFor(id);
+    if (!Number.isInteger(version) || version < 1) throw versionNotFound(id, version);
+    try {
+      return JSON.parse(await fs.readFile(path.join(versionsDirFor(id), `${version}.json`), 'utf8')) as ProfileVersion;
+    } catch (error) {
+      if (isErrnoError(error, 'ENOENT')) {
+        await read(id); // not_found wins over version_not_found
+        throw versionNotFound(id, version);
+      }
+      throw error;
+    }
+  };
+
+  const appendVersion = async (
+    profile: StoredProfile,
+    action: ProfileVersion['action'],
+    meta: SaveMeta = {},
+    restoredFrom?: number
+  ): Promise<number> => {
+    const versionsDir = versionsDirFor(profile.id);
+    await fs.mkdir(versionsDir, { recursive: true });
+
+    const existing = await versionNumbers(profile.id);
+    let version = (existing[existing.length - 1] ?? 0) + 1;
+
+    while (true) {
+      const snapshot: ProfileVersion = {
+        version,
+        profile_id: profile.id,
+        author: meta.author?.trim() || DEFAULT_AUTHOR,
+        source: profile.source,
+        action,
+        ...(restoredFrom !== undefined && { restored_from: restoredFrom }),
+        created_at: profile.updated_at,
+        data: profileFields(profile),
+      };
+
+      try {
+        // 'wx' fails instead of overwriting if a concurrent save took this number
+        await fs.writeFile(path.join(versionsDir, `${version}.json`), JSON.stringify(snapshot, null, 2), {
+          encoding: 'utf8',
+          flag: 'wx',
+        });
+        return version;
+      } catch (error) {
+        if (!isErrnoError(error, 'EEXIST')) throw error;
+        // Taken - ours is the next one
+        version++;
+      }
+    }
+  };
+
+  // Write the profile and its snapshot; the profile records which version it matches
+  const save = async (
+    profile: StoredProfile,
+    action: ProfileVersion['action'],
+    meta?: SaveMeta,
+    restoredFrom?: number
+  ): Promise<StoredProfile> => {
+    const version = await appendVersion(profile, action, meta, restoredFrom);
+    const saved = { ...profile, version };
+    await write(saved);
+    return saved;
+  };
+
+  return {
+    async create(data, meta) {
+      const now = new Date().toISOString();
+      return save(
+        {
+          ...data,
+          id: `profile_${randomUUID()}`,
+          version: 0,
+          created_at: now,
+          updated_at: now,
+        },
+        'create',
+        meta
+      );
+    },
+
+    get: read,
+
+    async update(id, patch, meta) {
+      return serialized(fileFor(id), async () => {
+        const existing = await read(id);
+        return save(
+          {
+            ...existing,
+            ...patch,
+            id: existing.id,
+            created_at: existing.created_at,
+            updated_at: new Date().toISOString(),
+          },
+          'update',
+          meta
+        );
+      });
+    },
+
+    async delete(id) {
+      return serialized(fileFor(id), async () => {
+        try {
+          await fs.unlink(fileFor(id));
+        } catch (error) {
+          if (isErrnoError(error, 'ENOENT')) throw notFound(id);
+          throw error;
+        }
+        await fs.rm(versionsDirFor(id), { recursive: true, force: true });
+      });
+    },
+
+    async listVersions(id) {
+      await read(id);
+      const versions = await Promise.all(
+        (await versionNumbers(id)).map((version) => readVersion(id, version))
+      );
+      return versions.map(versionSummary);
+    },
+
+    getVersion: readVersion,
+
+    async restore(id, version, meta) {
+      return serialized(fileFor(id), async () => {
+        const target = await readVersion(id, version);
+        const existing = await read(id);
+        return save(
+          {
+            ...target.data,
+            id: existing.id,
+            version: existing.version,
+            created_at: existing.created_at,
+            updated_at: new Date().toISOString(),
+          },
+          'restore',
+          meta,
+          version
+        );
+      });
+    },
+  };
+}
+
+let defaultStore: ProfileStore | null = null;
+
+/**
+ * Store used by the API routes (file backend in `PROFILE_STORE_DIR`)
+ */
+export function getProfileStore(): ProfileStore {
+  if (!defaultStore) {
+    defaultStore = createFileProfileStore(process.env.PROFILE_STORE_DIR || DEFAULT_PROFILE_STORE_DIR);
+  }
+  return defaultStore;
+}
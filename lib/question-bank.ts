@@ -0,0 +1,292 @@
+/**
+ * Question Bank
+ *
+ * The screen-3 questions (Q2-Q8) of the conversational onboarding, one set
+ * per `BusinessCategory`. Every set asks the same things in the same order -
+ * trigger, cost of doing nothing, why you, expert insight, word of mouth, a
+ * client story, one message - in the words that fit the business, so answers
+ * stay comparable across categories.
+ *
+ * Client-safe - no server imports.
+ */
+
+import type { BusinessCategory } from '@/types/onboarding';
+
+export interface CategoryQuestion {
+  id: 'q2' | 'q3' | 'q4' | 'q5' | 'q6' | 'q7' | 'q8';
+  question: string;
+  // Asked when the answer is too thin to work with
+  clarification: string;
+}
+
+export const QUESTION_BANK: Record<BusinessCategory, CategoryQuestion[]> = {
+  b2c_retail: [
+    {
+      id: 'q2',
+      question: 'מה גורם ללקוח להיכנס אליך לחנות? מה הוא מחפש באותו רגע?',
+      clarification: 'יש אירוע או עונה שבהם פתאום נכנסים יותר אנשים?',
+    },
+    {
+      id: 'q3',
+      question: 'מה קורה ללקוח שקונה את המוצר במקום אחר? מה הוא מפספס?',
+      clarification: 'מה הדבר שהכי מאכזב לקוחות שקנו אצל מישהו אחר?',
+    },
+    {
+      id: 'q4',
+      question: 'יש הרבה חנויות שמוכרות דברים דומים. למה שיבחרו דווקא בך?',
+      clarification: 'מה יש אצלך שאי אפשר למצוא בחנות הסמוכה?',
+    },
+    {
+      id: 'q5',
+      question: 'מה אתה יודע על המוצרים שהלקוחות לא יודעים? איזו טעות אתה רואה אותם עושים בקנייה?',
+      clarification: 'על מה לקוחות הכי מתחרטים אחרי קנייה לא נכונה?',
+    },
+    {
+      id: 'q6',
+      question: 'כשלקוח ממליץ עליך לחבר - מה הוא אומר? באיזה מילים?',
+      clarification: 'יש משפט ששמעת מלקוח שחזר בזכות המלצה?',
+    },
+    {
+      id: 'q7',
+      question: 'ספר לי על לקוח אחד שיצא מהחנות מרוצה במיוחד - מה הוא חיפש ומה מצא?',
+      clarification: 'מה בדיוק עשה את ההבדל באותה קנייה?',
+    },
+    {
+      id: 'q8',
+      question: 'אם היית יכול להגיד לכל מי שעובר ליד החנות משפט אחד - מה הוא היה?',
+      clarification: 'מה הסיבה הכי טובה להיכנס אליך היום?',
+    },
+  ],
+
+  ecommerce: [
+    {
+      id: 'q2',
+      question: 'מה גורם ללקוח לחפש את המוצר שלך באינטרנט? מה קורה לו באותו רגע?',
+      clarification: 'מה הוא מקליד בגוגל כשהוא מגיע אליך?',
+    },
+    {
+      id: 'q3',
+      question: 'מה קורה ללקוח שמזמין ממקום אחר? ממה הוא חושש כשהוא קונה אונליין?',
+      clarification: 'מה הפחד הכי גדול של לקוח לפני שהוא לוחץ על "לתשלום"?',
+    },
+    {
+      id: 'q4',
+      question: 'המוצר שלך נמצא במרחק קליק מעשרות אתרים אחרים. למה שיקנו דווקא אצלך?',
+      clarification: 'מה יש אצלך - במוצר, במשלוח או בשירות - שאין במקומות אחרים?',
+    },
+    {
+      id: 'q5',
+      question: 'מה אתה רואה בהזמנות ובהחזרות שהלקוחות לא רואים? איזו טעות הכי נפוצה בבחירת המוצר?',
+      clarification: 'מה הסיבה הכי שכיחה להחזרה או לתלונה?',
+    },
+    {
+      id: 'q6',
+      question: 'מה לקוחות כותבים בביקורות עליך? יש מילים שחוזרות שוב ושוב?',
+      clarification: 'יש ביקורת אחת שאתה הכי גאה בה?',
+    },
+    {
+      id: 'q7',
+      question: 'ספר לי על לקוח אחד שהזמין, קיבל והתלהב - מה הוא חיפש ומה קיבל?',
+      clarification: 'מה הוא כתב או אמר אחרי שהחבילה הגיעה?',
+    },
+    {
+      id: 'q8',
+      question: 'אם היית יכול לשים משפט אחד מעל כפתור ההזמנה - מה הוא היה?',
+      clarification: 'מה הסיבה הכי טובה להזמין עכשיו ולא אחר כך?',
+    },
+  ],
+
+  b2b_service: [
+    {
+      id: 'q2',
+      question: 'מה קורה בעסק שגורם לבעלים להבין שהוא צריך מישהו כמוך?',
+      clarification: 'מה הבעיה הספציפית שגורמת לאנשים להרים טלפון?',
+    },
+    {
+      id: 'q3',
+      question: 'מה היה קורה ללקוחות שלך אם הם היו ממשיכים בלי עזרה? מה הם היו מפסידים?',
+      clarification: 'מה הדבר הכי גרוע שיכול לקרות לעסק שלא מטפל בזה?',
+    },
+    {
+      id: 'q4',
+      question: 'יש עוד הרבה אנשים שעושים מה שאתה עושה. למה שבעל עסק יבחר דווקא בך?',
+      clarification: 'מה אתה עושה שאחרים בתחום לא עושים?',
+    },
+    {
+      id: 'q5',
+      question: 'מה אתה רואה שבעלי עסקים לא רואים? מה הטעות הכי יקרה שאתה מציל אותם ממנה?',
+      clarification: 'מה הטעות הכי נפוצה שאתה רואה אצל עסקים שמגיעים אליך?',
+    },
+    {
+      id: 'q6',
+      question: 'כשלקוח ממליץ עליך לבעל עסק אחר - מה הוא אומר? באיזה מילים?',
+      clarification: 'יש משפט ספציפי ששמעת מלקוח שממליץ עליך?',
+    },
+    {
+      id: 'q7',
+      question: 'ספר לי על לקוח אחד - מה היה המצב כשהגיע, מה עשית, ומה התוצאה?',
+      clarification: 'מה היה האתגר הספציפי? ומה השתנה אחרי?',
+    },
+    {
+      id: 'q8',
+      question: 'אם היית יכול להעביר למנהל שמתלבט אם לפנות אליך מסר אחד בלבד - מה הוא היה?',
+      clarification: 'מה הוא צריך לשמוע כדי להרים טלפון כבר היום?',
+    },
+  ],
+
+  local_service: [
+    {
+      id: 'q2',
+      question: 'מה קורה אצל הלקוח בבית או בעסק שגורם לו להתקשר אליך?',
+      clarification: 'זה בדרך כלל מקרה דחוף או משהו שמתכננים מראש?',
+    },
+    {
+      id: 'q3',
+      question: 'מה קורה כשמחכים עם זה או כשבוחרים את בעל המקצוע הלא נכון?',
+      clarification: 'יש לך דוגמה לעבודה שהגעת לתקן אחרי מישהו אחר?',
+    },
+    {
+      id: 'q4',
+      question: 'באזור שלך יש עוד בעלי מקצוע שעושים את אותה עבודה. למה שיזמינו דווקא אותך?',
+      clarification: 'מה לקוחות אומרים שהפתיע אותם לטובה בעבודה איתך?',
+    },
+    {
+      id: 'q5',
+      question: 'מה אתה יודע מהשטח שלקוחות לא יודעים? איזו טעות הכי יקרה אתה חוסך להם?',
+      clarification: 'מה הדבר שהכי הרבה אנשים מנסים לעשות לבד - ולא כדאי?',
+    },
+    {
+      id: 'q6',
+      question: 'כששכן ממליץ עליך לשכן - מה הוא אומר?',
+      clarification: 'יש משפט שחוזר בהמלצות או בביקורות עליך?',
+    },
+    {
+      id: 'q7',
+      question: 'ספר לי על עבודה אחת - מה מצאת כשהגעת, מה עשית, ואיך הלקוח הגיב?',
+      clarification: 'כמה זמן זה לקח ומה השתנה אצל הלקוח אחרי?',
+    },
+    {
+      id: 'q8',
+      question: 'אם היית יכול לתלות מודעה אחת בכל בניין באזור - מה היה כתוב בה?',
+      clarification: 'מה הסיבה הכי טובה להתקשר אליך ולא לחפש הלאה?',
+    },
+  ],
+
+  professional_practice: [
+    {
+      id: 'q2',
+      question: 'מה קורה בחיים של אדם שגורם לו להבין שהוא צריך לפנות אליך?',
+      clarification: 'באיזה שלב אנשים בדרך כלל מגיעים - בהתחלה או כשהמצב כבר קשה?',
+    },
+    {
+      id: 'q3',
+      question: 'מה קורה למי שדוחה את הפנייה או מנסה להסתדר לבד?',
+      clarification: 'מה המחיר - כספי, בריאותי או רגשי - של לחכות?',
+    },
+    {
+      id: 'q4',
+      question: 'יש עוד אנשי מקצוע בתחום שלך. למה שיבחרו דווקא בך?',
+      clarification: 'מה בגישה או בניסיון שלך שונה ממה שאחרים מציעים?',
+    },
+    {
+      id: 'q5',
+      question: 'מה אתה יודע מהניסיון שלך שאנשים לא יודעים? איזו טעות נפוצה אתה רואה?',
+      clarification: 'מה הדבר הראשון שהיית אומר למי שרק התחיל להתמודד עם זה?',
+    },
+    {
+      id: 'q6',
+      question: 'כשמטופל או לקוח ממליץ עליך למישהו קרוב - מה הוא אומר?',
+      clarification: 'יש משפט שמטופלים או לקוחות אומרים לך בסוף התהליך?',
+    },
+    {
+      id: 'q7',
+      question: 'ספר לי על מקרה אחד (בלי פרטים מזהים) - איפה האדם היה כשהגיע ואיפה הוא היום?',
+      clarification: 'מה היה הרגע שבו הבנת שהתהליך עובד?',
+    },
+    {
+      id: 'q8',
+      question: 'אם היית יכול להגיד משפט אחד למי שמתלבט אם לקבוע פגישה ראשונה - מה הוא היה?',
+      clarification: 'מה הכי חשוב שידע לפני שהוא מרים טלפון?',
+    },
+  ],
+
+  hospitality: [
+    {
+      id: 'q2',
+      question: 'לאיזה רגע או אירוע אנשים מגיעים אליך? מה הם חוגגים או מחפשים?',
+      clarification: 'זו יציאה ספונטנית או משהו שמתכננים שבועות מראש?',
+    },
+    {
+      id: 'q3',
+      question: 'מה קורה כשבוחרים מקום אחר ויוצאים מאוכזבים?',
+      clarification: 'מה הדבר שהכי הורס ללקוחות ערב, אירוע או חופשה?',
+    },
+    {
+      id: 'q4',
+      question: 'יש הרבה מקומות לבחור מהם. למה שיבחרו דווקא בכם?',
+      clarification: 'מה יש אצלכם - באוכל, באווירה או בשירות - שאי אפשר לקבל במקום אחר?',
+    },
+    {
+      id: 'q5',
+      question: 'מה אתם יודעים מאחורי הקלעים שאורחים לא יודעים? מה הטעות הכי נפוצה בתכנון?',
+      clarification: 'מה הייתם ממליצים לאורח לבקש או להזמין כדי לקבל את החוויה הכי טובה?',
+    },
+    {
+      id: 'q6',
+      question: 'כשאורח ממליץ עליכם לחברים - מה הוא מספר?',
+      clarification: 'יש מנה, פינה או רגע שכולם מצלמים ומדברים עליו?',
+    },
+    {
+      id: 'q7',
+      question: 'ספר לי על אורח או אירוע אחד שזכור לכם במיוחד - מה ביקשו ומה קיבלו?',
+      clarification: 'איך הם הגיבו בסוף הערב או האירוע?',
+    },
+    {
+      id: 'q8',
+      question: 'אם הייתם יכולים להזמין כל אורח פוטנציאלי במשפט אחד - מה הוא היה?',
+      clarification: 'מה הסיבה הכי טובה להזמין מקום כבר השבוע?',
+    },
+  ],
+
+  saas: [
+    {
+      id: 'q2',
+      question: 'מה קורה בארגון או אצל המשתמש שגורם לו לחפש פתרון כמו שלכם?',
+      clarification: 'מה הם עשו לפני שמצאו אתכם - אקסל, מערכת אחרת, עבודה ידנית?',
+    },
+    {
+      id: 'q3',
+      question: 'מה עולה למשתמשים להמשיך לעבוד בלי המוצר? בזמן, בכסף או בטעויות?',
+      clarification: 'אפשר לתת מספר - כמה שעות או כמה כסף הולכים לאיבוד?',
+    },
+    {
+      id: 'q4',
+      question: 'יש עוד כלים בשוק. למה שיבחרו דווקא בכם?',
+      clarification: 'מה המשתמשים אומרים שהם לא מצאו באף מוצר אחר?',
+    },
+    {
+      id: 'q5',
+      question: 'מה אתם רואים בנתוני השימוש שהלקוחות לא רואים? איזו טעות הכי נפוצה בהטמעה?',
+      clarification: 'מה מבדיל לקוח שמצליח עם המוצר מלקוח שעוזב?',
+    },
+    {
+      id: 'q6',
+      question: 'כשמשתמש ממליץ עליכם לעמית - מה הוא אומר?',
+      clarification: 'יש ציטוט מלקוח או ביקורת שאתם הכי אוהבים?',
+    },
+    {
+      id: 'q7',
+      question: 'ספר לי על לקוח אחד - מה היה המצב לפני, איך הטמיע את המוצר, ומה השתנה?',
+      clarification: 'יש מספר שמראה את השינוי - זמן שנחסך, הכנסה, שגיאות?',
+    },
+    {
+      id: 'q8',
+      question: 'אם הייתם יכולים לכתוב משפט אחד מעל כפתור ההרשמה - מה הוא היה?',
+      clarification: 'מה המשתמש מקבל כבר ביום הראשון?',
+    },
+  ],
+};
+
+export function questionsForCategory(category: BusinessCategory): CategoryQuestion[] {
+  return QUESTION_BANK[category];
+}
@@ -0,0 +1,177 @@
+/**
+ * Question Gaps
+ *
+ * Decides which follow-up questions generate-questions asks after a website
+ * scan: every `OnboardingData` field the scan left missing or weak (no
+ * target audience, a generic mission, too few services, ...) becomes one
+ * `DynamicQuestion` with the reason it is asked and a priority. Fields the
+ * scan filled with confidence produce no question.
+ *
+ * Client-safe - no server imports.
+ */
+
+import type { DynamicQuestion, OnboardingData, QuestionPriority, ScannedWebsiteData } from '@/types/onboarding';
+
+export const MIN_PRODUCTS_SERVICES = 3;
+export const MIN_MISSION_LENGTH = 20;
+export const MAX_GAP_QUESTIONS = 5;
+
+export type GapField =
+  | 'company_name'
+  | 'industry'
+  | 'target_audience'
+  | 'products_services'
+  | 'mission'
+  | 'unique_value_proposition'
+  | 'brand_voice'
+  | 'key_messaging';
+
+export interface ProfileGap {
+  field: GapField;
+  reason: string;
+  priority: QuestionPriority;
+}
+
+const PRIORITY_ORDER: Record<QuestionPriority, number> = { high: 0, medium: 1, low: 2 };
+
+// Taglines that say nothing about the business
+const GENERIC_PHRASES = [
+  'ברוכים הבאים',
+  'דף הבית',
+  'אתר הבית',
+  'האתר הרשמי',
+  'welcome',
+  'home',
+  'homepage',
+  'official site',
+  'official website',
+  'coming soon',
+];
+
+const QUESTIONS: Record<GapField, { description: string; question: (data: OnboardingData) => string }> = {
+  company_name: {
+    description: 'שם העסק',
+    question: () => 'מה השם של העסק כפי שתרצו שיופיע בתוכן?',
+  },
+  industry: {
+    description: 'תחום הפעילות של העסק',
+    question: () => 'באיזה תחום העסק שלכם פועל?',
+  },
+  target_audience: {
+    description: 'קהל יעד של העסק',
+    question: () => 'מי הם הלקוחות העיקריים שלכם?',
+  },
+  products_services: {
+    description: 'השירותים והמוצרים של העסק',
+    question: (data) =>
+      data.products_services.length > 0
+        ? `מצאנו באתר: ${data.products_services.join(', ')}. אילו עוד שירותים או מוצרים אתם מציעים?`
+        : 'אילו שירותים או מוצרים העסק שלכם מציע?',
+  },
+  mission: {
+    description: 'מה העסק עושה ולמה',
+    question: () => 'איך הייתם מתארים במשפט או שניים מה העסק עושה ולמי?',
+  },
+  unique_value_proposition: {
+    description: 'הצעת הערך הייחודית',
+    question: () => 'מה מייחד אתכם מהמתחרים?',
+  },
+  brand_voice: {
+    description: 'טון המותג',
+    question: () => 'איך תרצו שהמותג שלכם ישמע? (מקצועי, ידידותי, צעיר וכו\')',
+  },
+  key_messaging: {
+    description: 'מסרים מרכזיים',
+    question: () => 'מהם המסרים החשובים ביותר שתרצו להעביר ללקוחות?',
+  },
+};
+
+const isBlank = (value: string | null | undefined) => !value || value.trim() === '';
+
+function hostnameOf(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+function isGenericText(text: string, data: OnboardingData, scan?: ScannedWebsiteData): boolean {
+  const normalized = text.trim().toLowerCase();
+  return (
+    normalized.length < MIN_MISSION_LENGTH ||
+    normalized === data.company_name.trim().toLowerCase() ||
+    normalized === scan?.raw_title.trim().toLowerCase() ||
+    GENERIC_PHRASES.some((phrase) => normalized === phrase || normalized.startsWith(`${phrase} `))
+  );
+}
+
+/**
+ * Missing or weak fields, most important first
+ */
+export function findProfileGaps(data: OnboardingData, scan?: ScannedWebsiteData): ProfileGap[] {
+  const gaps: ProfileGap[] = [];
+  const add = (field: GapField, priority: QuestionPriority, reason: string) => gaps.push({ field, priority, reason });
+
+  // The scanner falls back to the hostname when the site doesn't name itself
+  const siteHost = hostnameOf(data.site_url) ?? hostnameOf(scan?.url);
+  if (isBlank(data.company_name)) {
+    add('company_name', 'high', 'שם העסק לא נמצא באתר');
+  } else if (siteHost && data.company_name.trim().toLowerCase() === siteHost) {
+    add('company_name', 'medium', 'באתר מופיעה רק כתובת הדומיין, בלי שם העסק');
+  }
+
+  if (isBlank(data.industry)) {
+    add('industry', 'high', 'תחום הפעילות לא זוהה מהאתר');
+  }
+
+  if (isBlank(data.target_audience)) {
+    add('target_audience', 'high', 'האתר לא מציין למי העסק פונה');
+  }
+
+  const serviceCount = new Set(data.products_services.map((s) => s.trim().toLowerCase()).filter(Boolean)).size;
+  if (serviceCount === 0) {
+    add('products_services', 'high', 'לא נמצאו באתר שירותים או מוצרים');
+  } else if (serviceCount < MIN_PRODUCTS_SERVICES) {
+    add('products_services', 'medium', `נמצאו באתר רק ${serviceCount} שירותים או מוצרים`);
+  }
+
+  if (isBlank(data.mission)) {
+    add('mission', 'medium', 'לא נמצא באתר תיאור של העסק');
+  } else if (isGenericText(data.mission, data, scan)) {
+    add('mission', 'medium', 'התיאור שנמצא באתר כללי מדי');
+  }
+
+  if (isBlank(data.unique_value_proposition)) {
+    add('unique_value_proposition', 'medium', 'לא ברור מהאתר מה מבדל את העסק מהמתחרים');
+  }
+
+  if (isBlank(data.brand_voice)) {
+    add('brand_voice', 'low', 'טון המותג לא נקבע');
+  }
+
+  if (data.key_messaging.length === 0) {
+    add('key_messaging', 'low', 'לא הוגדרו מסרים מרכזיים');
+  }
+
+  // Stable sort keeps the order above within each priority
+  return gaps.sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]);
+}
+
+/**
+ * One question per gap, capped at `limit`
+ */
+export function questionsForGaps(
+  data: OnboardingData,
+  gaps: ProfileGap[],
+  limit: number = MAX_GAP_QUESTIONS
+): DynamicQuestion[] {
+  return gaps.slice(0, limit).map((gap) => ({
+    field: gap.field,
+    description: QUESTIONS[gap.field].description,
+    question_for_client: QUESTIONS[gap.field].question(data),
+    reason: gap.reason,
+    priority: gap.priority,
+  }));
+}
@@ -0,0 +1,126 @@
+/**
+ * Questionnaire Extraction
+ *
+ * Turns the free-text answers of the no-website questionnaire into profile
+ * fields, each with a confidence score. /api/onboarding/extract-answers asks
+ * the LLM (prompt: lib/llm/prompts/questionnaire-extraction.md) and falls
+ * back to `fallbackExtraction` when it can't; either way the result goes
+ * through `normalizeExtraction`, and what the questionnaire asked outright
+ * (the name, the category) overrides it in `withDirectAnswers`. Summary flags
+ * every field below `REVIEW_CONFIDENCE` for the user to check.
+ *
+ * Client-safe - no server imports.
+ */
+
+import { classifyBusinessCategory } from '@/lib/business-category';
+import {
+  businessCategoryLabels,
+  type ExtractedField,
+  type ExtractedValue,
+  type QuestionnaireAnswers,
+  type QuestionnaireExtraction,
+} from '@/types/onboarding';
+
+export const EXTRACTED_FIELDS: ExtractedField[] = [
+  'company_name',
+  'industry',
+  'products_services',
+  'target_audience',
+  'key_messaging',
+];
+
+// Fields scored below this are flagged for review
+export const REVIEW_CONFIDENCE = 0.6;
+
+// Keyword guesses never pass review on their own
+const FALLBACK_MAX_CONFIDENCE = 0.5;
+
+const MAX_PRODUCTS = 10;
+const MAX_KEY_MESSAGES = 5;
+
+function splitList(text: string, max: number): string[] {
+  return [...new Set(text.split(/[,،\/\n]/).map((item) => item.trim()).filter(Boolean))].slice(0, max);
+}
+
+function clampConfidence(confidence: number): number {
+  return Math.round(Math.min(Math.max(confidence, 0), 1) * 100) / 100;
+}
+
+function normalizeText({ value, confidence }: ExtractedValue<string>): ExtractedValue<string> {
+  const text = value.trim();
+  return { value: text, confidence: text ? clampConfidence(confidence) : 0 };
+}
+
+function normalizeList({ value, confidence }: ExtractedValue<string[]>, max: number): ExtractedValue<string[]> {
+  const items = [...new Set(value.map((item) => item.trim()).filter(Boolean))].slice(0, max);
+  return { value: items, confidence: items.length > 0 ? clampConfidence(confidence) : 0 };
+}
+
+/**
+ * Trim values, drop duplicates and keep confidences in 0-1 - an empty value
+ * is never confident
+ */
+export function normalizeExtraction(extraction: QuestionnaireExtraction): QuestionnaireExtraction {
+  return {
+    company_name: normalizeText(extraction.company_name),
+    industry: normalizeText(extraction.industry),
+    products_services: normalizeList(extraction.products_services, MAX_PRODUCTS),
+    target_audience: normalizeText(extraction.target_audience),
+    key_messaging: normalizeList(extraction.key_messaging, MAX_KEY_MESSAGES),
+  };
+}
+
+/**
+ * Best effort without a model: list answers split on separators, the
+ * industry from the business-category keywords, and nothing for what only a
+ * reading of the answers could tell (the name and the audience)
+ */
+export function fallbackExtraction(answers: QuestionnaireAnswers): QuestionnaireExtraction {
+  const products = splitList(answers.services, MAX_PRODUCTS);
+  const messages = splitList(answers.key_messages, MAX_KEY_MESSAGES);
+  const { category, confidence } = classifyBusinessCategory([answers.services, answers.additional_info]);
+
+  return normalizeExtraction({
+    company_name: { value: '', confidence: 0 },
+    industry: {
+      value: confidence > 0 ? businessCategoryLabels[category] : '',
+      confidence: confidence * FALLBACK_MAX_CONFIDENCE,
+    },
+    products_services: { value: products, confidence: FALLBACK_MAX_CONFIDENCE },
+    target_audience: { value: '', confidence: 0 },
+    key_messaging: { value: messages, confidence: FALLBACK_MAX_CONFIDENCE },
+  });
+}
+
+/**
+ * Fields the user answered directly need no guessing
+ */
+export function withDirectAnswers(
+  extraction: QuestionnaireExtraction,
+  answers: QuestionnaireAnswers
+): QuestionnaireExtraction {
+  const companyName = answers.company_name?.trim();
+  return {
+    ...extraction,
+    ...(companyName && { company_name: { value: companyName, confidence: 1 } }),
+    ...(answers.business_category && {
+      industry: { value: businessCategoryLabels[answers.business_category], confidence: 1 },
+    }),
+  };
+}
+
+export function extractionConfidence(extraction: QuestionnaireExtraction): Record<ExtractedField, number> {
+  return Object.fromEntries(
+    EXTRACTED_FIELDS.map((field) => [field, extraction[field].confidence])
+  ) as Record<ExtractedField, number>;
+}
+
+/**
+ * Extracted fields the user should check, in form order
+ */
+export function fieldsNeedingReview(confidence: Partial<Record<ExtractedField, number>> = {}): ExtractedField[] {
+  return EXTRACTED_FIELDS.filter((field) => {
+    const score = confidence[field];
+    return score !== undefined && score < REVIEW_CONFIDENCE;
+  });
+}
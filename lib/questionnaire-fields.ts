@@ -0,0 +1,112 @@
+/**
+ * Questionnaire Fields
+ *
+ * Validation for the no-website questionnaire, driven by `fixedQuestions`
+ * (types/onboarding.ts): required flags, length limits, and per-kind checks
+ * for phone numbers, addresses and select options. FixedQuestionnaire shows
+ * the errors next to each field; /api/onboarding/extract-answers rejects
+ * answers that fail the same checks.
+ *
+ * Client-safe - no server imports.
+ */
+
+import {
+  fixedQuestions,
+  type FieldError,
+  type QuestionnaireAnswers,
+  type QuestionnaireField,
+  type QuestionnaireFieldKind,
+} from '@/types/onboarding';
+
+export type QuestionnaireAnswerValue = QuestionnaireAnswers[keyof QuestionnaireAnswers];
+
+// Length limits by kind, when the field sets none (within the payload limits)
+const MAX_LENGTH: Partial<Record<QuestionnaireFieldKind, number>> = {
+  short_text: 200,
+  long_text: 4000,
+  phone: 30,
+  address: 200,
+};
+
+// Israeli numbers: landline/mobile with 0 or +972, and 1-800 style numbers
+const PHONE_PATTERN = /^(?:(?:\+972|0)\d{8,9}|1[5-9]00\d{6})$/;
+// Separators people type between digit groups
+const PHONE_SEPARATORS = /[\s\-().]/g;
+
+const MESSAGES = {
+  required: 'שדה חובה',
+  tooLong: (max: number) => `ארוך מדי (עד ${max} תווים)`,
+  phone: 'מספר טלפון לא תקין',
+  address: 'נא להזין כתובת או אזור',
+  option: 'יש לבחור מהאפשרויות',
+};
+
+export function isQuestionAnswered(value: QuestionnaireAnswerValue): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value?.trim();
+}
+
+/**
+ * The problem with one answer, or undefined when it is fine
+ */
+export function validateQuestionnaireField(
+  field: QuestionnaireField,
+  value: QuestionnaireAnswerValue
+): string | undefined {
+  if (!isQuestionAnswered(value)) {
+    return field.required ? MESSAGES.required : undefined;
+  }
+
+  if (field.kind === 'select' || field.kind === 'multi_select') {
+    const allowed = new Set(field.options?.map((option) => option.value));
+    const picked = Array.isArray(value) ? value : [value as string];
+    return picked.every((option) => allowed.has(option)) ? undefined : MESSAGES.option;
+  }
+
+  const text = (Array.isArray(value) ? value.join(', ') : (value ?? '')).trim();
+  const max = field.maxLength ?? MAX_LENGTH[field.kind];
+  if (max !== undefined && text.length > max) {
+    return MESSAGES.tooLong(max);
+  }
+
+  if (field.kind === 'phone' && !PHONE_PATTERN.test(text.replace(PHONE_SEPARATORS, ''))) {
+    return MESSAGES.phone;
+  }
+  if (field.kind === 'address' && !/\p{L}{2,}/u.test(text)) {
+    return MESSAGES.address;
+  }
+  return undefined;
+}
+
+/**
+ * Every problem in the answers, keyed (`path`) by the answer field
+ */
+export function validateQuestionnaireAnswers(
+  answers: Partial<QuestionnaireAnswers>,
+  fields: QuestionnaireField[] = fixedQuestions
+): FieldError[] {
+  return fields.flatMap((field) => {
+    const message = validateQuestionnaireField(field, answers[field.key]);
+    return message ? [{ path: field.key, message }] : [];
+  });
+}
+
+/**
+ * The answers as sent to extract-answers: text trimmed, unanswered optional
+ * fields left out, and the original five always present (empty when skipped)
+ */
+export function toQuestionnaireAnswers(answers: Partial<QuestionnaireAnswers>): QuestionnaireAnswers {
+  const answered = Object.fromEntries(
+    Object.entries(answers)
+      .filter(([, value]) => isQuestionAnswered(value))
+      .map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value])
+  ) as Partial<QuestionnaireAnswers>;
+
+  return {
+    services: '',
+    advantages: '',
+    tone: '',
+    key_messages: '',
+    additional_info: '',
+    ...answered,
+  };
+}
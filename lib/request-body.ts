@@ -0,0 +1,129 @@
+/**
+ * Request Body Parsing for API Routes
+ *
+ * Clients send bodies encoded with `safeToonEncodeString` and
+ * `Content-Type: text/plain`; some (the conversational chat) still send JSON.
+ * `parseRequestBody` accepts both and throws a `RequestBodyError` - which
+ * routes turn into a 4xx response - instead of silently falling back to an
+ * empty payload. `validateRequestBody` additionally checks the decoded body
+ * against a schema from lib/onboarding-schemas.ts and reports field errors.
+ */
+
+import { NextResponse } from 'next/server';
+import { safeToonDecode } from '@/lib/toon-utils';
+import { parseWithSchema, type FieldError, type Schema } from '@/lib/schema';
+
+export type RequestBodyErrorCode = 'unsupported_content_type' | 'invalid_body' | 'validation_failed';
+
+const ERROR_STATUS: Record<RequestBodyErrorCode, number> = {
+  unsupported_content_type: 415,
+  invalid_body: 400,
+  validation_failed: 400,
+};
+
+/**
+ * Thrown when a request body can't be decoded into an object or fails validation
+ */
+export class RequestBodyError extends Error {
+  readonly status: number;
+
+  constructor(
+    message: string,
+    public readonly code: RequestBodyErrorCode,
+    public readonly fieldErrors: FieldError[] = []
+  ) {
+    super(message);
+    this.name = 'RequestBodyError';
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+/**
+ * Decode a TOON or JSON request body into an object.
+ *
+ * - `application/json` is parsed as JSON
+ * - `text/plain` (or no content type) is decoded as TOON, with JSON fallback
+ * - An empty body decodes to `{}`
+ *
+ * @throws RequestBodyError for unsupported content types and undecodable bodies
+ */
+export async function parseRequestBody<T extends object = Record<string, unknown>>(
+  request: Request
+): Promise<T> {
+  const contentType = (request.headers.get('content-type') || 'text/plain').split(';')[0].trim().toLowerCase();
+
+  if (contentType !== 'application/json' && contentType !== 'text/plain') {
+    throw new RequestBodyError(`Unsupported content type: ${contentType}`, 'unsupported_content_type');
+  }
+
+  const text = await request.text();
+  if (text.trim() === '') {
+    return {} as T;
+  }
+
+  const data = contentType === 'application/json' ? parseJson(text) : decodeToonOrJson(text);
+
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw new RequestBodyError('Request body must be an object', 'invalid_body');
+  }
+
+  return data as T;
+}
+
+/**
+ * Decode the request body and validate it against `schema`.
+ * Unknown keys are dropped from the result.
+ *
+ * @throws RequestBodyError with code `validation_failed` and per-field errors
+ */
+export async function validateRequestBody<T>(request: Request, schema: Schema<T>): Promise<T> {
+  const body = await parseRequestBody(request);
+  const result = parseWithSchema(schema, body);
+  if (!result.success) {
+    throw new RequestBodyError('Request body failed validation', 'validation_failed', result.errors);
+  }
+  return result.data;
+}
+
+/**
+ * Standard error response for a RequestBodyError
+ */
+export function requestBodyErrorResponse(error: RequestBodyError) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      code: error.code,
+      ...(error.fieldErrors.length > 0 && { fieldErrors: error.fieldErrors }),
+    },
+    { status: error.status }
+  );
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new RequestBodyError(
+      `Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`,
+      'invalid_body'
+    );
+  }
+}
+
+function decodeToonOrJson(text: string): unknown {
+  // TOON happily "decodes" JSON text into garbage keys, so JSON-looking bodies go to JSON first
+  if (/^\s*[{[]/.test(text)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      // Not JSON after all - let TOON have a go
+    }
+  }
+
+  const { data, error } = safeToonDecode(text);
+  if (data === null) {
+    throw new RequestBodyError(`Could not decode request body: ${error}`, 'invalid_body');
+  }
+  return data;
+}
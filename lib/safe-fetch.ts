@@ -0,0 +1,303 @@
+/**
+ * Safe Outbound Fetch
+ *
+ * Every server-side request to a user-supplied URL (website scan, competitor
+ * validation) goes through `safeFetch`, so those routes can't be aimed at
+ * internal services:
+ * - only http/https on the usual web ports
+ * - host names are resolved up front and every address is checked against
+ *   private, loopback, link-local (cloud metadata) and reserved ranges; the
+ *   connection is pinned to the checked addresses, so DNS can't change
+ *   between the check and the connect
+ * - redirects are followed manually and each hop is checked again
+ * - one deadline for the whole request chain and a cap on the (decompressed)
+ *   response size
+ *
+ * Failures throw `SafeFetchError` with a `SafeFetchErrorCode` that the routes
+ * pass on to the client (Hebrew messages: `fetchErrorMessages` in
+ * types/onboarding.ts).
+ *
+ * Server-only (uses node:http).
+ */
+
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+import zlib from 'zlib';
+import type { Readable } from 'stream';
+import type { SafeFetchErrorCode } from '@/types/onboarding';
+
+export class SafeFetchError extends Error {
+  constructor(message: string, public readonly code: SafeFetchErrorCode) {
+    super(message);
+    this.name = 'SafeFetchError';
+  }
+}
+
+export interface SafeFetchOptions {
+  method?: 'GET' | 'HEAD';
+  headers?: Record<string, string>;
+  /** Deadline for the whole redirect chain, including reading the body */
+  timeoutMs?: number;
+  maxRedirects?: number;
+  /** Cap on the decompressed body */
+  maxBytes?: number;
+  /** Return the first `maxBytes` instead of failing with `too_large` */
+  truncate?: boolean;
+  /** Skip reading the body for responses that don't match (e.g. /html/) */
+  accept?: RegExp;
+  /** DNS resolver - replaceable for offline tests */
+  lookup?: typeof dns.lookup;
+}
+
+export interface SafeFetchResponse {
+  /** Final URL after redirects */
+  url: string;
+  status: number;
+  contentType: string | null;
+  body: string;
+  /** True when the body was cut at `maxBytes` */
+  truncated: boolean;
+}
+
+export const DEFAULT_FETCH_TIMEOUT_MS = 10_000;
+export const DEFAULT_MAX_REDIRECTS = 5;
+export const DEFAULT_MAX_RESPONSE_BYTES = 2_000_000;
+
+const ALLOWED_PROTOCOLS = new Set(['http:', 'https:']);
+// '' = the scheme's default port
+const ALLOWED_PORTS = new Set(['', '80', '443', '8080', '8443']);
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+const BLOCKED_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // RFC1918
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata (169.254.169.254)
+  ['172.16.0.0', 12], // RFC1918
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.88.99.0', 24], // 6to4 relay
+  ['192.168.0.0', 16], // RFC1918
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['64:ff9b::', 96], // NAT64 - could reach any IPv4 address
+  ['64:ff9b:1::', 48], // local-use NAT64
+  ['100::', 64], // discard
+  ['2001:db8::', 32], // documentation
+  ['2002::', 16], // 6to4
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address may be connected to. IPv4-mapped IPv6 addresses
+ * (::ffff:127.0.0.1) are checked against the IPv4 ranges.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Parse a URL and check scheme, port and (for IP literals) the address.
+ * @throws SafeFetchError `invalid_url` / `blocked_scheme` / `blocked_port` / `blocked_address`
+ */
+export function assertFetchableUrl(rawUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new SafeFetchError(`Invalid URL: ${rawUrl}`, 'invalid_url');
+  }
+
+  if (!ALLOWED_PROTOCOLS.has(url.protocol)) {
+    throw new SafeFetchError(`Scheme not allowed: ${url.protocol}`, 'blocked_scheme');
+  }
+  if (!ALLOWED_PORTS.has(url.port)) {
+    throw new SafeFetchError(`Port not allowed: ${url.port}`, 'blocked_port');
+  }
+  if (url.username || url.password) {
+    throw new SafeFetchError('Credentials in URLs are not allowed', 'invalid_url');
+  }
+
+  // Node connects to IP literals directly, without calling `lookup`
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    throw new SafeFetchError(`Address not allowed: ${host}`, 'blocked_address');
+  }
+  return url;
+}
+
+// Resolve all addresses and refuse the host if any of them is internal
+function checkedLookup(lookup: typeof dns.lookup): net.LookupFunction {
+  return (hostname, options, callback) => {
+    lookup(hostname, { all: true, family: options.family ?? 0 }, (error, addresses) => {
+      if (error) {
+        callback(new SafeFetchError(`DNS lookup failed for ${hostname}: ${error.code ?? error.message}`, 'dns_failed'), '', 0);
+        return;
+      }
+      const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+      if (blocked || addresses.length === 0) {
+        callback(new SafeFetchError(`Address not allowed: ${hostname} -> ${blocked?.address ?? 'none'}`, 'blocked_address'), '', 0);
+        return;
+      }
+      if (options.all) {
+        (callback as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+function decodedStream(response: http.IncomingMessage): Readable {
+  switch ((response.headers['content-encoding'] ?? '').trim().toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return response.pipe(zlib.createGunzip());
+    case 'deflate':
+      return response.pipe(zlib.createInflate());
+    case 'br':
+      return response.pipe(zlib.createBrotliDecompress());
+    default:
+      return response;
+  }
+}
+
+function decodeBody(buffer: Buffer, contentType: string | null): string {
+  const charset = contentType?.match(/charset\s*=\s*"?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(buffer);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+}
+
+function networkError(error: unknown, url: URL): SafeFetchError {
+  if (error instanceof SafeFetchError) return error;
+  const code = (error as NodeJS.ErrnoException)?.code;
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') {
+    return new SafeFetchError(`DNS lookup failed for ${url.hostname}`, 'dns_failed');
+  }
+  return new SafeFetchError(
+    `Request to ${url.origin} failed: ${error instanceof Error ? error.message : String(error)}`,
+    'unreachable'
+  );
+}
+
+/**
+ * Fetch a user-supplied URL with the checks described above
+ * @throws SafeFetchError
+ */
+export async function safeFetch(rawUrl: string, options: SafeFetchOptions = {}): Promise<SafeFetchResponse> {
+  const {
+    method = 'GET',
+    headers = {},
+    timeoutMs = DEFAULT_FETCH_TIMEOUT_MS,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+    maxBytes = DEFAULT_MAX_RESPONSE_BYTES,
+    truncate = false,
+    accept,
+    lookup = dns.lookup,
+  } = options;
+
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new SafeFetchError(`Request to ${rawUrl} timed out after ${timeoutMs}ms`, 'timeout')),
+    timeoutMs
+  );
+  const timeoutError = () => controller.signal.reason as SafeFetchError;
+
+  const send = (url: URL) =>
+    new Promise<http.IncomingMessage>((resolve, reject) => {
+      const transport = url.protocol === 'https:' ? https : http;
+      const request = transport.request(url, {
+        method,
+        headers: { 'Accept-Encoding': 'gzip, deflate, br', ...headers },
+        lookup: checkedLookup(lookup),
+        signal: controller.signal,
+      });
+      request.on('response', resolve);
+      request.on('error', (error) => reject(controller.signal.aborted ? timeoutError() : networkError(error, url)));
+      request.end();
+    });
+
+  try {
+    let url = assertFetchableUrl(rawUrl);
+
+    for (let redirects = 0; ; redirects++) {
+      const response = await send(url);
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+
+      if (REDIRECT_STATUSES.has(status) && location) {
+        response.resume();
+        if (redirects >= maxRedirects) {
+          throw new SafeFetchError(`More than ${maxRedirects} redirects`, 'too_many_redirects');
+        }
+        url = assertFetchableUrl(new URL(location, url).toString());
+        continue;
+      }
+
+      const contentType = response.headers['content-type'] ?? null;
+      if (method === 'HEAD' || (accept && !(contentType && accept.test(contentType)))) {
+        response.destroy();
+        return { url: url.toString(), status, contentType, body: '', truncated: false };
+      }
+
+      const declaredLength = Number(response.headers['content-length']);
+      if (!truncate && declaredLength > maxBytes) {
+        response.destroy();
+        throw new SafeFetchError(`Response exceeds ${maxBytes} bytes`, 'too_large');
+      }
+
+      const chunks: Buffer[] = [];
+      let bytes = 0;
+      let truncated = false;
+      const stream = decodedStream(response);
+      try {
+        for await (const chunk of stream) {
+          chunks.push(chunk as Buffer);
+          bytes += (chunk as Buffer).byteLength;
+          if (bytes > maxBytes) {
+            if (!truncate) throw new SafeFetchError(`Response exceeds ${maxBytes} bytes`, 'too_large');
+            truncated = true;
+            break;
+          }
+        }
+      } catch (error) {
+        throw controller.signal.aborted ? timeoutError() : networkError(error, url);
+      } finally {
+        response.destroy();
+      }
+
+      return {
+        url: url.toString(),
+        status,
+        contentType,
+        body: decodeBody(Buffer.concat(chunks).subarray(0, maxBytes), contentType),
+        truncated,
+      };
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Minimal Runtime Schemas
+ *
+ * A small validator toolkit for checking request/response payloads against
+ * the interfaces in types/onboarding.ts.
+ *
+ * `s.object<T>()` takes the interface as a type argument and requires a
+ * schema for every key of it, with matching value types - so when an
+ * interface changes, the schema stops compiling until it's updated.
+ *
+ * Errors are collected per field (`path` is dotted, e.g.
+ * `competitors.urls_valid[2]`) so the UI can show them next to the input.
+ */
+
+import type { FieldError } from '@/types/onboarding';
+
+export type { FieldError };
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldError[] };
+
+export interface Schema<T> {
+  /**
+   * Validate `value`, appending problems to `errors`.
+   * Returns the (possibly cleaned) value - only meaningful when no errors were added.
+   */
+  check(value: unknown, path: string, errors: FieldError[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+interface StringOptions {
+  min?: number;
+  max?: number;
+  /** Message used when the string is shorter than `min` */
+  requiredMessage?: string;
+}
+
+interface ArrayOptions {
+  max?: number;
+}
+
+const MESSAGES = {
+  string: 'ערך טקסט לא תקין',
+  number: 'ערך מספרי לא תקין',
+  boolean: 'ערך לא תקין',
+  array: 'רשימה לא תקינה',
+  object: 'מבנה לא תקין',
+  required: 'שדה חובה',
+  oneOf: (options: readonly unknown[]) => `ערך לא מוכר (אפשרויות: ${options.join(', ')})`,
+  tooLong: (max: number) => `ארוך מדי (עד ${max} תווים)`,
+  tooMany: (max: number) => `יותר מדי ערכים (עד ${max})`,
+};
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const s = {
+  string({ min = 0, max, requiredMessage }: StringOptions = {}): Schema<string> {
+    return {
+      check(value, path, errors) {
+        if (typeof value !== 'string') {
+          errors.push({ path, message: value === undefined ? MESSAGES.required : MESSAGES.string });
+          return '';
+        }
+        if (value.trim().length < min) {
+          errors.push({ path, message: requiredMessage ?? MESSAGES.required });
+        } else if (max !== undefined && value.length > max) {
+          errors.push({ path, message: MESSAGES.tooLong(max) });
+        }
+        return value;
+      },
+    };
+  },
+
+  number(): Schema<number> {
+    return {
+      check(value, path, errors) {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          errors.push({ path, message: MESSAGES.number });
+          return 0;
+        }
+        return value;
+      },
+    };
+  },
+
+  boolean(): Schema<boolean> {
+    return {
+      check(value, path, errors) {
+        if (typeof value !== 'boolean') {
+          errors.push({ path, message: MESSAGES.boolean });
+          return false;
+        }
+        return value;
+      },
+    };
+  },
+
+  oneOf<const T extends readonly (string | number | boolean)[]>(options: T): Schema<T[number]> {
+    return {
+      check(value, path, errors) {
+        if (!options.includes(value as T[number])) {
+          errors.push({ path, message: MESSAGES.oneOf(options) });
+        }
+        return value as T[number];
+      },
+    };
+  },
+
+  array<T>(item: Schema<T>, { max }: ArrayOptions = {}): Schema<T[]> {
+    return {
+      check(value, path, errors) {
+        if (!Array.isArray(value)) {
+          errors.push({ path, message: MESSAGES.array });
+          return [];
+        }
+        if (max !== undefined && value.length > max) {
+          errors.push({ path, message: MESSAGES.tooMany(max) });
+        }
+        return value.map((entry, index) => item.check(entry, joinPath(path, index), errors));
+      },
+    };
+  },
+
+  /**
+   * Object schema bound to an interface. Unknown keys are dropped.
+   */
+  object<T>(shape: Shape<T>): Schema<T> {
+    return {
+      check(value, path, errors) {
+        if (!isPlainObject(value)) {
+          errors.push({ path, message: MESSAGES.object });
+          return {} as T;
+        }
+        const result = {} as Record<string, unknown>;
+        for (const key of Object.keys(shape) as Array<keyof T & string>) {
+          const checked = (shape[key] as Schema<unknown>).check(value[key], joinPath(path, key), errors);
+          if (checked !== undefined) {
+            result[key] = checked;
+          }
+        }
+        return result as T;
+      },
+    };
+  },
+
+  /**
+   * Like `object`, but every key may be left out - for PATCH bodies
+   */
+  partial<T>(shape: Shape<T>): Schema<Partial<T>> {
+    const optionalShape = Object.fromEntries(
+      Object.entries(shape).map(([key, schema]) => [key, s.optional(schema as Schema<unknown>)])
+    );
+    return s.object<Partial<T>>(optionalShape as Shape<Partial<T>>);
+  },
+
+  /**
+   * String-keyed map with uniform values
+   */
+  record<T>(valueSchema: Schema<T>): Schema<Record<string, T>> {
+    return {
+      check(value, path, errors) {
+        if (!isPlainObject(value)) {
+          errors.push({ path, message: MESSAGES.object });
+          return {};
+        }
+        return Object.fromEntries(
+          Object.entries(value).map(([key, entry]) => [key, valueSchema.check(entry, joinPath(path, key), errors)])
+        );
+      },
+    };
+  },
+
+  /**
+   * Either of two shapes - the first that validates wins.
+   * Reports the errors of the second when neither does.
+   */
+  union<A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> {
+    return {
+      check(value, path, errors) {
+        const firstErrors: FieldError[] = [];
+        const result = first.check(value, path, firstErrors);
+        return firstErrors.length === 0 ? result : second.check(value, path, errors);
+      },
+    };
+  },
+
+  optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return {
+      check(value, path, errors) {
+        return value === undefined ? undefined : schema.check(value, path, errors);
+      },
+    };
+  },
+
+  nullable<T>(schema: Schema<T>): Schema<T | null> {
+    return {
+      check(value, path, errors) {
+        return value === null ? null : schema.check(value, path, errors);
+      },
+    };
+  },
+
+  /**
+   * Accept anything - for opaque pass-through fields
+   */
+  unknown(): Schema<unknown> {
+    return {
+      check(value) {
+        return value;
+      },
+    };
+  },
+};
+
+/**
+ * Validate a value, collecting every field error
+ */
+export function parseWithSchema<T>(schema: Schema<T>, value: unknown): ParseResult<T> {
+  const errors: FieldError[] = [];
+  const data = schema.check(value, '', errors);
+  return errors.length > 0 ? { success: false, errors } : { success: true, data };
+}
+
+/**
+ * Group field errors by their top-level field (`products_services[1]` -> `products_services`),
+ * keeping the first message per field
+ */
+export function fieldErrorsByField(errors: FieldError[]): Record<string, string> {
+  const byField: Record<string, string> = {};
+  for (const { path, message } of errors) {
+    const field = path.split(/[.[]/)[0] || '_root';
+    byField[field] ??= message;
+  }
+  return byField;
+}
@@ -0,0 +1,129 @@
+/**
+ * Server-Sent Events
+ *
+ * Both ends of the chat routes' streaming mode. A client asks for it with
+ * `Accept: text/event-stream`; the route then answers with `delta` events
+ * (`{ text }`, pieces of the assistant's message as they are produced) and
+ * one final `done` event carrying the same JSON the non-streaming mode
+ * returns - or an `error` event (`{ error, code? }`) if the reply fails
+ * midway.
+ *
+ * `readSseEvents` parses any event stream, including an upstream LLM's.
+ * Client-safe - only web streams.
+ */
+
+export const SSE_CONTENT_TYPE = 'text/event-stream';
+
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+export type SseSend = (event: string, data: unknown) => void;
+
+export function wantsEventStream(request: Request): boolean {
+  return (request.headers.get('accept') || '').includes(SSE_CONTENT_TYPE);
+}
+
+/**
+ * Split text into word-sized deltas (whitespace stays attached), for replies
+ * that exist in full before they are streamed
+ */
+export function splitTextDeltas(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+/**
+ * Stream the events `run` sends. `signal` fires when the client goes away,
+ * so `run` can stop producing; anything `run` throws becomes an `error` event.
+ */
+export function createSseResponse(
+  run: (send: SseSend, signal: AbortSignal) => Promise<void>,
+  requestSignal?: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+  if (requestSignal?.aborted) controller.abort();
+  else requestSignal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send: SseSend = (event, data) => {
+        if (controller.signal.aborted) return;
+        streamController.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await run(send, controller.signal);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('[sse] Stream failed:', error);
+          const code = error instanceof Error && 'code' in error ? String(error.code) : undefined;
+          send('error', { error: error instanceof Error ? error.message : 'Stream failed', code });
+        }
+      } finally {
+        if (!controller.signal.aborted) streamController.close();
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': `${SSE_CONTENT_TYPE}; charset=utf-8`,
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Parse an event stream into events (`event` defaults to "message";
+ * multi-line data is joined with newlines)
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // A trailing \r may be half of a \r\n split across chunks - don't break on it yet
+      const lines = buffer.split(done ? /\r\n|\r|\n/ : /\r\n|\n|\r(?!$)/);
+      // The last piece may be an incomplete line - keep it for the next chunk
+      buffer = done ? '' : (lines.pop() ?? '');
+
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) yield { event, data: data.join('\n') };
+          event = 'message';
+          data = [];
+        } else if (!line.startsWith(':')) {
+          const colon = line.indexOf(':');
+          const field = colon === -1 ? line : line.slice(0, colon);
+          const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+          if (field === 'event') event = value;
+          else if (field === 'data') data.push(value);
+        }
+      }
+
+      if (done) {
+        finished = true;
+        if (data.length > 0) yield { event, data: data.join('\n') };
+        return;
+      }
+    }
+  } finally {
+    // Stopped early (the consumer broke out or threw) - don't leave the body open
+    if (!finished) await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
@@ -43,6 +43,8 @@ export function extractFromCodeBlock(text: string): string {
  * - Non-breaking spaces: \u00A0
  * - Control characters: \x00-\x1F, \x7F
  * - Backslashes (can cause escaping issues)
+ *
+ * Object properties that are `undefined` are left out.
  */
 export function sanitizeForToon(obj: unknown): unknown {
   if (typeof obj === 'string') {
@@ -61,6 +63,8 @@ export function sanitizeForToon(obj: unknown): unknown {
   if (obj && typeof obj === 'object') {
     const result: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(obj)) {
+      // Dropped like JSON.stringify does - TOON would encode undefined as null
+      if (value === undefined) continue;
       result[key] = sanitizeForToon(value);
     }
     return result;
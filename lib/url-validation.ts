@@ -0,0 +1,203 @@
+/**
+ * Competitor URL Validation
+ *
+ * Checks the competitor URLs entered in CompetitorUrls.tsx:
+ * - normalizes each entry (missing scheme added, tracking params and hash
+ *   stripped, host lowercased)
+ * - rejects malformed entries, duplicates and the client's own site
+ * - requests every remaining URL through lib/safe-fetch.ts (redirects
+ *   followed, internal addresses refused) and reports the final URL, HTTP
+ *   status and page title
+ *
+ * The network layer is injected through `UrlProbe`, so validation can run
+ * offline against an in-memory fake.
+ */
+
+import {
+  urlValidationErrorMessages,
+  type UrlValidationErrorCode,
+  type UrlValidationResult,
+} from '@/types/onboarding';
+import { extractPageTitle } from './website-scanner';
+import { safeFetch, SafeFetchError } from './safe-fetch';
+
+/**
+ * Response of a single URL check
+ */
+export interface ProbeResponse {
+  /** Final URL after redirects */
+  url: string;
+  status: number;
+  contentType: string | null;
+  /** Start of the body (enough to find the <title>), '' when not HTML */
+  body: string;
+}
+
+/**
+ * Pluggable network layer used by `validateCompetitorUrls`
+ */
+export type UrlProbe = (url: string) => Promise<ProbeResponse>;
+
+export interface ValidateCompetitorUrlsOptions {
+  /** The client's own website - never accepted as a competitor */
+  siteUrl?: string | null;
+  probe?: UrlProbe;
+}
+
+export interface CompetitorUrlsValidation {
+  results: UrlValidationResult[];
+  summary: {
+    /** Normalized URLs of the valid entries */
+    valid: string[];
+    invalid: { url: string; error?: string }[];
+  };
+}
+
+const PROBE_TIMEOUT_MS = 8_000;
+// The <title> sits in the head - no need to download whole pages
+const MAX_PROBE_BODY_BYTES = 64 * 1024;
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; OnboardingScanner/1.0)';
+
+const TRACKING_PARAMS = /^(utm_\w+|gclid|gbraid|wbraid|fbclid|msclkid|dclid|yclid|mc_cid|mc_eid|_ga|_gl|igshid|ref|ref_src)$/i;
+
+/**
+ * Default probe - GET through lib/safe-fetch.ts, reading only the start of HTML bodies
+ */
+export const defaultUrlProbe: UrlProbe = async (url) => {
+  const response = await safeFetch(url, {
+    headers: {
+      'User-Agent': USER_AGENT,
+      Accept: 'text/html,application/xhtml+xml',
+    },
+    timeoutMs: PROBE_TIMEOUT_MS,
+    maxBytes: MAX_PROBE_BODY_BYTES,
+    truncate: true,
+    accept: /html/i,
+  });
+
+  return {
+    url: response.url,
+    status: response.status,
+    contentType: response.contentType,
+    body: response.body,
+  };
+};
+
+/**
+ * Normalize a competitor URL, or null when it isn't a usable http(s) URL.
+ * "Example.com/?utm_source=x#top" -> "https://example.com/"
+ */
+export function normalizeCompetitorUrl(rawUrl: string): string | null {
+  const trimmed = rawUrl.trim();
+  if (!trimmed) return null;
+
+  const withScheme = /^[a-z][a-z\d+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(withScheme);
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+  // "localhost" or "competitor" alone is a typo, not a website
+  if (!parsed.hostname.includes('.') || parsed.username || parsed.password) return null;
+
+  // URL already lowercases the host; drop what doesn't identify the page
+  parsed.hash = '';
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+  }
+  return parsed.toString();
+}
+
+/**
+ * Key under which two URLs count as the same site entry
+ * (ignores scheme, www. and a trailing slash)
+ */
+function entryKey(url: string): string {
+  const parsed = new URL(url);
+  const path = parsed.pathname.replace(/\/+$/, '');
+  return `${parsed.hostname.replace(/^www\./, '')}${path}${parsed.search}`;
+}
+
+function hostKey(url: string): string {
+  return new URL(url).hostname.replace(/^www\./, '');
+}
+
+// Blocked addresses, DNS failures etc. keep their safe-fetch code
+function probeErrorCode(error: unknown): UrlValidationErrorCode {
+  if (error instanceof SafeFetchError) return error.code;
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) return 'timeout';
+  return 'unreachable';
+}
+
+function invalid(url: string, code: UrlValidationErrorCode, error = urlValidationErrorMessages[code]): UrlValidationResult {
+  return { url, valid: false, code, error };
+}
+
+async function checkUrl(url: string, normalizedUrl: string, probe: UrlProbe): Promise<UrlValidationResult> {
+  let response: ProbeResponse;
+  try {
+    response = await probe(normalizedUrl);
+  } catch (error) {
+    return {
+      ...invalid(url, probeErrorCode(error)),
+      normalized_url: normalizedUrl,
+    };
+  }
+
+  const details = {
+    normalized_url: normalizedUrl,
+    final_url: response.url,
+    status: response.status,
+    ...(response.body && { title: extractPageTitle(response.body) || undefined }),
+  };
+
+  if (response.status < 200 || response.status >= 400) {
+    return { ...invalid(url, 'http_error', `${urlValidationErrorMessages.http_error} (HTTP ${response.status})`), ...details };
+  }
+  return { url, valid: true, ...details };
+}
+
+/**
+ * Validate the entered competitor URLs. Results follow the input order and
+ * keep the URL as entered, so the form can match them to its fields.
+ */
+export async function validateCompetitorUrls(
+  urls: string[],
+  { siteUrl, probe = defaultUrlProbe }: ValidateCompetitorUrlsOptions = {}
+): Promise<CompetitorUrlsValidation> {
+  const ownSiteUrl = siteUrl ? normalizeCompetitorUrl(siteUrl) : null;
+  const ownHost = ownSiteUrl ? hostKey(ownSiteUrl) : null;
+  const seen = new Set<string>();
+
+  const results = await Promise.all(
+    urls.map((url) => {
+      const normalizedUrl = normalizeCompetitorUrl(url);
+      if (!normalizedUrl) return invalid(url, 'invalid_url');
+
+      if (ownHost && hostKey(normalizedUrl) === ownHost) {
+        return { ...invalid(url, 'own_site'), normalized_url: normalizedUrl };
+      }
+
+      const key = entryKey(normalizedUrl);
+      if (seen.has(key)) {
+        return { ...invalid(url, 'duplicate'), normalized_url: normalizedUrl };
+      }
+      seen.add(key);
+
+      return checkUrl(url, normalizedUrl, probe);
+    })
+  );
+
+  return {
+    results,
+    summary: {
+      valid: results.filter((r) => r.valid).map((r) => r.normalized_url ?? r.url),
+      invalid: results.filter((r) => !r.valid).map((r) => ({ url: r.url, error: r.error })),
+    },
+  };
+}
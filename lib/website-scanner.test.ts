@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  crawlWebsite,
+  normalizeScanUrl,
+  scanWebsite,
+  WebsiteScanError,
+  type FetchedPage,
+  type PageFetcher,
+} from './website-scanner';
+
+type FakePage = string | (Partial<FetchedPage> & { body: string });
+
+// In-memory network: each URL answers with its entry (a string is a 200 HTML page); unknown URLs are a 404.
+// Like the default fetcher, a body over `maxBytes` fails instead of being returned.
+function fakeFetcher(site: Record<string, FakePage>): PageFetcher & { calls: Array<{ url: string; maxBytes?: number }> } {
+  const calls: Array<{ url: string; maxBytes?: number }> = [];
+  const fetcher: PageFetcher = async (url, { maxBytes } = {}) => {
+    calls.push({ url, maxBytes });
+    const entry = site[url];
+    if (entry === undefined) return { url, status: 404, contentType: 'text/html', body: '' };
+
+    const page = typeof entry === 'string' ? { body: entry } : entry;
+    if (maxBytes !== undefined && new TextEncoder().encode(page.body).length > maxBytes) {
+      throw new Error(`Response exceeds ${maxBytes} bytes`);
+    }
+    return { url, status: 200, contentType: 'text/html', ...page };
+  };
+  return Object.assign(fetcher, { calls });
+}
+
+function html(title: string, { links = [] as string[], services = [] as string[] } = {}): string {
+  return `<html><head><title>${title}</title></head><body>
+    <nav>${links.map((href) => `<a href="${href}">${href}</a>`).join('')}</nav>
+    <h2>Services</h2><ul>${services.map((service) => `<li>${service}</li>`).join('')}</ul>
+  </body></html>`;
+}
+
+function sitemap(urls: string[]): string {
+  return `<urlset>${urls.map((url) => `<url><loc>${url}</loc></url>`).join('')}</urlset>`;
+}
+
+const bytes = (text: string) => new TextEncoder().encode(text).length;
+
+describe('normalizeScanUrl', () => {
+  it('adds a missing scheme', () => {
+    expect(normalizeScanUrl(' example.com/about ')).toBe('https://example.com/about');
+  });
+
+  it.each(['', 'ftp://example.com', 'https://'])('rejects %j', (url) => {
+    expect(() => normalizeScanUrl(url)).toThrow(expect.objectContaining({ code: 'invalid_url' }));
+  });
+});
+
+describe('scanWebsite', () => {
+  it('parses the page the fetcher ended on', async () => {
+    const fetcher = fakeFetcher({
+      'https://acme.co.il/': { url: 'https://www.acme.co.il/he', body: html('Shop - Best prices', { services: ['Repairs'] }) },
+    });
+
+    const data = await scanWebsite('acme.co.il', { fetcher });
+
+    expect(data.url).toBe('https://www.acme.co.il/he');
+    expect(data.branding).toMatchObject({ company_name: 'Shop', tagline: 'Best prices' });
+    expect(data.services_extracted).toEqual(['Repairs']);
+  });
+
+  it.each([
+    [{ status: 500, body: '' }, 'fetch_failed'],
+    [{ contentType: 'application/pdf', body: '%PDF' }, 'not_html'],
+  ])('fails on %j with %s', async (page, code) => {
+    const fetcher = fakeFetcher({ 'https://acme.co.il/': page });
+
+    const error = await scanWebsite('acme.co.il', { fetcher }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(WebsiteScanError);
+    expect(error).toMatchObject({ code });
+  });
+});
+
+describe('crawlWebsite', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('follows menu links, then the sitemap, and records where each fact came from', async () => {
+    const fetcher = fakeFetcher({
+      'https://acme.co.il/': html('Shop', { links: ['/about'], services: ['Repairs'] }),
+      'https://acme.co.il/sitemap.xml': sitemap(['https://acme.co.il/blog', 'https://acme.co.il/services']),
+      'https://acme.co.il/about': html('About'),
+      'https://acme.co.il/services': html('Services', { services: ['Installs', 'Repairs'] }),
+      'https://acme.co.il/blog': html('Blog'),
+    });
+
+    const data = await crawlWebsite('acme.co.il', { fetcher });
+
+    // Sitemap paths that sound like what the business sells come first
+    expect(data.pages?.map((page) => page.url)).toEqual([
+      'https://acme.co.il/',
+      'https://acme.co.il/about',
+      'https://acme.co.il/services',
+      'https://acme.co.il/blog',
+    ]);
+    expect(data.services_extracted).toEqual(['Repairs', 'Installs']);
+    expect(data.facts).toContainEqual({
+      field: 'services_extracted',
+      value: 'Installs',
+      source_url: 'https://acme.co.il/services',
+    });
+  });
+
+  it('never fetches off-site links or non-HTML files', async () => {
+    const fetcher = fakeFetcher({
+      'https://acme.co.il/': html('Shop', {
+        links: ['https://other.com/', 'https://www.acme.co.il/contact', '/brochure.pdf', 'mailto:a@acme.co.il'],
+      }),
+      'https://www.acme.co.il/contact': html('Contact'),
+    });
+
+    await crawlWebsite('acme.co.il', { fetcher });
+
+    expect(fetcher.calls.map((call) => call.url)).toEqual([
+      'https://acme.co.il/',
+      'https://acme.co.il/sitemap.xml',
+      'https://www.acme.co.il/contact',
+    ]);
+  });
+
+  it('skips an inner page that redirects off-site', async () => {
+    const fetcher = fakeFetcher({
+      'https://acme.co.il/': html('Shop', { links: ['/promo', '/about'] }),
+      'https://acme.co.il/promo': { url: 'https://ads.example.com/landing', body: html('Ads', { services: ['Spam'] }) },
+      'https://acme.co.il/about': html('About'),
+    });
+
+    const data = await crawlWebsite('acme.co.il', { fetcher });
+
+    expect(data.pages?.map((page) => page.url)).toEqual(['https://acme.co.il/', 'https://acme.co.il/about']);
+    expect(data.services_extracted).not.toContain('Spam');
+  });
+
+  it('skips inner pages that fail to load', async () => {
+    const fetcher = fakeFetcher({
+      'https://acme.co.il/': html('Shop', { links: ['/gone', '/about'] }),
+      'https://acme.co.il/about': html('About'),
+    });
+
+    const data = await crawlWebsite('acme.co.il', { fetcher });
+
+    expect(data.pages?.map((page) => page.url)).toEqual(['https://acme.co.il/', 'https://acme.co.il/about']);
+  });
+
+  it('stops at maxPages', async () => {
+    const fetcher = fakeFetcher({
+      'https://acme.co.il/': html('Shop', { links: ['/a', '/b', '/c'] }),
+      'https://acme.co.il/a': html('A'),
+      'https://acme.co.il/b': html('B'),
+      'https://acme.co.il/c': html('C'),
+    });
+
+    const data = await crawlWebsite('acme.co.il', { fetcher, maxPages: 2 });
+
+    expect(data.pages?.map((page) => page.url)).toEqual(['https://acme.co.il/', 'https://acme.co.il/a']);
+    expect(fetcher.calls.map((call) => call.url)).not.toContain('https://acme.co.il/b');
+  });
+
+  it('only scans the homepage when maxPages is 1', async () => {
+    const fetcher = fakeFetcher({ 'https://acme.co.il/': html('Shop', { links: ['/a'] }) });
+
+    await crawlWebsite('acme.co.il', { fetcher, maxPages: 1 });
+
+    expect(fetcher.calls.map((call) => call.url)).toEqual(['https://acme.co.il/']);
+  });
+
+  it('passes each fetch the byte budget left and skips pages that do not fit', async () => {
+    const home = html('Shop', { links: ['/big', '/small'] });
+    const small = html('Small');
+    const maxBytes = bytes(home) + bytes(small) + 100;
+    const fetcher = fakeFetcher({
+      'https://acme.co.il/': home,
+      'https://acme.co.il/big': html('Big', { services: ['x'.repeat(500)] }),
+      'https://acme.co.il/small': small,
+    });
+
+    const data = await crawlWebsite('acme.co.il', { fetcher, maxBytes });
+
+    const left = maxBytes - bytes(home);
+    expect(fetcher.calls).toEqual([
+      { url: 'https://acme.co.il/', maxBytes },
+      { url: 'https://acme.co.il/sitemap.xml', maxBytes: left },
+      { url: 'https://acme.co.il/big', maxBytes: left },
+      { url: 'https://acme.co.il/small', maxBytes: left },
+    ]);
+    expect(data.pages?.map((page) => page.url)).toEqual(['https://acme.co.il/', 'https://acme.co.il/small']);
+    expect(data.pages?.reduce((total, page) => total + page.bytes, 0)).toBeLessThanOrEqual(maxBytes);
+  });
+
+  it('stops fetching once the byte budget is spent', async () => {
+    const home = html('Shop', { links: ['/a', '/b'] });
+    const fetcher = fakeFetcher({
+      'https://acme.co.il/': home,
+      'https://acme.co.il/a': html('A'),
+      'https://acme.co.il/b': html('B'),
+    });
+
+    const data = await crawlWebsite('acme.co.il', { fetcher, maxBytes: bytes(home) });
+
+    expect(fetcher.calls.map((call) => call.url)).toEqual(['https://acme.co.il/']);
+    expect(data.pages).toHaveLength(1);
+  });
+
+  it('fails when the homepage cannot be scanned', async () => {
+    const fetcher = fakeFetcher({});
+
+    await expect(crawlWebsite('acme.co.il', { fetcher })).rejects.toMatchObject({ code: 'fetch_failed' });
+  });
+});
@@ -0,0 +1,729 @@
+/**
+ * Website Scanner
+ *
+ * Fetches a page and extracts the branding/content shape that
+ * WebsiteScan.tsx reads (company name, tagline, logo, colors, fonts,
+ * services, navigation, raw title/content).
+ *
+ * Parsing is regex based on purpose - we only need a handful of well-known
+ * tags and attributes, and pulling in a DOM implementation on the server
+ * isn't worth it for that.
+ *
+ * `crawlWebsite` follows same-origin links from the navigation menu and the
+ * sitemap (within a page/byte budget) and merges every page into one result,
+ * keeping track of which page each fact came from.
+ *
+ * The network layer is injected through `PageFetcher`, so the scanner can be
+ * pointed at a local fixture server (or a pure in-memory fake) in tests. The
+ * default fetcher goes through lib/safe-fetch.ts, so a failed page fetch may
+ * surface as a `SafeFetchError` rather than a `WebsiteScanError`.
+ */
+
+import type { ScanFact, ScannedPage, ScannedWebsiteData } from '@/types/onboarding';
+import { safeFetch, SafeFetchError } from './safe-fetch';
+
+/**
+ * A fetched HTML document
+ */
+export interface FetchedPage {
+  /** Final URL after redirects */
+  url: string;
+  status: number;
+  contentType: string | null;
+  body: string;
+}
+
+export interface PageFetchOptions {
+  /** Fail rather than download a body larger than this */
+  maxBytes?: number;
+}
+
+/**
+ * Pluggable network layer used by the scanner
+ */
+export type PageFetcher = (url: string, options?: PageFetchOptions) => Promise<FetchedPage>;
+
+export type WebsiteScanErrorCode = 'invalid_url' | 'fetch_failed' | 'not_html';
+
+/**
+ * Error thrown when a website can't be scanned.
+ * `code` lets the route pick an HTTP status without parsing messages.
+ */
+export class WebsiteScanError extends Error {
+  constructor(message: string, public readonly code: WebsiteScanErrorCode) {
+    super(message);
+    this.name = 'WebsiteScanError';
+  }
+}
+
+export interface ScanWebsiteOptions {
+  fetcher?: PageFetcher;
+}
+
+export interface CrawlWebsiteOptions extends ScanWebsiteOptions {
+  /** Maximum number of HTML pages to fetch, including the homepage */
+  maxPages?: number;
+  /** Maximum total response size (bytes) across all fetched documents */
+  maxBytes?: number;
+}
+
+export const DEFAULT_MAX_PAGES = 6;
+export const DEFAULT_MAX_BYTES = 3_000_000;
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_PAGE_BYTES = 2_000_000;
+const MAX_RAW_CONTENT_LENGTH = 5_000;
+const MAX_LIST_ITEMS = 15;
+const MAX_COLORS = 5;
+const MAX_FONTS = 5;
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; OnboardingScanner/1.0)';
+
+/**
+ * Default fetcher - lib/safe-fetch.ts (internal addresses refused, size and time limits)
+ */
+export const defaultPageFetcher: PageFetcher = async (url, { maxBytes = MAX_PAGE_BYTES } = {}) => {
+  const response = await safeFetch(url, {
+    headers: {
+      'User-Agent': USER_AGENT,
+      Accept: 'text/html,application/xhtml+xml',
+    },
+    timeoutMs: FETCH_TIMEOUT_MS,
+    maxBytes: Math.min(maxBytes, MAX_PAGE_BYTES),
+  });
+
+  return {
+    url: response.url,
+    status: response.status,
+    contentType: response.contentType,
+    body: response.body,
+  };
+};
+
+/**
+ * Normalize user input into an absolute http(s) URL.
+ * Adds a missing scheme ("example.com" -> "https://example.com").
+ */
+export function normalizeScanUrl(rawUrl: string): string {
+  const trimmed = rawUrl.trim();
+  if (!trimmed) {
+    throw new WebsiteScanError('No URL provided', 'invalid_url');
+  }
+
+  const withScheme = /^[a-z][a-z\d+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(withScheme);
+  } catch {
+    throw new WebsiteScanError(`Invalid URL: ${trimmed}`, 'invalid_url');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new WebsiteScanError(`Unsupported URL scheme: ${parsed.protocol}`, 'invalid_url');
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Fetch a website and extract its branding and content
+ */
+export async function scanWebsite(
+  rawUrl: string,
+  { fetcher = defaultPageFetcher }: ScanWebsiteOptions = {}
+): Promise<ScannedWebsiteData> {
+  const url = normalizeScanUrl(rawUrl);
+  const page = await fetchHtmlPage(url, fetcher);
+  return parseWebsiteHtml(page.body, page.url);
+}
+
+/**
+ * Scan the homepage plus same-origin inner pages (menu links first, then the
+ * sitemap) and merge everything into a single result.
+ *
+ * Only the homepage is required - inner pages that fail to load, don't fit
+ * the remaining byte budget or redirect off-site are skipped.
+ */
+export async function crawlWebsite(
+  rawUrl: string,
+  {
+    fetcher = defaultPageFetcher,
+    maxPages = DEFAULT_MAX_PAGES,
+    maxBytes = DEFAULT_MAX_BYTES,
+  }: CrawlWebsiteOptions = {}
+): Promise<ScannedWebsiteData> {
+  const url = normalizeScanUrl(rawUrl);
+  const homePage = await fetchHtmlPage(url, fetcher, maxBytes);
+  const home = parseWebsiteHtml(homePage.body, homePage.url);
+
+  let bytesUsed = byteLength(homePage.body);
+  const visited = new Set([pageKey(url), pageKey(homePage.url)]);
+  const results: Array<{ data: ScannedWebsiteData; bytes: number }> = [{ data: home, bytes: bytesUsed }];
+
+  const candidates = home.navigation.links.map((link) => link.href);
+  if (maxPages > 1 && bytesUsed < maxBytes) {
+    const sitemap = await fetchSitemapUrls(homePage.url, fetcher, maxBytes - bytesUsed);
+    bytesUsed += sitemap.bytes;
+    candidates.push(...prioritizeSitemapUrls(sitemap.urls));
+  }
+
+  for (const candidate of candidates) {
+    if (results.length >= maxPages || bytesUsed >= maxBytes) break;
+    if (!isSameSite(candidate, homePage.url) || !looksLikeHtml(candidate)) continue;
+
+    const key = pageKey(candidate);
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    try {
+      // The fetcher stops downloading past the remaining budget
+      const page = await fetchHtmlPage(candidate, fetcher, maxBytes - bytesUsed);
+      const bytes = byteLength(page.body);
+      bytesUsed += bytes;
+      if (bytesUsed > maxBytes) break;
+      // A redirect may have left the site
+      if (!isSameSite(page.url, homePage.url)) {
+        console.warn(`[website-scanner] Skipping ${candidate}: redirected off-site to ${page.url}`);
+        continue;
+      }
+      visited.add(pageKey(page.url));
+      results.push({ data: parseWebsiteHtml(page.body, page.url), bytes });
+    } catch (error) {
+      console.warn(`[website-scanner] Skipping ${candidate}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return mergeScanResults(results);
+}
+
+async function fetchHtmlPage(url: string, fetcher: PageFetcher, maxBytes?: number): Promise<FetchedPage> {
+  let page: FetchedPage;
+  try {
+    page = await fetcher(url, { maxBytes });
+  } catch (error) {
+    // Refused or failed by safe-fetch - keep its code for the client
+    if (error instanceof SafeFetchError) throw error;
+    throw new WebsiteScanError(
+      `Failed to fetch ${url}: ${error instanceof Error ? error.message : String(error)}`,
+      'fetch_failed'
+    );
+  }
+
+  if (page.status < 200 || page.status >= 300) {
+    throw new WebsiteScanError(`Failed to fetch ${url}: HTTP ${page.status}`, 'fetch_failed');
+  }
+
+  if (page.contentType && !/html|xml/i.test(page.contentType)) {
+    throw new WebsiteScanError(`Not an HTML page: ${page.contentType}`, 'not_html');
+  }
+
+  return page;
+}
+
+/**
+ * Extract ScannedWebsiteData from an HTML document
+ *
+ * @param html - Raw HTML
+ * @param pageUrl - URL the HTML was served from (used to resolve relative links)
+ */
+export function parseWebsiteHtml(html: string, pageUrl: string): ScannedWebsiteData {
+  const head = matchFirst(html, /<head[^>]*>([\s\S]*?)<\/head>/i) ?? html;
+  const metas = findTags(head, 'meta');
+  const links = findTags(head, 'link');
+
+  const rawTitle = extractPageTitle(html);
+  const [titleName, titleTagline] = splitTitle(rawTitle);
+
+  const companyName =
+    getMeta(metas, 'og:site_name') ||
+    getMeta(metas, 'application-name') ||
+    titleName ||
+    hostnameOf(pageUrl);
+
+  const tagline =
+    getMeta(metas, 'description') ||
+    getMeta(metas, 'og:description') ||
+    titleTagline ||
+    '';
+
+  const logo = findLogo(html, metas, pageUrl);
+  const favicon = findFavicon(links, pageUrl);
+  const styles = collectStyles(html);
+
+  return {
+    branding: {
+      company_name: companyName,
+      tagline,
+      has_logo: logo !== null,
+    },
+    logo,
+    favicon,
+    colors: extractColors(styles, metas),
+    fonts: extractFonts(styles, links),
+    services_extracted: extractSection(html, SERVICE_KEYWORDS),
+    products_extracted: extractSection(html, PRODUCT_KEYWORDS),
+    navigation: extractNavigation(html, pageUrl),
+    url: pageUrl,
+    raw_title: rawTitle,
+    raw_content: extractVisibleText(html).slice(0, MAX_RAW_CONTENT_LENGTH),
+  };
+}
+
+/**
+ * Text of the page's <title>, or '' when there is none
+ */
+export function extractPageTitle(html: string): string {
+  return cleanText(matchFirst(html, /<title[^>]*>([\s\S]*?)<\/title>/i) ?? '');
+}
+
+// ============================================================================
+// HTML helpers
+// ============================================================================
+
+type Attributes = Record<string, string>;
+
+function matchFirst(text: string, pattern: RegExp): string | null {
+  const match = text.match(pattern);
+  return match ? match[1] : null;
+}
+
+function parseAttributes(tag: string): Attributes {
+  const attributes: Attributes = {};
+  const pattern = /([a-zA-Z_:][\w:.-]*)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  // Skip the tag name itself
+  const body = tag.replace(/^<\s*[\w-]+/, '').replace(/\/?>$/, '');
+  for (const match of body.matchAll(pattern)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+function findTags(html: string, tagName: string): Attributes[] {
+  const pattern = new RegExp(`<${tagName}\\b[^>]*>`, 'gi');
+  return Array.from(html.matchAll(pattern), (match) => parseAttributes(match[0]));
+}
+
+function getMeta(metas: Attributes[], key: string): string {
+  const meta = metas.find(
+    (m) => m.property?.toLowerCase() === key || m.name?.toLowerCase() === key
+  );
+  return cleanText(meta?.content ?? '');
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    ndash: '–',
+    mdash: '—',
+  };
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // Like browsers: NUL, surrogates and anything past U+10FFFF become U+FFFD (fromCodePoint would throw)
+      const valid = value > 0 && value <= 0x10ffff && !(value >= 0xd800 && value <= 0xdfff);
+      return valid ? String.fromCodePoint(value) : '�';
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, ' ');
+}
+
+function cleanText(html: string): string {
+  return decodeEntities(stripTags(html)).replace(/\s+/g, ' ').trim();
+}
+
+function resolveUrl(href: string | undefined, baseUrl: string): string | null {
+  if (!href || href.startsWith('data:') || href.startsWith('javascript:')) return null;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+function dedupe(items: string[], limit: number): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const item of items) {
+    const key = item.toLowerCase();
+    if (!item || seen.has(key)) continue;
+    seen.add(key);
+    result.push(item);
+    if (result.length >= limit) break;
+  }
+  return result;
+}
+
+// ============================================================================
+// Branding
+// ============================================================================
+
+/**
+ * Split "Company - Tagline" / "Company | Tagline" titles
+ */
+function splitTitle(title: string): [string, string] {
+  const parts = title.split(/\s+[|\-–—:]\s+/);
+  if (parts.length < 2) return [title, ''];
+  return [parts[0].trim(), parts.slice(1).join(' - ').trim()];
+}
+
+function findLogo(html: string, metas: Attributes[], pageUrl: string): string | null {
+  const images = findTags(html, 'img');
+  const logoImage = images.find((img) =>
+    ['class', 'id', 'alt', 'src'].some((attr) => /logo/i.test(img[attr] ?? ''))
+  );
+  const logoSrc = logoImage?.src || logoImage?.['data-src'];
+  if (logoSrc) {
+    return resolveUrl(logoSrc, pageUrl);
+  }
+
+  return resolveUrl(getMeta(metas, 'og:logo') || getMeta(metas, 'og:image') || undefined, pageUrl);
+}
+
+function findFavicon(links: Attributes[], pageUrl: string): string | null {
+  const icon =
+    links.find((l) => /(^|\s)icon(\s|$)/i.test(l.rel ?? '')) ??
+    links.find((l) => /icon/i.test(l.rel ?? ''));
+  return resolveUrl(icon?.href || '/favicon.ico', pageUrl);
+}
+
+// ============================================================================
+// Colors & fonts
+// ============================================================================
+
+function collectStyles(html: string): string {
+  const blocks = Array.from(html.matchAll(/<style[^>]*>([\s\S]*?)<\/style>/gi), (m) => m[1]);
+  const inline = Array.from(html.matchAll(/\sstyle\s*=\s*(?:"([^"]*)"|'([^']*)')/gi), (m) => m[1] ?? m[2]);
+  return decodeEntities([...blocks, ...inline].join('\n'));
+}
+
+function toHex(value: number): string {
+  return Math.max(0, Math.min(255, Math.round(value))).toString(16).padStart(2, '0');
+}
+
+function normalizeColor(raw: string): string | null {
+  const color = raw.trim().toLowerCase();
+
+  const hex = color.match(/^#([\da-f]{3}|[\da-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    return `#${digits.toUpperCase()}`;
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+  if (rgb) {
+    return `#${toHex(+rgb[1])}${toHex(+rgb[2])}${toHex(+rgb[3])}`.toUpperCase();
+  }
+
+  return null;
+}
+
+/**
+ * Greys, white and black show up on every site - they say nothing about the brand
+ */
+function isNeutral(hex: string): boolean {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return Math.max(r, g, b) - Math.min(r, g, b) < 24;
+}
+
+function extractColors(styles: string, metas: Attributes[]): string[] {
+  const counts = new Map<string, number>();
+  const pattern = /#[\da-f]{6}\b|#[\da-f]{3}\b|rgba?\([^)]*\)/gi;
+
+  for (const match of styles.matchAll(pattern)) {
+    const color = normalizeColor(match[0]);
+    if (color && !isNeutral(color)) {
+      counts.set(color, (counts.get(color) ?? 0) + 1);
+    }
+  }
+
+  const ranked = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([color]) => color);
+
+  // theme-color is an explicit brand signal - always rank it first
+  const themeColor = normalizeColor(getMeta(metas, 'theme-color'));
+  return dedupe(themeColor ? [themeColor, ...ranked] : ranked, MAX_COLORS);
+}
+
+const GENERIC_FONTS = new Set([
+  'serif',
+  'sans-serif',
+  'monospace',
+  'cursive',
+  'fantasy',
+  'system-ui',
+  'ui-sans-serif',
+  'ui-serif',
+  'ui-monospace',
+  '-apple-system',
+  'blinkmacsystemfont',
+  'inherit',
+  'initial',
+  'unset',
+  'emoji',
+  'math',
+]);
+
+function extractFonts(styles: string, links: Attributes[]): string[] {
+  const fonts: string[] = [];
+
+  // Google Fonts <link href="...css2?family=Heebo:wght@400&family=Assistant">
+  for (const link of links) {
+    const href = link.href ?? '';
+    if (!href.includes('fonts.googleapis.com')) continue;
+    for (const match of href.matchAll(/family=([^&:]+)/g)) {
+      fonts.push(...decodeURIComponent(match[1]).split('|').map((f) => f.replace(/\+/g, ' ').split(':')[0]));
+    }
+  }
+
+  for (const match of styles.matchAll(/font-family\s*:\s*([^;}"]+)/gi)) {
+    const families = match[1].split(',').map((f) => f.trim().replace(/^['"]|['"]$/g, ''));
+    fonts.push(...families.filter((f) => f && !GENERIC_FONTS.has(f.toLowerCase()) && !f.startsWith('var(')));
+  }
+
+  return dedupe(fonts.map((f) => f.trim()), MAX_FONTS);
+}
+
+// ============================================================================
+// Content
+// ============================================================================
+
+const SERVICE_KEYWORDS = /services?|שירות/i;
+const PRODUCT_KEYWORDS = /products?|shop|מוצר|חנות/i;
+
+/**
+ * Collect the h3/h4/li items that follow a top-level (h1/h2) heading
+ * matching `keywords`, until the next top-level heading.
+ */
+function extractSection(html: string, keywords: RegExp): string[] {
+  const body = removeNonContent(html);
+  const blocks = Array.from(body.matchAll(/<(h[1-6]|li)\b[^>]*>([\s\S]*?)<\/\1>/gi), (m) => ({
+    tag: m[1].toLowerCase(),
+    text: cleanText(m[2]),
+  }));
+
+  const items: string[] = [];
+  let inSection = false;
+
+  for (const block of blocks) {
+    if (block.tag === 'h1' || block.tag === 'h2') {
+      inSection = keywords.test(block.text);
+      continue;
+    }
+    if (inSection && block.text.length > 1 && block.text.length <= 80) {
+      items.push(block.text);
+    }
+  }
+
+  return dedupe(items, MAX_LIST_ITEMS);
+}
+
+function extractNavigation(html: string, pageUrl: string): ScannedWebsiteData['navigation'] {
+  const body = html.replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '');
+  const containers = Array.from(body.matchAll(/<nav\b[^>]*>([\s\S]*?)<\/nav>/gi), (m) => m[1]);
+  if (containers.length === 0) {
+    const header = matchFirst(body, /<header\b[^>]*>([\s\S]*?)<\/header>/i);
+    if (header) containers.push(header);
+  }
+
+  const anchors = containers.flatMap((container) =>
+    Array.from(container.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi), (m) => ({
+      text: cleanText(m[1]),
+      href: resolveUrl(parseAttributes(m[0].slice(0, m[0].indexOf('>') + 1)).href, pageUrl),
+    }))
+  );
+
+  const menuItems = anchors.map((a) => a.text).filter((text) => text.length > 0 && text.length <= 40);
+  const links = anchors
+    .filter((a): a is { text: string; href: string } => a.href !== null)
+    .filter((a, index, all) => all.findIndex((other) => other.href === a.href) === index)
+    .slice(0, MAX_LIST_ITEMS * 2);
+
+  return {
+    menu_items: dedupe(menuItems, MAX_LIST_ITEMS),
+    links,
+  };
+}
+
+function removeNonContent(html: string): string {
+  return html.replace(/<(script|style|noscript|svg|template)\b[\s\S]*?<\/\1>/gi, '').replace(/<!--[\s\S]*?-->/g, '');
+}
+
+function extractVisibleText(html: string): string {
+  const body = matchFirst(html, /<body[^>]*>([\s\S]*)<\/body>/i) ?? html;
+  return cleanText(removeNonContent(body));
+}
+
+// ============================================================================
+// Crawling
+// ============================================================================
+
+const NON_HTML_EXTENSIONS = /\.(pdf|jpe?g|png|gif|svg|webp|ico|css|js|json|xml|zip|mp4|mp3|docx?|xlsx?)$/i;
+
+/** Paths most likely to describe what the business sells - fetched first */
+const PRIORITY_PATHS = /servic|product|about|solution|shop|שירות|מוצר|אודות/i;
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Canonical form used to avoid fetching the same page twice
+ * (ignores hash, trailing slash and www.)
+ */
+function pageKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname.replace(/\/+$/, '') || '/';
+    return `${parsed.hostname.replace(/^www\./, '')}${path}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+function isSameSite(url: string, baseUrl: string): boolean {
+  try {
+    const a = new URL(url);
+    const b = new URL(baseUrl);
+    return (
+      (a.protocol === 'http:' || a.protocol === 'https:') &&
+      a.hostname.replace(/^www\./, '') === b.hostname.replace(/^www\./, '')
+    );
+  } catch {
+    return false;
+  }
+}
+
+function looksLikeHtml(url: string): boolean {
+  try {
+    return !NON_HTML_EXTENSIONS.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+function prioritizeSitemapUrls(urls: string[]): string[] {
+  const priority = urls.filter((url) => PRIORITY_PATHS.test(decodeURIComponentSafe(url)));
+  return [...priority, ...urls.filter((url) => !priority.includes(url))];
+}
+
+function decodeURIComponentSafe(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Read page URLs from /sitemap.xml (following one level of sitemap index).
+ * A missing or broken sitemap is not an error - it just yields no URLs.
+ */
+async function fetchSitemapUrls(
+  baseUrl: string,
+  fetcher: PageFetcher,
+  byteBudget: number
+): Promise<{ urls: string[]; bytes: number }> {
+  const urls: string[] = [];
+  let bytes = 0;
+  const queue = [new URL('/sitemap.xml', baseUrl).toString()];
+
+  for (let depth = 0; depth < 2 && queue.length > 0; depth++) {
+    const sitemapUrl = queue.shift()!;
+    try {
+      const response = await fetcher(sitemapUrl, { maxBytes: byteBudget - bytes });
+      if (response.status < 200 || response.status >= 300) continue;
+
+      bytes += byteLength(response.body);
+      if (bytes > byteBudget) break;
+
+      const locations = Array.from(response.body.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi), (m) =>
+        decodeEntities(m[1])
+      );
+      if (/<sitemapindex/i.test(response.body)) {
+        queue.push(...locations.filter((loc) => isSameSite(loc, baseUrl)));
+      } else {
+        urls.push(...locations);
+      }
+    } catch {
+      // No sitemap - rely on menu links only
+    }
+  }
+
+  return { urls, bytes };
+}
+
+/**
+ * Merge per-page results. Branding comes from the homepage (first result);
+ * list fields are unioned in crawl order and every value is recorded in
+ * `facts` with the page it was found on.
+ */
+function mergeScanResults(results: Array<{ data: ScannedWebsiteData; bytes: number }>): ScannedWebsiteData {
+  const [home] = results.map((r) => r.data);
+  const facts: ScanFact[] = [];
+  const seen = new Set<string>();
+
+  const record = (field: ScanFact['field'], value: string | null, page: string) => {
+    const key = `${field}:${value?.toLowerCase()}`;
+    if (!value || seen.has(key)) return;
+    seen.add(key);
+    facts.push({ field, value, source_url: page });
+  };
+
+  record('company_name', home.branding.company_name, home.url);
+  record('tagline', home.branding.tagline, home.url);
+  record('logo', home.logo, home.url);
+  record('favicon', home.favicon, home.url);
+
+  const pages: ScannedPage[] = results.map(({ data, bytes }) => {
+    data.colors.forEach((color) => record('colors', color, data.url));
+    data.fonts.forEach((font) => record('fonts', font, data.url));
+    data.services_extracted.forEach((service) => record('services_extracted', service, data.url));
+    data.products_extracted.forEach((product) => record('products_extracted', product, data.url));
+
+    return {
+      url: data.url,
+      title: data.raw_title,
+      bytes,
+      services: data.services_extracted,
+      products: data.products_extracted,
+    };
+  });
+
+  const valuesOf = (field: ScanFact['field'], limit: number) =>
+    facts.filter((fact) => fact.field === field).map((fact) => fact.value).slice(0, limit);
+
+  return {
+    ...home,
+    colors: valuesOf('colors', MAX_COLORS),
+    fonts: valuesOf('fonts', MAX_FONTS),
+    services_extracted: valuesOf('services_extracted', MAX_LIST_ITEMS * 2),
+    products_extracted: valuesOf('products_extracted', MAX_LIST_ITEMS * 2),
+    raw_content: results
+      .map(({ data }) => `[${data.url}]\n${data.raw_content}`)
+      .join('\n\n')
+      .slice(0, MAX_RAW_CONTENT_LENGTH),
+    pages,
+    facts,
+  };
+}
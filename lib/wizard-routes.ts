@@ -0,0 +1,58 @@
+/**
+ * Wizard Step Routes
+ *
+ * Maps OnboardingWizard steps to URL segments under a base path:
+ *
+ *   /onboarding                          path selection
+ *   /onboarding/website/scan             ... /questions, /competitors, /summary
+ *   /onboarding/questionnaire/answers    ... /competitors, /summary
+ *
+ * and guards deep links / history navigation so a step can't be reached
+ * before its prerequisites (WebsiteScan or FixedQuestionnaire) are done.
+ * Segments come from the flow definition in lib/onboarding-flow.ts.
+ */
+
+import type { OnboardingData, WizardPath } from '@/types/onboarding';
+import { ONBOARDING_FLOW, getFlowPath, getFlowStep, maxReachableStep } from './onboarding-flow';
+
+export const WIZARD_BASE_PATH = '/onboarding';
+
+export interface WizardRoute {
+  path: WizardPath;
+  step: number;
+}
+
+const PATH_SELECTION: WizardRoute = { path: null, step: 0 };
+
+/**
+ * URL for a wizard step. Step 0 (and no path) is the base path itself.
+ */
+export function wizardRouteToUrl({ path, step }: WizardRoute, basePath: string = WIZARD_BASE_PATH): string {
+  const flowPath = getFlowPath(path);
+  const flowStep = getFlowStep(path, step);
+  return flowPath && flowStep ? `${basePath}/${flowPath.slug}/${flowStep.slug}` : basePath;
+}
+
+/**
+ * Wizard step for a pathname. Unknown segments fall back to path selection;
+ * a path segment without a step opens that path's first step.
+ */
+export function parseWizardUrl(pathname: string, basePath: string = WIZARD_BASE_PATH): WizardRoute {
+  if (!pathname.startsWith(basePath)) return PATH_SELECTION;
+
+  const [pathSegment, stepSegment] = pathname.slice(basePath.length).split('/').filter(Boolean);
+  const flowPath = ONBOARDING_FLOW.paths.find((p) => p.slug === pathSegment);
+  if (!flowPath) return PATH_SELECTION;
+
+  if (!stepSegment) return { path: flowPath.id, step: 1 };
+  const index = flowPath.steps.findIndex((step) => step.slug === stepSegment);
+  return index >= 0 ? { path: flowPath.id, step: index + 1 } : PATH_SELECTION;
+}
+
+/**
+ * Clamp a requested route to what the data allows (entry guards in lib/onboarding-flow.ts)
+ */
+export function guardWizardRoute(route: WizardRoute, data: OnboardingData): WizardRoute {
+  if (!route.path) return PATH_SELECTION;
+  return { path: route.path, step: Math.min(route.step, Math.max(maxReachableStep(route.path, data), 1)) };
+}
@@ -0,0 +1,53 @@
+/**
+ * Ads Research Types
+ * Competitor ad creatives shown on /ads-research (lib/ad-library.ts)
+ */
+
+import type { ApiResponseBase } from './onboarding';
+
+export type AdPlatform = 'facebook' | 'instagram' | 'google' | 'tiktok';
+
+export const adPlatformLabels: Record<AdPlatform, string> = {
+  facebook: 'פייסבוק',
+  instagram: 'אינסטגרם',
+  google: 'גוגל',
+  tiktok: 'טיקטוק',
+};
+
+export interface AdCreative {
+  id: string;
+  advertiser_name: string;
+  // Competitor site the ad was matched to
+  advertiser_url: string;
+  platform: AdPlatform;
+  headline: string;
+  body: string;
+  cta?: string;
+  image_url?: string;
+  landing_url?: string;
+  // ISO date the ad started running
+  started_at: string;
+  // Services the ad promotes - what the service filter matches against
+  services: string[];
+  // Placeholder creative from the fixture provider, not a real ad
+  is_sample?: boolean;
+}
+
+export interface AdsResearchCompetitor {
+  url: string;
+  name: string;
+  services: string[];
+}
+
+// GET /api/ads-research?profile=<id>&services=a,b
+export interface AdsResearchResponse extends ApiResponseBase {
+  company_name?: string;
+  // The client's services - the filter options
+  services?: string[];
+  // Services the ads were filtered by (empty = all)
+  selected_services?: string[];
+  competitors?: AdsResearchCompetitor[];
+  ads?: AdCreative[];
+  // Which ad-library backend answered
+  provider?: string;
+}
@@ -2,7 +2,7 @@
  * Onboarding Wizard Types
  */
 
-export type WizardPath = 'has-website' | 'no-website' | null;
+export type WizardPath = 'has-website' | 'no-website' | 'has-file' | null;
 
 export interface WizardState {
   path: WizardPath;
@@ -43,12 +43,19 @@ export interface OnboardingData {
   // Font families used on the website
   brand_fonts?: string[];
 
+  // Pages fetched during the website scan (per-page breakdown)
+  scan_pages?: ScannedPage[];
+
   // Questionnaire answers (no-website path)
   questionnaire_answers: QuestionnaireAnswers | null;
 
   // Dynamic questions (website path)
   dynamic_questionnaire: DynamicQuestion[];
 
+  // How sure the questionnaire extraction is of each field it filled, 0-1 -
+  // Summary flags the low ones for review; a field the user edits drops out
+  field_confidence?: Partial<Record<ExtractedField, number>>;
+
   // Competitors
   competitors: CompetitorsData;
 }
@@ -59,24 +66,582 @@ export interface QuestionnaireAnswers {
   tone: string;
   key_messages: string;
   additional_info: string;
+  // Name and contact basics - optional so answers saved before they were asked still load
+  company_name?: string;
+  business_category?: BusinessCategory;
+  phone?: string;
+  address?: string;
+  opening_hours?: string;
+  contact_channels?: string[];
+}
+
+export type QuestionnaireFieldKind = 'short_text' | 'long_text' | 'phone' | 'address' | 'select' | 'multi_select';
+
+export interface QuestionnaireFieldOption {
+  value: string;
+  label: string;
+}
+
+// A question of the no-website questionnaire - FixedQuestionnaire renders it by kind
+// and lib/questionnaire-fields.ts validates the answer
+export interface QuestionnaireField {
+  key: keyof QuestionnaireAnswers;
+  kind: QuestionnaireFieldKind;
+  question: string;
+  placeholder?: string;
+  required: boolean;
+  // select and multi_select only
+  options?: QuestionnaireFieldOption[];
+  // Text kinds; defaults to the payload limit
+  maxLength?: number;
+}
+
+// Profile fields /api/onboarding/extract-answers fills from the questionnaire
+export type ExtractedField = 'company_name' | 'industry' | 'products_services' | 'target_audience' | 'key_messaging';
+
+export interface ExtractedValue<T> {
+  value: T;
+  // 0-1; 0 when the answers don't say
+  confidence: number;
+}
+
+// The questionnaire answers as profile fields (prompt: lib/llm/prompts/questionnaire-extraction.md)
+export interface QuestionnaireExtraction {
+  company_name: ExtractedValue<string>;
+  industry: ExtractedValue<string>;
+  products_services: ExtractedValue<string[]>;
+  target_audience: ExtractedValue<string>;
+  key_messaging: ExtractedValue<string[]>;
 }
 
+export type QuestionPriority = 'high' | 'medium' | 'low';
+
 export interface DynamicQuestion {
   field: string;
   description: string;
   question_for_client: string;
   answer?: string;
+  // Why the question is asked - which gap the scan left (lib/question-gaps.ts)
+  reason?: string;
+  priority?: QuestionPriority;
+}
+
+// LLM wording for the gap questions, by field (prompt: lib/llm/prompts/gap-questions.md)
+export interface GapQuestionsExtraction {
+  questions: Array<{ field: string; question: string }>;
 }
 
 export interface CompetitorsData {
   urls_valid: string[];
   urls_invalid: string[];
+  // Extracted from each valid URL after validation
+  profiles?: CompetitorProfile[];
 }
 
+// A competitor's site run through the same extraction as the client's own (lib/competitor-profiles.ts)
+export interface CompetitorProfile {
+  url: string;
+  name: string;
+  tagline: string;
+  services: string[];
+  brand_colors: string[];
+  // Set when the site couldn't be scanned - the other fields are then empty
+  error?: string;
+}
+
+// Why lib/safe-fetch.ts refused or failed to fetch a user-supplied URL
+export type SafeFetchErrorCode =
+  | 'invalid_url'
+  | 'blocked_scheme'
+  | 'blocked_port'
+  | 'blocked_address'
+  | 'dns_failed'
+  | 'too_many_redirects'
+  | 'too_large'
+  | 'timeout'
+  | 'unreachable';
+
+// Shown by WebsiteScan and CompetitorUrls for the `code` a route returns
+export const fetchErrorMessages: Record<SafeFetchErrorCode, string> = {
+  invalid_url: 'כתובת לא תקינה',
+  blocked_scheme: 'ניתן לסרוק רק כתובות http או https',
+  blocked_port: 'הכתובת משתמשת בפורט שאינו נתמך',
+  blocked_address: 'לא ניתן לגשת לכתובת פנימית או שמורה',
+  dns_failed: 'הדומיין לא נמצא',
+  too_many_redirects: 'יותר מדי הפניות בין דפים',
+  too_large: 'הדף גדול מדי לסריקה',
+  timeout: 'האתר לא הגיב בזמן',
+  unreachable: 'לא ניתן להתחבר לאתר',
+};
+
+export type UrlValidationErrorCode = SafeFetchErrorCode | 'duplicate' | 'own_site' | 'http_error';
+
+export const urlValidationErrorMessages: Record<UrlValidationErrorCode, string> = {
+  ...fetchErrorMessages,
+  duplicate: 'הכתובת כבר הוזנה',
+  own_site: 'זו הכתובת של האתר שלך',
+  http_error: 'האתר החזיר שגיאה',
+};
+
 export interface UrlValidationResult {
+  /** As entered */
   url: string;
   valid: boolean;
   error?: string;
+  code?: UrlValidationErrorCode;
+  /** Scheme added, tracking params stripped, host lowercased */
+  normalized_url?: string;
+  /** After redirects */
+  final_url?: string;
+  /** HTTP status of the final response */
+  status?: number;
+  title?: string;
+}
+
+// Raw result of /api/onboarding/scan-website (what WebsiteScan decodes)
+export interface ScannedWebsiteData {
+  branding: {
+    company_name: string;
+    tagline: string;
+    has_logo: boolean;
+  };
+  logo: string | null;
+  favicon: string | null;
+  colors: string[];
+  fonts: string[];
+  // LLM-extracted services (optional - preferred over scraper output when present)
+  services?: string[];
+  services_extracted: string[];
+  products_extracted: string[];
+  navigation: {
+    menu_items: string[];
+    links: { text: string; href: string }[];
+  };
+  url: string;
+  raw_title: string;
+  raw_content: string;
+  // Multi-page crawl: pages that were fetched and where each fact came from
+  pages?: ScannedPage[];
+  facts?: ScanFact[];
+}
+
+export interface ScannedPage {
+  url: string;
+  title: string;
+  bytes: number;
+  services: string[];
+  products: string[];
+}
+
+export interface ScanFact {
+  field:
+    | 'company_name'
+    | 'tagline'
+    | 'logo'
+    | 'favicon'
+    | 'colors'
+    | 'fonts'
+    | 'services_extracted'
+    | 'products_extracted';
+  value: string;
+  source_url: string;
+}
+
+// Everything a saved profile holds - the flat shape the wizard sends to save-profile
+export interface ProfileFields {
+  source: OnboardingData['source'];
+  site_url: string | null;
+  company_name: string;
+  industry: string;
+  mission: string;
+  products_services: string[];
+  target_audience: string;
+  unique_value_proposition: string;
+  brand_voice: string;
+  key_messaging: string[];
+  questionnaire_answers: QuestionnaireAnswers | null;
+  dynamic_questionnaire: DynamicQuestion[];
+  competitors_valid: string[];
+  competitors_invalid: string[];
+  competitor_profiles?: CompetitorProfile[];
+  onboarding_completed: boolean;
+  // Visual branding from the website scan
+  logo_url?: string;
+  favicon_url?: string;
+  brand_colors?: string[];
+  brand_fonts?: string[];
+}
+
+// Payload sent by the wizard to /api/onboarding/save-profile
+export interface SaveProfileRequest extends ProfileFields {
+  // Who made this save - recorded on the version, not on the profile
+  author?: string;
+}
+
+// Payload for PATCH /api/onboarding/profile/[id] - any subset of the saved fields
+export type UpdateProfileRequest = Partial<SaveProfileRequest>;
+
+// Payload for POST /api/onboarding/profile/[id]/restore
+export interface RestoreProfileRequest {
+  version: number;
+  author?: string;
+}
+
+// A profile as persisted by lib/profile-store.ts
+export interface StoredProfile extends ProfileFields {
+  id: string;
+  // Number of the version this profile currently matches
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Immutable snapshot written on every save, update and restore
+export interface ProfileVersion {
+  version: number;
+  profile_id: string;
+  author: string;
+  source: OnboardingData['source'];
+  action: 'create' | 'update' | 'restore';
+  // Set when action is 'restore'
+  restored_from?: number;
+  created_at: string;
+  data: ProfileFields;
+}
+
+export type ProfileVersionSummary = Omit<ProfileVersion, 'data'>;
+
+// One field that differs between two versions
+export type ProfileFieldChange =
+  | { field: string; type: 'value'; before: unknown; after: unknown }
+  | { field: string; type: 'list'; added: string[]; removed: string[] };
+
+export interface ProfileDiff {
+  from: number;
+  to: number;
+  changes: ProfileFieldChange[];
+}
+
+export interface ScanWebsiteRequest {
+  url: string;
+}
+
+export interface ValidateUrlsRequest {
+  urls: string[];
+  /** The client's own website - rejected if entered as a competitor */
+  site_url?: string | null;
+}
+
+// Payload for /api/onboarding/generate-questions - the data derived from a scan, plus the raw scan
+export interface GenerateQuestionsRequest {
+  data: OnboardingData;
+  scrapedData?: ScannedWebsiteData;
+}
+
+export interface ExtractCompetitorsRequest {
+  urls: string[];
+}
+
+export interface ExtractAnswersRequest {
+  answers: QuestionnaireAnswers;
+}
+
+// `html` is print-ready; with `print` it opens the print dialog (save as PDF)
+export type BrandBriefFormat = 'markdown' | 'html' | 'json' | 'toon';
+
+// Payload for /api/onboarding/brand-brief - answered with the file itself
+export interface BrandBriefRequest {
+  profile: ProfileFields;
+  format: BrandBriefFormat;
+  print?: boolean;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Payload sent by ChatQuestionnaire to /api/onboarding/chat
+export interface ChatRequest {
+  messages: ChatMessage[];
+  isInitial?: boolean;
+  businessContext?: {
+    companyName?: string;
+    industry?: string;
+    services?: string[];
+  };
+  collectedAnswers?: Record<string, string>;
+}
+
+// ============================================================================
+// API responses
+// ============================================================================
+
+// A validation problem with a single field (path is dotted, e.g. "competitors.urls_valid[0]")
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export interface ApiResponseBase {
+  success: boolean;
+  error?: string;
+  code?: string;
+  fieldErrors?: FieldError[];
+}
+
+export interface ScanWebsiteResponse extends ApiResponseBase {
+  // ScannedWebsiteData encoded as TOON (or JSON, see format)
+  data?: string;
+  format?: 'toon' | 'json';
+}
+
+export interface GenerateQuestionsResponse extends ApiResponseBase {
+  questions?: DynamicQuestion[];
+}
+
+export interface ValidateUrlsResponse extends ApiResponseBase {
+  results?: UrlValidationResult[];
+  summary?: {
+    valid: string[];
+    invalid: { url: string; error?: string }[];
+  };
+}
+
+export interface ExtractCompetitorsResponse extends ApiResponseBase {
+  profiles?: CompetitorProfile[];
+}
+
+export interface ExtractAnswersResponse extends ApiResponseBase {
+  extraction?: QuestionnaireExtraction;
+}
+
+export interface SaveProfileResponse extends ApiResponseBase {
+  profile?: {
+    id: string;
+    company_name: string;
+    onboarding_completed: boolean;
+  };
+}
+
+// GET / PATCH /api/onboarding/profile/[id]
+export interface ProfileResponse extends ApiResponseBase {
+  profile?: StoredProfile;
+}
+
+// DELETE /api/onboarding/profile/[id]
+export interface DeleteProfileResponse extends ApiResponseBase {
+  id?: string;
+}
+
+// GET /api/onboarding/profile/[id]/versions
+export interface ProfileVersionsResponse extends ApiResponseBase {
+  versions?: ProfileVersionSummary[];
+}
+
+// GET /api/onboarding/profile/[id]/versions/[version]
+export interface ProfileVersionResponse extends ApiResponseBase {
+  version?: ProfileVersion;
+}
+
+// GET /api/onboarding/profile/[id]/diff
+export interface ProfileDiffResponse extends ApiResponseBase {
+  diff?: ProfileDiff;
+}
+
+// POST /api/onboarding/chat (also the `done` event of its stream)
+export interface ChatResponse extends ApiResponseBase {
+  message?: string;
+  isComplete?: boolean;
+  // Profile field filled by the last answer
+  answers?: Record<string, string>;
+  finalAnswers?: Record<string, string>;
+}
+
+// ============================================================================
+// Conversational onboarding (GlassOnboarding / ConversationalOnboarding)
+// ============================================================================
+
+export type ConversationStage = 'initial' | 'screen1' | 'screen2' | 'screen3' | 'complete';
+
+// Where the conversation is within its stage (lib/conversation-machine.ts)
+export type ConversationState =
+  | 'askWebsite'
+  | 'awaitingManualInput'
+  | 'awaitingServiceSelection'
+  | 'awaitingServiceConfirmation'
+  | 'awaitingCustomerMapping'
+  | 'awaitingSummaryConfirmation'
+  | 'askingQuestion'
+  | 'awaitingClarification'
+  | 'awaitingAdditionalInfo'
+  | 'complete';
+
+// Shown where the user is asked to resume a chat
+export const conversationStageLabels: Record<ConversationStage, string> = {
+  initial: 'פתיחה',
+  screen1: 'בחירת שירותים',
+  screen2: 'התאמת קהלי יעד',
+  screen3: 'שאלות על העסק',
+  complete: 'סיום',
+};
+
+// What the business offers, extracted from the owner's own description (kept in sessionData as `business`)
+export interface BusinessSummary {
+  product: string;
+  services: string[];
+}
+
+// Business type the screen-3 questions are picked by (lib/question-bank.ts)
+export type BusinessCategory =
+  | 'b2c_retail'
+  | 'ecommerce'
+  | 'b2b_service'
+  | 'local_service'
+  | 'professional_practice'
+  | 'hospitality'
+  | 'saas';
+
+export const businessCategoryLabels: Record<BusinessCategory, string> = {
+  b2c_retail: 'קמעונאות לצרכן הפרטי',
+  ecommerce: 'חנות אונליין',
+  b2b_service: 'שירות לעסקים',
+  local_service: 'שירות מקומי',
+  professional_practice: 'פרקטיקה מקצועית',
+  hospitality: 'אוכל, אירוח ואירועים',
+  saas: 'תוכנה ומנויים (SaaS)',
+};
+
+// What the conversation has collected so far (the chat's `sessionData`)
+export interface ConversationSessionData {
+  hasWebsite?: boolean;
+  // The user's own description, when there's no website
+  businessDescription?: string;
+  business?: BusinessSummary;
+  selectedServices?: string[];
+  businessCategory?: BusinessCategorySelection;
+  serviceCustomerPairs?: ServiceCustomerPair[];
+  // Screen-3 question being asked
+  currentQuestionIndex?: number;
+  // Keyed by question id; a reply to a clarification is `<id>_clarified`
+  answers?: Record<string, string>;
+  additionalInfo?: string;
+}
+
+// Kept in the chat's sessionData as `businessCategory`
+export interface BusinessCategorySelection {
+  category: BusinessCategory;
+  // 'detected' until the user picks a category themselves
+  source: 'detected' | 'user';
+  // Classifier confidence, 0-1 (1 when chosen by the user)
+  confidence: number;
+}
+
+export interface ServiceCustomerPair {
+  service: string;
+  customers: string[];
+}
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  services?: string[];
+  selectedServices?: string[];
+  serviceCustomerPairs?: ServiceCustomerPair[];
+  showCustomerMapping?: boolean;
+  servicesForMapping?: string[];
+  // Shows the category picker under the message
+  showCategoryPicker?: boolean;
+}
+
+// POST /api/onboarding/conversational-chat - the server keeps the conversation state (lib/conversation-session.ts)
+export interface ConversationalChatRequest {
+  // Omitted on the first message - the response returns the new session's id
+  sessionId?: string;
+  message: string;
+  // The services picked in awaitingServiceSelection (`message` only shows them)
+  selectedServices?: string[];
+  // Each selected service's customers, sent in awaitingCustomerMapping
+  serviceCustomerPairs?: ServiceCustomerPair[];
+  // The user's own category pick, ignored once screen 3 has started
+  businessCategory?: BusinessCategory;
+  // Made by the client for each message - a client whose stream was cut asks by it whether the turn was saved
+  turnId?: string;
+}
+
+// POST /api/onboarding/conversational-chat (also the `done` event of its stream)
+export interface ConversationalChatResponse
+  extends ApiResponseBase,
+    Omit<ConversationMessage, 'role' | 'content'> {
+  sessionId?: string;
+  message?: string;
+  state?: ConversationState;
+  stage?: ConversationStage;
+  sessionData?: Record<string, unknown>;
+  showServiceSelection?: boolean;
+  isComplete?: boolean;
+  // What the flow collected, handed to onComplete
+  finalData?: unknown;
+}
+
+// GET /api/onboarding/conversational-chat?sessionId=<id>&turnId=<id>
+export interface ConversationTurnResponse extends ApiResponseBase {
+  // The turn's response if it is the session's last saved one
+  response?: ConversationalChatResponse;
+}
+
+// ============================================================================
+// Drafts (autosaved progress, see hooks/use-onboarding-draft.ts)
+// ============================================================================
+
+export type DraftKind = 'wizard' | 'glass-chat' | 'conversational-chat';
+
+export interface WizardDraftState {
+  wizard: WizardState;
+  competitorUrls: string[];
+  questionnaireAnswers: Partial<QuestionnaireAnswers>;
+  // Set once the profile was saved - resuming keeps updating the same profile
+  profileId: string | null;
+}
+
+export interface ChatDraftState {
+  messages: ConversationMessage[];
+  // Server conversation the chat continues (null before the first reply)
+  sessionId: string | null;
+  // Missing in drafts saved before the conversation had states
+  conversationState?: ConversationState;
+  currentStage: ConversationStage;
+  sessionData: Record<string, unknown>;
+}
+
+export interface DraftStateByKind {
+  wizard: WizardDraftState;
+  'glass-chat': ChatDraftState;
+  'conversational-chat': ChatDraftState;
+}
+
+export interface OnboardingDraft<K extends DraftKind = DraftKind> {
+  id: string;
+  kind: K;
+  saved_at: string;
+  state: DraftStateByKind[K];
+}
+
+// Payload for PUT /api/onboarding/draft/[id] - state is stored as-is
+export interface SaveDraftRequest {
+  kind: DraftKind;
+  saved_at: string;
+  state: unknown;
+}
+
+// GET / PUT /api/onboarding/draft/[id]
+export interface DraftResponse extends ApiResponseBase {
+  draft?: {
+    id: string;
+    kind: DraftKind;
+    saved_at: string;
+    state: unknown;
+  };
 }
 
 // Initial state
@@ -105,26 +670,92 @@ export const initialWizardState: WizardState = {
   data: initialOnboardingData,
 };
 
-// Fixed questions for no-website path
-export const fixedQuestions = [
+// Fixed questions for no-website path, in the order asked
+export const fixedQuestions: QuestionnaireField[] = [
+  {
+    key: 'company_name',
+    kind: 'short_text',
+    question: 'מה שם העסק?',
+    placeholder: 'השם שהלקוחות מכירים',
+    required: true,
+    maxLength: 80,
+  },
+  {
+    key: 'business_category',
+    kind: 'select',
+    question: 'באיזה תחום העסק?',
+    required: false,
+    options: Object.entries(businessCategoryLabels).map(([value, label]) => ({ value, label })),
+  },
+  {
+    key: 'services',
+    kind: 'long_text',
+    question: 'מה השירותים שאתם מציעים?',
+    placeholder: 'תאר את השירותים העיקריים שהעסק מציע...',
+    required: true,
+  },
+  {
+    key: 'advantages',
+    kind: 'long_text',
+    question: 'מה היתרונות המרכזיים שלכם?',
+    placeholder: 'מה מייחד אתכם מהמתחרים, מה עושה אתכם מיוחדים...',
+    required: true,
+  },
+  {
+    key: 'tone',
+    kind: 'long_text',
+    question: 'מה הטון של המותג שלכם?',
+    placeholder: 'מקצועי, ידידותי, צעיר, רשמי...',
+    required: false,
+  },
+  {
+    key: 'key_messages',
+    kind: 'long_text',
+    question: 'מהם המסרים המרכזיים שלכם?',
+    placeholder: 'המסרים והערכים שחשוב להעביר ללקוחות...',
+    required: false,
+  },
   {
-    id: 'services',
-    question: 'אנא פרט את כל השירותים שאתם מציעים',
+    key: 'phone',
+    kind: 'phone',
+    question: 'מספר טלפון של העסק',
+    placeholder: '050-1234567',
+    required: false,
   },
   {
-    id: 'advantages',
-    question: 'מהם היתרונות המרכזיים של העסק שלכם',
+    key: 'address',
+    kind: 'address',
+    question: 'כתובת העסק',
+    placeholder: 'רחוב, מספר ועיר - או האזור שבו אתם נותנים שירות',
+    required: false,
+    maxLength: 200,
   },
   {
-    id: 'tone',
-    question: 'איך הייתם מתארים את הטון של המותג שלכם',
+    key: 'opening_hours',
+    kind: 'short_text',
+    question: 'שעות פעילות',
+    placeholder: 'א׳-ה׳ 9:00-18:00, ו׳ 9:00-13:00',
+    required: false,
+    maxLength: 200,
   },
   {
-    id: 'key_messages',
-    question: 'מהם המסרים או הערכים שאתם רוצים שהלקוחות יבינו מיד',
+    key: 'contact_channels',
+    kind: 'multi_select',
+    question: 'איך לקוחות יכולים ליצור איתכם קשר?',
+    required: false,
+    options: [
+      { value: 'phone', label: 'טלפון' },
+      { value: 'whatsapp', label: 'וואטסאפ' },
+      { value: 'email', label: 'אימייל' },
+      { value: 'in_person', label: 'הגעה למקום' },
+      { value: 'social', label: 'רשתות חברתיות' },
+    ],
   },
   {
-    id: 'additional_info',
-    question: 'ישנם פרטים נוספים שחשוב שנדע על העסק שלכם?',
+    key: 'additional_info',
+    kind: 'long_text',
+    question: 'מידע נוסף שחשוב לנו לדעת',
+    placeholder: 'כל מידע רלוונטי נוסף שיכול לעזור לנו להכיר את העסק...',
+    required: false,
   },
 ];